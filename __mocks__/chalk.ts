@@ -0,0 +1,8 @@
+// Mock chalk for Jest tests: chalk 5 is ESM-only, and tests don't need colours
+type Chalk = ((...text: unknown[]) => string) & { [style: string]: Chalk };
+
+const chalk: Chalk = new Proxy(((...text: unknown[]) => text.join(' ')) as Chalk, {
+  get: (target, property) => (property === 'default' ? chalk : property in target ? target[property as string] : chalk)
+});
+
+export default chalk;
@@ -0,0 +1,4 @@
+// Mock uuid for Jest tests: uuid 14 is ESM-only
+import { randomUUID } from 'crypto';
+
+export const v4 = (): string => randomUUID();
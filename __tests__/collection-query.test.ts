@@ -0,0 +1,142 @@
+import { describe, expect, it } from '@jest/globals';
+import request from 'supertest';
+import { DEFAULT_QUERY_DIALECT, decodeCursor, encodeCursor, queryCollection, resolveQueryDialect } from '../src/generators/collection-query';
+import { ServerGenerator } from '../src/generators/server';
+import { JSONValue, Schema } from '../src/types';
+
+const products: JSONValue[] = [
+  { id: 'p1', name: 'Red shoe', status: 'active', price: 40, tags: ['shoes', 'red'], meta: { rank: 3 } },
+  { id: 'p2', name: 'Blue shoe', status: 'draft', price: 25, tags: ['shoes'], meta: { rank: 1 } },
+  { id: 'p3', name: 'Green hat', status: 'active', price: 15, tags: ['hats'], meta: { rank: 2 } },
+  { id: 'p4', name: 'Black belt', status: 'archived', price: 10, tags: [], meta: { rank: 5 } },
+  { id: 'p5', name: 'Red scarf', status: 'active', price: 25, tags: ['red'], meta: { rank: 4 } }
+];
+
+const properties = new Set(['id', 'name', 'status', 'price', 'tags', 'meta']);
+
+const ids = (query: Record<string, unknown>, dialect = DEFAULT_QUERY_DIALECT): string[] =>
+  queryCollection(products, query, '/api/products', dialect, properties).items.map(item => (item as Record<string, string>).id);
+
+describe('queryCollection filters', () => {
+  it('filters by equality, repeated values and operators', () => {
+    expect(ids({ status: 'active' })).toEqual(['p1', 'p3', 'p5']);
+    expect(ids({ status: ['draft', 'archived'] })).toEqual(['p2', 'p4']);
+    expect(ids({ 'price[gte]': '25' })).toEqual(['p1', 'p2', 'p5']);
+    expect(ids({ 'price[lt]': '20', 'status[ne]': 'archived' })).toEqual(['p3']);
+    expect(ids({ 'status[in]': 'draft,archived' })).toEqual(['p2', 'p4']);
+    expect(ids({ 'status[nin]': 'active' })).toEqual(['p2', 'p4']);
+    expect(ids({ 'name[contains]': 'SHOE' })).toEqual(['p1', 'p2']);
+  });
+
+  it('follows dot paths and matches array fields by any element', () => {
+    expect(ids({ 'meta.rank[lte]': '2' })).toEqual(['p2', 'p3']);
+    expect(ids({ tags: 'red' })).toEqual(['p1', 'p5']);
+  });
+
+  it('ignores parameters that are not declared properties', () => {
+    expect(ids({ _: '123', utm_source: 'mail' })).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+    expect(ids({ 'colour[eq]': 'red', status: 'draft' })).toEqual(['p2']);
+  });
+
+  it('searches string fields for every term', () => {
+    expect(ids({ q: 'red' })).toEqual(['p1', 'p5']);
+    expect(ids({ q: 'red shoe' })).toEqual(['p1']);
+  });
+
+  it('sorts by several keys in either direction', () => {
+    expect(ids({ sort: '-price,name' })).toEqual(['p1', 'p2', 'p5', 'p3', 'p4']);
+    expect(ids({ sort: 'price:desc,name:desc' })).toEqual(['p1', 'p5', 'p2', 'p3', 'p4']);
+    expect(ids({ sort: 'meta.rank' })).toEqual(['p2', 'p3', 'p1', 'p5', 'p4']);
+  });
+
+  it('reads suffix operators in the suffix dialect', () => {
+    const dialect = resolveQueryDialect({ operators: 'suffix' });
+
+    expect(ids({ price_gte: '25', status: 'active' }, dialect)).toEqual(['p1', 'p5']);
+  });
+});
+
+describe('queryCollection pagination', () => {
+  const query = (parameters: Record<string, unknown>, overrides = {}) =>
+    queryCollection(products, parameters, '/api/products', resolveQueryDialect(overrides), properties);
+
+  it('returns every item with only the total when nothing asks for a page', () => {
+    const page = query({});
+
+    expect(page.items).toHaveLength(5);
+    expect(page.meta).toEqual({ total: 5 });
+    expect(page.links).toEqual({});
+  });
+
+  it('pages by page and limit, with links that keep the filters', () => {
+    const page = query({ status: 'active', page: '2', limit: '2' });
+
+    expect(page.items.map(item => (item as Record<string, string>).id)).toEqual(['p5']);
+    expect(page.meta).toEqual({ total: 3, count: 1, limit: 2, offset: 2, hasMore: false, page: 2, totalPages: 2 });
+    expect(page.links).toEqual({
+      first: '/api/products?status=active&limit=2&page=1',
+      prev: '/api/products?status=active&limit=2&page=1',
+      last: '/api/products?status=active&limit=2&page=2'
+    });
+  });
+
+  it('pages by offset', () => {
+    const page = query({ offset: '1', limit: '2' });
+
+    expect(page.items.map(item => (item as Record<string, string>).id)).toEqual(['p2', 'p3']);
+    expect(page.meta).toMatchObject({ offset: 1, hasMore: true });
+    expect(page.links.next).toBe('/api/products?limit=2&offset=3');
+  });
+
+  it('pages by opaque cursors', () => {
+    const first = query({ cursor: '', limit: '2' });
+    expect(first.meta.nextCursor).toBe(encodeCursor(2));
+
+    const second = query({ cursor: first.meta.nextCursor, limit: '2' });
+    expect(second.items.map(item => (item as Record<string, string>).id)).toEqual(['p3', 'p4']);
+    expect(second.meta.prevCursor).toBe(encodeCursor(0));
+    expect(decodeCursor('not-a-cursor')).toBeUndefined();
+  });
+
+  it('caps the limit at maxLimit and applies defaultLimit', () => {
+    expect(query({ limit: '1000' }, { maxLimit: 3 }).meta.limit).toBe(3);
+    expect(query({}, { defaultLimit: 2 }).items).toHaveLength(2);
+  });
+
+  it('reads renamed parameters', () => {
+    const page = query({ p: '2', per_page: '4' }, { page: 'p', limit: 'per_page' });
+
+    expect(page.items).toHaveLength(1);
+    expect(page.links.first).toBe('/api/products?per_page=4&p=1');
+  });
+});
+
+describe('collection routes', () => {
+  const productSchema: Schema = {
+    title: 'Product',
+    type: 'object',
+    required: ['name', 'price'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      price: { type: 'number', minimum: 1, maximum: 100 }
+    }
+  };
+
+  it('filters, pages and sets the count and link headers', async () => {
+    const app = ServerGenerator.generateFromSchema(productSchema, { port: 0, logLevel: 'error' }).getApp();
+    for (const [name, price] of [['Lamp', 30], ['Desk', 90], ['Chair', 45]] as const) {
+      await request(app).post('/api/products').send({ name, price }).expect(201);
+    }
+    const all = await request(app).get('/api/products').expect(200);
+    const total = all.body.meta.total as number;
+
+    const cacheBusted = await request(app).get('/api/products?_=123').expect(200);
+    expect(cacheBusted.body.data).toHaveLength(total);
+
+    const page = await request(app).get('/api/products?price[gte]=30&sort=-price&limit=1').expect(200);
+    expect(page.body.data[0].price).toBeGreaterThanOrEqual(90);
+    expect(Number(page.headers['x-total-count'])).toBeGreaterThanOrEqual(3);
+    expect(page.headers.link).toContain('rel="next"');
+  });
+});
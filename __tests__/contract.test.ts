@@ -0,0 +1,113 @@
+import { describe, expect, it } from '@jest/globals';
+import request from 'supertest';
+import { validateResponseBody } from '../src/generators/contract';
+import { ServerGenerator } from '../src/generators/server';
+import { SchemaValidator } from '../src/utils/schema-validator';
+import { Schema } from '../src/types';
+
+describe('validateResponseBody', () => {
+  const userSchema: Schema = {
+    type: 'object',
+    required: ['id', 'email'],
+    properties: {
+      id: { type: 'string' },
+      email: { type: 'string', format: 'email' }
+    }
+  };
+  const validator = new SchemaValidator(userSchema);
+
+  it('validates each item of a collection route on its own', () => {
+    const body = { success: true, data: [{ id: '1', email: 'ann@example.com' }, { id: '2', email: 'not-an-email' }] };
+
+    const violations = validateResponseBody(validator, userSchema, body, true);
+
+    expect(violations).toHaveLength(1);
+    expect(violations?.[0]).toMatchObject({ instancePath: '/1/email', keyword: 'format' });
+  });
+
+  it('accepts an empty list from a collection route', () => {
+    expect(validateResponseBody(validator, userSchema, { success: true, data: [] }, true)).toEqual([]);
+  });
+
+  it('reports an empty array from a route that serves a single item', () => {
+    const violations = validateResponseBody(validator, userSchema, { success: true, data: [] });
+
+    expect(violations).toHaveLength(1);
+    expect(violations?.[0]).toMatchObject({ instancePath: '', keyword: 'type' });
+  });
+
+  it('reports an array from a route whose schema declares no type', () => {
+    const untyped: Schema = { properties: { id: { type: 'string' } } };
+
+    const violations = validateResponseBody(new SchemaValidator(untyped), untyped, [{ id: '1' }]);
+
+    expect(violations).toEqual([{ instancePath: '', schemaPath: '#', keyword: 'type', message: 'must be a single item, not an array' }]);
+  });
+
+  it('validates an array against a schema that describes one', () => {
+    const listSchema: Schema = { type: 'array', items: userSchema };
+
+    expect(validateResponseBody(new SchemaValidator(listSchema), listSchema, [])).toEqual([]);
+  });
+
+  it('skips envelopes without data', () => {
+    expect(validateResponseBody(validator, userSchema, { success: true, message: 'Deleted successfully' })).toBeUndefined();
+  });
+});
+
+describe('validateResponses: fail', () => {
+  const blogSchema: Schema = {
+    $defs: {
+      User: {
+        type: 'object',
+        required: ['id', 'name', 'email'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          email: { type: 'string', format: 'email' }
+        }
+      },
+      Post: {
+        type: 'object',
+        required: ['id', 'title', 'authorId'],
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          authorId: { type: 'string' }
+        }
+      }
+    }
+  };
+
+  const createApp = (schema: Schema) =>
+    ServerGenerator.generateFromSchema(schema, { port: 0, logLevel: 'error', validateResponses: 'fail' }).getApp();
+
+  it('checks sparse fieldsets and embedded relations before they are applied', async () => {
+    const app = createApp(blogSchema);
+    await request(app).get('/api/users').expect(200);
+
+    const sparse = await request(app).get('/api/users?fields=id').expect(200);
+    expect(Object.keys(sparse.body.data[0])).toEqual(['id']);
+
+    const post = await request(app).get('/api/posts').expect(200);
+    await request(app).get(`/api/posts/${post.body.data[0].id}?include=author&fields=title`).expect(200);
+  });
+
+  it('checks custom routes that declare a response schema, and skips static JSON', async () => {
+    const app = createApp({
+      type: 'object',
+      required: ['id', 'email'],
+      properties: { id: { type: 'string' }, email: { type: 'string', format: 'email' } },
+      'x-schemock-routes': [
+        { method: 'put', path: '/api/settings', response: { type: 'object', required: ['theme'], properties: { theme: { type: 'string', enum: ['dark'] } } } },
+        { method: 'delete', path: '/api/cache', response: ['users', 'posts'] }
+      ]
+    });
+
+    expect((await request(app).put('/api/settings').expect(200)).body).toMatchObject({ theme: 'dark' });
+    expect((await request(app).delete('/api/cache').expect(200)).body).toEqual(['users', 'posts']);
+
+    const report = await request(app).get('/__schemock/contract-report').expect(200);
+    expect(report.body.routes).toEqual([expect.objectContaining({ method: 'PUT', path: '/api/settings', checked: 1, failed: 0 })]);
+  });
+});
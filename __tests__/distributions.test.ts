@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { compileDistribution, compileWeights, pickWeighted, sampleNumber } from '../src/utils/distributions';
+import { initRandomGenerator, resetRandomGenerator } from '../src/utils/random';
+import { SchemaParser } from '../src/parsers/schema';
+import { SchemaParseError } from '../src/errors';
+import { Schema } from '../src/types';
+
+const SAMPLES = 2000;
+
+const count = <T>(values: T[]): Map<T, number> => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return counts;
+};
+
+const mean = (values: number[]): number => values.reduce((total, value) => total + value, 0) / values.length;
+
+describe('weighted enums', () => {
+  beforeEach(() => {
+    initRandomGenerator(1);
+  });
+
+  afterEach(() => {
+    resetRandomGenerator();
+  });
+
+  it('accepts weights as an array or keyed by enum value', () => {
+    expect(compileWeights(['a', 'b', 'c'], [70, 20, 10])).toEqual([70, 90, 100]);
+    expect(compileWeights(['a', 'b', 'c'], { a: 1, c: 3 })).toEqual([1, 1, 4]);
+  });
+
+  it('rejects weights that do not match the enum', () => {
+    expect(() => compileWeights(['a', 'b'], [1])).toThrow(/Expected 2 weights/);
+    expect(() => compileWeights(['a', 'b'], { z: 1 })).toThrow(/"z" is not one of the enum values/);
+    expect(() => compileWeights(['a', 'b'], [1, -1])).toThrow(SchemaParseError);
+    expect(() => compileWeights(['a', 'b'], [0, 0])).toThrow(/At least one weight must be positive/);
+  });
+
+  it('picks values in proportion to their weights', () => {
+    const values = ['delivered', 'shipped', 'cancelled'];
+    const cumulative = compileWeights(values, [70, 20, 10]);
+    const counts = count(Array.from({ length: SAMPLES }, () => pickWeighted(values, cumulative)));
+
+    expect((counts.get('delivered') ?? 0) / SAMPLES).toBeCloseTo(0.7, 1);
+    expect((counts.get('cancelled') ?? 0) / SAMPLES).toBeCloseTo(0.1, 1);
+  });
+
+  it('never picks a value without weight', () => {
+    const schema: Schema = { type: 'string', enum: ['a', 'b', 'c'], 'x-schemock-weights': { a: 1, b: 1 } };
+
+    for (let i = 0; i < 200; i++) {
+      expect(SchemaParser.parse(schema)).not.toBe('c');
+    }
+  });
+});
+
+describe('numeric distributions', () => {
+  beforeEach(() => {
+    initRandomGenerator(2);
+  });
+
+  afterEach(() => {
+    resetRandomGenerator();
+  });
+
+  it('rejects unknown distributions and parameters', () => {
+    expect(() => compileDistribution('poisson')).toThrow(/Unknown distribution "poisson"/);
+    expect(() => compileDistribution({ type: 'normal', s: 1 })).toThrow(/Unknown parameter "s" for normal/);
+    expect(() => compileDistribution({ type: 'normal', stddev: 0 })).toThrow(/must be positive/);
+    expect(compileDistribution({ type: 'normal', mean: -5 })).toEqual({ type: 'normal', mean: -5 });
+  });
+
+  it('keeps every distribution within minimum and maximum', () => {
+    for (const type of ['uniform', 'normal', 'exponential', 'zipf', 'lognormal'] as const) {
+      for (let i = 0; i < 200; i++) {
+        const value = sampleNumber({ type }, 10, 20);
+        expect(value).toBeGreaterThanOrEqual(10);
+        expect(value).toBeLessThanOrEqual(20);
+      }
+    }
+  });
+
+  it('centres normal values on the mean', () => {
+    const values = Array.from({ length: SAMPLES }, () => sampleNumber({ type: 'normal', mean: 70, stddev: 10 }, 0, 100, 1));
+
+    expect(mean(values)).toBeGreaterThan(68);
+    expect(mean(values)).toBeLessThan(72);
+    expect(values.every(Number.isInteger)).toBe(true);
+  });
+
+  it('skews exponential and zipf values towards the minimum', () => {
+    const exponential = Array.from({ length: SAMPLES }, () => sampleNumber({ type: 'exponential' }, 0, 100));
+    const zipf = count(Array.from({ length: SAMPLES }, () => sampleNumber({ type: 'zipf' }, 1, 10, 1)));
+
+    expect(mean(exponential)).toBeLessThan(35);
+    expect(zipf.get(1) ?? 0).toBeGreaterThan(zipf.get(2) ?? 0);
+    expect(zipf.get(2) ?? 0).toBeGreaterThan(zipf.get(10) ?? 0);
+  });
+
+  it('snaps values to multipleOf', () => {
+    for (let i = 0; i < 200; i++) {
+      const value = sampleNumber({ type: 'lognormal' }, 0, 100, 0.25);
+      expect(Number.isInteger(value / 0.25)).toBe(true);
+    }
+  });
+
+  it('draws array lengths from the distribution', () => {
+    const schema: Schema = {
+      type: 'array',
+      minItems: 0,
+      maxItems: 20,
+      items: { type: 'integer' },
+      'x-schemock-distribution': 'exponential'
+    };
+    const lengths = Array.from({ length: 500 }, () => (SchemaParser.parse(schema) as unknown[]).length);
+
+    expect(Math.max(...lengths)).toBeLessThanOrEqual(20);
+    expect(mean(lengths)).toBeLessThan(8);
+  });
+});
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import request from 'supertest';
+import { shapeResponse } from '../src/generators/embedding';
+import { resolveQueryDialect } from '../src/generators/collection-query';
+import { WorldState } from '../src/generators/world-state';
+import { ServerGenerator } from '../src/generators/server';
+import { ValidationError } from '../src/errors';
+import { JSONValue, Schema } from '../src/types';
+
+describe('shapeResponse', () => {
+  const dialect = resolveQueryDialect();
+  let world: WorldState;
+  const post: JSONValue = { id: 'p1', title: 'Hello', body: 'Text', authorId: 'u1', meta: { views: 3, likes: 1 } };
+
+  beforeEach(() => {
+    world = new WorldState();
+    world.register('users', { id: 'u1', name: 'Ann', email: 'ann@example.com' });
+    world.register('users', { id: 'u2', name: 'Bob', email: 'bob@example.com' });
+    world.register('posts', post);
+    world.register('comments', { id: 'c1', text: 'First', postId: 'p1', userId: 'u2' });
+    world.register('comments', { id: 'c2', text: 'Second', postId: 'p1', userId: 'u1' });
+    world.register('comments', { id: 'c3', text: 'Elsewhere', postId: 'p2', userId: 'u1' });
+  });
+
+  it('returns items unchanged without fields or include', () => {
+    expect(shapeResponse(post, {}, 'posts', world, dialect)).toBe(post);
+  });
+
+  it('keeps only the listed fields, reaching into objects with dot paths', () => {
+    expect(shapeResponse(post, { fields: 'id,meta.views' }, 'posts', world, dialect)).toEqual({ id: 'p1', meta: { views: 3 } });
+    expect(shapeResponse([post, post], { fields: ['title', 'id'] }, 'posts', world, dialect)).toEqual([
+      { id: 'p1', title: 'Hello' },
+      { id: 'p1', title: 'Hello' }
+    ]);
+  });
+
+  it('embeds foreign keys and the items that reference the item', () => {
+    const shaped = shapeResponse(post, { include: 'author,comments' }, 'posts', world, dialect) as Record<string, JSONValue>;
+
+    expect(shaped.author).toEqual({ id: 'u1', name: 'Ann', email: 'ann@example.com' });
+    expect((shaped.comments as Array<Record<string, string>>).map(comment => comment.id)).toEqual(['c1', 'c2']);
+    expect(post).not.toHaveProperty('author');
+  });
+
+  it('embeds nested relations and lets fields select into them', () => {
+    const shaped = shapeResponse(post, { include: 'comments.user', fields: 'title,comments.text,comments.user.name' }, 'posts', world, dialect);
+
+    expect(shaped).toEqual({
+      title: 'Hello',
+      comments: [
+        { text: 'First', user: { name: 'Bob' } },
+        { text: 'Second', user: { name: 'Ann' } }
+      ]
+    });
+  });
+
+  it('keeps included relations whole when fields does not select into them', () => {
+    const shaped = shapeResponse(post, { include: 'author', fields: 'id' }, 'posts', world, dialect);
+
+    expect(shaped).toEqual({ id: 'p1', author: { id: 'u1', name: 'Ann', email: 'ann@example.com' } });
+  });
+
+  it('rejects include paths deeper than includeDepth', () => {
+    expect(() => shapeResponse(post, { include: 'comments.user.posts' }, 'posts', world, dialect)).toThrow(ValidationError);
+    expect(() => shapeResponse(post, { include: 'comments.user.posts' }, 'posts', world, resolveQueryDialect({ includeDepth: 3 }))).not.toThrow();
+  });
+
+  it('reads renamed parameters', () => {
+    const renamed = resolveQueryDialect({ fields: 'select', include: 'expand' });
+
+    expect(shapeResponse(post, { select: 'id,author', expand: 'author' }, 'posts', world, renamed)).toEqual({
+      id: 'p1',
+      author: { id: 'u1', name: 'Ann', email: 'ann@example.com' }
+    });
+  });
+});
+
+describe('fields and include on routes', () => {
+  const blogSchema: Schema = {
+    $defs: {
+      User: {
+        type: 'object',
+        required: ['id', 'name'],
+        properties: { id: { type: 'string' }, name: { type: 'string' } }
+      },
+      Post: {
+        type: 'object',
+        required: ['id', 'title', 'authorId'],
+        properties: { id: { type: 'string' }, title: { type: 'string' }, authorId: { type: 'string' } }
+      }
+    }
+  };
+
+  it('shapes single and collection GETs, and answers 400 for too deep includes', async () => {
+    const app = ServerGenerator.generateFromSchema(blogSchema, { port: 0, logLevel: 'error' }).getApp();
+    await request(app).get('/api/users').expect(200);
+
+    const list = await request(app).get('/api/posts?fields=id,title').expect(200);
+    expect(Object.keys(list.body.data[0]).sort()).toEqual(['id', 'title']);
+
+    const id = list.body.data[0].id as string;
+    const single = await request(app).get(`/api/posts/${id}?include=author`).expect(200);
+    expect(single.body.data.author).toMatchObject({ id: single.body.data.authorId });
+
+    const tooDeep = await request(app).get(`/api/posts/${id}?include=author.posts.author`).expect(400);
+    expect(tooDeep.body).toMatchObject({ success: false, error: 'ValidationError' });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from '@jest/globals';
+import { compileExpression, compileTemplate, evaluateExpression, renderTemplate } from '../src/utils/expressions';
+import { SchemaParser } from '../src/parsers/schema';
+import { SchemaParseError } from '../src/errors';
+import { JSONValue, Schema } from '../src/types';
+
+describe('templates', () => {
+  it('renders placeholders with filters and literal braces', () => {
+    const template = compileTemplate('{{{firstName|initial}. {lastName|upper}}} {title|slug}');
+    const self = { firstName: 'ada', lastName: 'Lovelace', title: 'Notes on the Engine!' };
+
+    expect(renderTemplate(template, { self })).toBe('{a. LOVELACE} notes-on-the-engine');
+  });
+
+  it('reads the enclosing object through $parent', () => {
+    const template = compileTemplate('{$parent.id}-{position}');
+
+    expect(renderTemplate(template, { self: { position: 3 }, parent: { id: 'ord-1' } })).toBe('ord-1-3');
+  });
+
+  it('rejects unknown filters and unbalanced braces', () => {
+    expect(() => compileTemplate('{name|reverse}')).toThrow(/Unknown filter "reverse"/);
+    expect(() => compileTemplate('{name')).toThrow(SchemaParseError);
+    expect(() => compileTemplate('name}')).toThrow(SchemaParseError);
+  });
+});
+
+describe('expressions', () => {
+  const evaluate = (source: string, self: Record<string, JSONValue>): number | undefined =>
+    evaluateExpression(compileExpression(source), { self });
+
+  it('evaluates arithmetic and functions over sibling values', () => {
+    expect(evaluate('round(quantity * unitPrice, 2)', { quantity: 3, unitPrice: 1.115 })).toBe(3.35);
+    expect(evaluate('-a + b % 4 / 2', { a: 1, b: 7 })).toBe(0.5);
+    expect(evaluate('max(a, b, 10)', { a: 4, b: 12 })).toBe(12);
+  });
+
+  it('aggregates lists', () => {
+    const self = { lines: [{ price: 2 }, { price: 3 }, { price: 5 }] };
+
+    expect(evaluate('sum(lines.price)', self)).toBe(10);
+    expect(evaluate('avg(lines.price)', self)).toBe(10 / 3);
+    expect(evaluate('count(lines)', self)).toBe(3);
+  });
+
+  it('yields undefined when a referenced value is missing', () => {
+    expect(evaluate('a * 2', {})).toBeUndefined();
+  });
+
+  it('never runs JavaScript', () => {
+    expect(() => compileExpression('process.exit(1)')).toThrow(SchemaParseError);
+    expect(() => compileExpression('eval("1")')).toThrow(SchemaParseError);
+    expect(() => compileExpression('round(1, 2, 3)')).toThrow(SchemaParseError);
+  });
+});
+
+describe('SchemaParser derived fields', () => {
+  it('fills templates and computed numbers from generated siblings', () => {
+    const schema: Schema = {
+      type: 'object',
+      required: ['firstName', 'lastName', 'fullName', 'quantity', 'unitPrice', 'total'],
+      properties: {
+        fullName: { type: 'string', 'x-schemock-template': '{firstName} {lastName}' },
+        firstName: { type: 'string', enum: ['Ada'] },
+        lastName: { type: 'string', enum: ['Lovelace'] },
+        total: { type: 'number', 'x-schemock-compute': 'round(quantity * unitPrice, 2)' },
+        quantity: { type: 'integer', minimum: 1, maximum: 5 },
+        unitPrice: { type: 'number', minimum: 1, maximum: 100 }
+      }
+    };
+
+    for (let i = 0; i < 20; i++) {
+      const record = SchemaParser.parse(schema) as { fullName: string; quantity: number; unitPrice: number; total: number };
+      expect(record.fullName).toBe('Ada Lovelace');
+      expect(record.total).toBeCloseTo(record.quantity * record.unitPrice, 2);
+    }
+  });
+
+  it('lets derived fields build on each other in any declaration order', () => {
+    const schema: Schema = {
+      type: 'object',
+      required: ['title', 'slug', 'url'],
+      properties: {
+        url: { type: 'string', 'x-schemock-template': '/posts/{slug}' },
+        slug: { type: 'string', 'x-schemock-template': '{title|slug}' },
+        title: { type: 'string', const: 'Hello World' }
+      }
+    };
+
+    expect(SchemaParser.parse(schema)).toEqual({ title: 'Hello World', slug: 'hello-world', url: '/posts/hello-world' });
+  });
+
+  it('reports derived fields that depend on each other in a cycle', () => {
+    const schema: Schema = {
+      type: 'object',
+      properties: {
+        a: { type: 'string', 'x-schemock-template': '{b}' },
+        b: { type: 'string', 'x-schemock-template': '{a}' }
+      }
+    };
+
+    expect(() => SchemaParser.parse(schema)).toThrow(/depend on each other in a cycle: a -> b -> a/);
+  });
+
+  it('reports derived fields that read an undeclared property', () => {
+    const schema: Schema = {
+      type: 'object',
+      properties: {
+        total: { type: 'number', 'x-schemock-compute': 'price * qty' },
+        price: { type: 'number' }
+      }
+    };
+
+    expect(() => SchemaParser.parse(schema)).toThrow(/reads "qty", which is not a property of the object/);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from '@jest/globals';
+import request from 'supertest';
+import { applyJsonPatch, applyMergePatch, JSON_PATCH_MEDIA_TYPE, MERGE_PATCH_MEDIA_TYPE } from '../src/utils/json-patch';
+import { ServerGenerator } from '../src/generators/server';
+import { PatchError, ValidationError } from '../src/errors';
+import { Schema } from '../src/types';
+
+describe('applyMergePatch', () => {
+  it('merges objects, removes null members and replaces arrays', () => {
+    const target = { name: 'Ann', address: { city: 'Berlin', zip: '10115' }, tags: ['a', 'b'], nickname: 'A' };
+
+    expect(applyMergePatch(target, { address: { city: 'Paris' }, tags: ['c'], nickname: null })).toEqual({
+      name: 'Ann',
+      address: { city: 'Paris', zip: '10115' },
+      tags: ['c']
+    });
+    expect(target.nickname).toBe('A');
+  });
+});
+
+describe('applyJsonPatch', () => {
+  const document = { name: 'Ann', tags: ['a', 'b'], address: { city: 'Berlin' } };
+
+  it('applies add, remove, replace, move, copy and test in order', () => {
+    const patched = applyJsonPatch(document, [
+      { op: 'test', path: '/name', value: 'Ann' },
+      { op: 'replace', path: '/name', value: 'Bea' },
+      { op: 'add', path: '/tags/-', value: 'c' },
+      { op: 'add', path: '/tags/0', value: 'z' },
+      { op: 'remove', path: '/tags/1' },
+      { op: 'copy', from: '/address/city', path: '/birthplace' },
+      { op: 'move', from: '/address/city', path: '/city' }
+    ]);
+
+    expect(patched).toEqual({ name: 'Bea', tags: ['z', 'b', 'c'], address: {}, birthplace: 'Berlin', city: 'Berlin' });
+    expect(document.name).toBe('Ann');
+  });
+
+  it('escapes ~ and / in pointers', () => {
+    expect(applyJsonPatch({ 'a/b': 1, 'c~d': 2 }, [
+      { op: 'replace', path: '/a~1b', value: 3 },
+      { op: 'remove', path: '/c~0d' }
+    ])).toEqual({ 'a/b': 3 });
+  });
+
+  it('throws a PatchError for operations that cannot be applied', () => {
+    expect(() => applyJsonPatch(document, [{ op: 'test', path: '/name', value: 'Bea' }])).toThrow(PatchError);
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/missing' }])).toThrow(/does not exist/);
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '/tags/5', value: 'x' }])).toThrow(/the array has 2 items/);
+    expect(() => applyJsonPatch(document, [{ op: 'move', from: '/address', path: '/address/home' }])).toThrow(/into its own child/);
+  });
+
+  it('throws a ValidationError for malformed patches', () => {
+    expect(() => applyJsonPatch(document, { op: 'remove', path: '/name' })).toThrow(ValidationError);
+    expect(() => applyJsonPatch(document, [{ op: 'rename', path: '/name' }])).toThrow(/must have an "op"/);
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: 'name', value: 1 }])).toThrow(/JSON pointer "path"/);
+    expect(() => applyJsonPatch(document, [{ op: 'replace', path: '/name' }])).toThrow(/needs a "value"/);
+  });
+});
+
+describe('PATCH routes', () => {
+  const userSchema: Schema = {
+    title: 'User',
+    type: 'object',
+    required: ['name', 'age'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      age: { type: 'integer', minimum: 0 },
+      nickname: { type: 'string' }
+    }
+  };
+
+  const createUser = async (strict: boolean = false) => {
+    const app = ServerGenerator.generateFromSchema(userSchema, { port: 0, logLevel: 'error', strict }).getApp();
+    const created = await request(app).post('/api/users').send({ name: 'Ann', age: 30, nickname: 'A' }).expect(201);
+    return { app, id: created.body.data.id as string };
+  };
+
+  it('applies a JSON Merge Patch and keeps the change', async () => {
+    const { app, id } = await createUser();
+
+    const patched = await request(app).patch(`/api/users/${id}`)
+      .set('Content-Type', MERGE_PATCH_MEDIA_TYPE)
+      .send({ age: 31, nickname: null })
+      .expect(200);
+    expect(patched.body.data).toMatchObject({ id, name: 'Ann', age: 31 });
+    expect(patched.body.data).not.toHaveProperty('nickname');
+
+    const fetched = await request(app).get(`/api/users/${id}`).expect(200);
+    expect(fetched.body.data).toMatchObject({ age: 31 });
+  });
+
+  it('applies a JSON Patch sent as application/json-patch+json', async () => {
+    const { app, id } = await createUser();
+
+    const patched = await request(app).patch(`/api/users/${id}`)
+      .set('Content-Type', JSON_PATCH_MEDIA_TYPE)
+      .send(JSON.stringify([{ op: 'test', path: '/name', value: 'Ann' }, { op: 'replace', path: '/name', value: 'Bea' }]))
+      .expect(200);
+    expect(patched.body.data).toMatchObject({ id, name: 'Bea', age: 30 });
+  });
+
+  it('answers 422 when a JSON Patch operation fails and leaves the record unchanged', async () => {
+    const { app, id } = await createUser();
+
+    const failed = await request(app).patch(`/api/users/${id}`)
+      .set('Content-Type', JSON_PATCH_MEDIA_TYPE)
+      .send(JSON.stringify([{ op: 'replace', path: '/name', value: 'Bea' }, { op: 'test', path: '/age', value: 99 }]))
+      .expect(422);
+    expect(failed.body).toMatchObject({ success: false, error: 'PatchError', details: { path: '/age', operation: 1 } });
+
+    const fetched = await request(app).get(`/api/users/${id}`).expect(200);
+    expect(fetched.body.data.name).toBe('Ann');
+  });
+
+  it('answers 400 for a malformed JSON Patch', async () => {
+    const { app, id } = await createUser();
+
+    await request(app).patch(`/api/users/${id}`)
+      .set('Content-Type', JSON_PATCH_MEDIA_TYPE)
+      .send(JSON.stringify({ op: 'replace', path: '/name', value: 'Bea' }))
+      .expect(400);
+  });
+
+  it('answers 422 in strict mode when the patched record breaks the schema', async () => {
+    const { app, id } = await createUser(true);
+
+    const failed = await request(app).patch(`/api/users/${id}`).send({ age: -1 }).expect(422);
+    expect(failed.body.details.errors).toEqual([expect.objectContaining({ instancePath: '/age', keyword: 'minimum' })]);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import request from 'supertest';
+import { generateContent, placeholderUrl, renderPlaceholder, setPlaceholderBaseUrl } from '../src/generators/media';
+import { SchemaParser } from '../src/parsers/schema';
+import { ServerGenerator } from '../src/generators/server';
+import { ValidationError } from '../src/errors';
+import { Schema } from '../src/types';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const pngSize = (png: Buffer): [number, number] => [png.readUInt32BE(16), png.readUInt32BE(20)];
+
+describe('generateContent', () => {
+  it('generates a PNG that decodes from base64', () => {
+    const png = Buffer.from(generateContent('image/png', 'base64'), 'base64');
+
+    expect(png.subarray(0, 8)).toEqual(PNG_SIGNATURE);
+    expect(pngSize(png)).toEqual([16, 16]);
+  });
+
+  it('generates a one-page PDF', () => {
+    const pdf = Buffer.from(generateContent('application/pdf', 'base64'), 'base64').toString('latin1');
+
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+
+  it('returns text media types as is and honours other encodings', () => {
+    const csv = generateContent('text/csv', undefined);
+    const rows = csv.trim().split('\n').map(row => row.split(',').length);
+    expect(new Set(rows).size).toBe(1);
+
+    expect(() => JSON.parse(generateContent('application/json', undefined))).not.toThrow();
+    expect(generateContent('image/png', 'base16')).toMatch(/^89504e470d0a1a0a[0-9a-f]+$/);
+    expect(generateContent('image/png', 'base64url')).not.toMatch(/[+/=]/);
+  });
+
+  it('base64-encodes binary types without an encoding', () => {
+    expect(generateContent('image/jpeg', undefined)).toMatch(/^[A-Za-z0-9+/]+=*$/);
+  });
+});
+
+describe('placeholder images', () => {
+  afterEach(() => {
+    setPlaceholderBaseUrl('http://localhost:3000');
+  });
+
+  it('renders PNGs and SVGs of the requested size', () => {
+    expect(pngSize(renderPlaceholder(200, 100, 'png'))).toEqual([200, 100]);
+    expect(renderPlaceholder(64, 32, 'svg', { text: 'Logo' }).toString()).toMatch(/<svg[^>]*width="64"[^>]*height="32"[\s\S]*Logo/);
+  });
+
+  it('rejects sizes and colours it cannot render', () => {
+    expect(() => renderPlaceholder(0, 10, 'png')).toThrow(ValidationError);
+    expect(() => renderPlaceholder(10, 5000, 'png')).toThrow(ValidationError);
+    expect(() => renderPlaceholder(10, 10, 'png', { background: 'teal' })).toThrow(ValidationError);
+  });
+
+  it('sizes URLs by property name', () => {
+    setPlaceholderBaseUrl('http://localhost:4000/');
+
+    expect(placeholderUrl('avatarUrl')).toBe('http://localhost:4000/__schemock/placeholder/128x128.png');
+    expect(placeholderUrl('thumbnail')).toBe('http://localhost:4000/__schemock/placeholder/320x180.png');
+    expect(placeholderUrl('image', 'image/svg+xml')).toBe('http://localhost:4000/__schemock/placeholder/640x480.svg');
+  });
+
+  it('points image properties at the placeholder route', () => {
+    const schema: Schema = {
+      type: 'object',
+      required: ['avatarUrl', 'attachment'],
+      properties: {
+        avatarUrl: { type: 'string', format: 'uri' },
+        attachment: { type: 'string', contentEncoding: 'base64', contentMediaType: 'image/png' }
+      }
+    };
+
+    const record = SchemaParser.parse(schema) as Record<string, string>;
+
+    expect(record.avatarUrl).toMatch(/\/__schemock\/placeholder\/128x128\.png$/);
+    expect(Buffer.from(record.attachment, 'base64').subarray(0, 8)).toEqual(PNG_SIGNATURE);
+  });
+
+  it('serves placeholder images from the mock server', async () => {
+    const app = ServerGenerator.generateFromSchema({ title: 'User', type: 'object' }, { port: 0, logLevel: 'error' }).getApp();
+
+    const png = await request(app).get('/__schemock/placeholder/120x80.png').buffer(true);
+    expect(png.status).toBe(200);
+    expect(png.headers['content-type']).toBe('image/png');
+    expect(pngSize(png.body as Buffer)).toEqual([120, 80]);
+
+    const svg = await request(app).get('/__schemock/placeholder/50x50.svg?bg=e2e8f0');
+    expect(svg.status).toBe(200);
+    expect(svg.headers['content-type']).toMatch(/^image\/svg\+xml/);
+
+    expect((await request(app).get('/__schemock/placeholder/50x50.gif')).status).toBe(400);
+    expect((await request(app).get('/__schemock/placeholder/0x50.png')).status).toBe(400);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { generateFromPattern } from '../src/utils/regex-generator';
+import { initRandomGenerator, resetRandomGenerator } from '../src/utils/random';
+import { SchemaParser } from '../src/parsers/schema';
+import { SchemaParseError } from '../src/errors';
+
+describe('generateFromPattern', () => {
+  afterEach(() => {
+    resetRandomGenerator();
+  });
+
+  it.each([
+    '^[a-z0-9]+(?:-[a-z0-9]+)*$',
+    '^SKU-[A-Z]{3}-\\d{4}$',
+    '^\\d{5}(-\\d{4})?$',
+    '^(ORD|INV)_[0-9]{6}$',
+    '^([a-z])\\1$'
+  ])('generates strings that match %s', pattern => {
+    const regex = new RegExp(pattern);
+    for (let i = 0; i < 50; i++) {
+      expect(generateFromPattern(pattern)).toMatch(regex);
+    }
+  });
+
+  it('reaches minLength for patterns anchored at both ends', () => {
+    for (let i = 0; i < 500; i++) {
+      const value = generateFromPattern('^[a-z]+$', { minLength: 8 });
+      expect(value).toMatch(/^[a-z]{8,}$/);
+    }
+  });
+
+  it('keeps values within maxLength', () => {
+    for (let i = 0; i < 200; i++) {
+      expect(generateFromPattern('^[a-z]+$', { minLength: 2, maxLength: 4 }).length).toBeLessThanOrEqual(4);
+    }
+  });
+
+  it('pads unanchored patterns up to minLength', () => {
+    const value = generateFromPattern('^AB', { minLength: 10 });
+    expect(value).toMatch(/^AB/);
+    expect(value.length).toBeGreaterThanOrEqual(10);
+  });
+
+  it('is reproducible with a seed', () => {
+    initRandomGenerator(42);
+    const first = Array.from({ length: 5 }, () => generateFromPattern('^[A-Z]{2}\\d{3}$'));
+    initRandomGenerator(42);
+    const second = Array.from({ length: 5 }, () => generateFromPattern('^[A-Z]{2}\\d{3}$'));
+    expect(second).toEqual(first);
+  });
+
+  it('throws a SchemaParseError for an invalid pattern', () => {
+    expect(() => generateFromPattern('^[a-z$')).toThrow(SchemaParseError);
+  });
+
+  it('throws instead of returning a value that breaks the length constraints', () => {
+    expect(() => generateFromPattern('^[a-z]{3}$', { minLength: 5 })).toThrow(SchemaParseError);
+  });
+});
+
+describe('SchemaParser with pattern', () => {
+  it('generates pattern strings that also satisfy minLength and maxLength', () => {
+    const schema = { type: 'string' as const, pattern: '^[a-z]+$', minLength: 8, maxLength: 12 };
+    for (let i = 0; i < 200; i++) {
+      const value = SchemaParser.parse(schema) as string;
+      expect(value).toMatch(/^[a-z]{8,12}$/);
+    }
+  });
+});
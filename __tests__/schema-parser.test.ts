@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { SchemaParser } from '../src/parsers/schema';
+import { getValidator } from '../src/utils/schema-validator';
+import { Schema } from '../src/types';
+
+const generateValid = (schema: Schema, runs: number = 100): void => {
+  const validator = getValidator(schema);
+  for (let i = 0; i < runs; i++) {
+    const value = SchemaParser.parse(schema);
+    expect(validator.validate(value)).toEqual([]);
+  }
+};
+
+describe('SchemaParser keyword coverage', () => {
+  it('generates both branches of if/then/else', () => {
+    const schema: Schema = {
+      type: 'object',
+      required: ['country', 'postalCode'],
+      properties: {
+        country: { type: 'string', enum: ['US', 'NL'] },
+        postalCode: { type: 'string' }
+      },
+      if: { properties: { country: { const: 'US' } } },
+      then: { properties: { postalCode: { pattern: '^\\d{5}$' } } },
+      else: { properties: { postalCode: { pattern: '^\\d{4} [A-Z]{2}$' } } }
+    };
+
+    generateValid(schema);
+    const countries = new Set(Array.from({ length: 50 }, () => (SchemaParser.parse(schema) as Record<string, string>).country));
+    expect(countries).toEqual(new Set(['US', 'NL']));
+  });
+
+  it('resolves $refs inside conditions against the root schema', () => {
+    const schema: Schema = {
+      type: 'object',
+      required: ['kind', 'size'],
+      properties: {
+        kind: { type: 'string' },
+        size: { type: 'integer', minimum: 0, maximum: 100 }
+      },
+      if: { properties: { kind: { $ref: '#/$defs/Small' } } },
+      then: { properties: { size: { maximum: 10 } } },
+      else: { properties: { size: { minimum: 50 } } },
+      $defs: { Small: { const: 'small' } }
+    };
+
+    generateValid(schema);
+    const sizes = Array.from({ length: 50 }, () => (SchemaParser.parse(schema) as Record<string, number>).size);
+    expect(sizes.some(size => size <= 10) && sizes.some(size => size >= 50)).toBe(true);
+  });
+
+  it('places items that satisfy contains among the array items', () => {
+    const schema: Schema = {
+      type: 'array',
+      minItems: 3,
+      items: { type: 'integer', minimum: 0, maximum: 100 },
+      contains: { type: 'integer', minimum: 90 },
+      minContains: 2
+    };
+
+    generateValid(schema);
+  });
+
+  it('generates nullable enums that validate', () => {
+    generateValid({ type: 'string', enum: ['a', 'b'], nullable: true });
+  });
+});
@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SchemaRegistry, hasExternalRefs } from '../src/parsers/schema-registry';
+import { SchemaParser } from '../src/parsers/schema';
+import { ServerGenerator } from '../src/generators/server';
+import { SchemaRefError } from '../src/errors';
+import { Schema } from '../src/types';
+
+describe('SchemaRegistry', () => {
+  let dir: string;
+
+  const write = (file: string, schema: object): void => {
+    writeFileSync(join(dir, file), JSON.stringify(schema));
+  };
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'schemock-registry-'));
+    mkdirSync(join(dir, 'common'));
+    write('common/address.json', {
+      $defs: {
+        Address: {
+          type: 'object',
+          required: ['city', 'country'],
+          properties: { city: { type: 'string' }, country: { $ref: 'country.json' } }
+        }
+      }
+    });
+    write('common/country.json', { type: 'string', enum: ['DE', 'FR'] });
+    write('money.json', {
+      $id: 'https://example.com/schemas/money',
+      type: 'object',
+      required: ['amount'],
+      properties: { amount: { type: 'number', minimum: 0 } },
+      $defs: { Currency: { $anchor: 'Currency', type: 'string', const: 'EUR' } }
+    });
+    write('loop-a.json', { $ref: 'loop-b.json' });
+    write('loop-b.json', { $ref: 'loop-a.json' });
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('bundles relative file, $id and $anchor references into local $defs', () => {
+    const order: Schema = {
+      type: 'object',
+      required: ['shipTo', 'total', 'currency'],
+      properties: {
+        shipTo: { $ref: './common/address.json#/$defs/Address' },
+        total: { $ref: 'https://example.com/schemas/money' },
+        currency: { $ref: 'https://example.com/schemas/money#Currency' }
+      }
+    };
+
+    const bundled = SchemaRegistry.fromDirectory(dir).bundle(order);
+
+    expect(hasExternalRefs(bundled)).toBe(false);
+    expect(bundled.properties?.shipTo.$ref).toBe('#/$defs/Address');
+    expect(Object.keys(bundled.$defs ?? {})).toEqual(expect.arrayContaining(['Address', 'money', 'Currency']));
+
+    const order1 = SchemaParser.parse(bundled) as Record<string, any>;
+    expect(['DE', 'FR']).toContain(order1.shipTo.country);
+    expect(order1.total.amount).toBeGreaterThanOrEqual(0);
+    expect(order1.currency).toBe('EUR');
+  });
+
+  it('reports $ref-only cycles across files', () => {
+    const registry = SchemaRegistry.fromDirectory(dir);
+    expect(() => registry.bundle({ $ref: './loop-a.json' })).toThrow(/Circular \$ref chain detected/);
+  });
+
+  it('names the missing file, pointer or anchor', () => {
+    const registry = SchemaRegistry.fromDirectory(dir);
+    expect(() => registry.bundle({ $ref: './nope.json' })).toThrow(SchemaRefError);
+    expect(() => registry.bundle({ $ref: './common/address.json#/$defs/Nope' })).toThrow(/path not found "Nope"/);
+    expect(() => registry.bundle({ $ref: 'https://example.com/schemas/money#Nope' })).toThrow(/no \$anchor "Nope"/);
+  });
+
+  it('refuses files outside the schema directory', () => {
+    expect(() => SchemaRegistry.fromDirectory(join(dir, 'common')).bundle({ $ref: '../money.json' })).toThrow(/outside the schema directory/);
+  });
+
+  it('serves schemas with file references through generateFromSchema and schemaDir', () => {
+    const server = ServerGenerator.generateFromSchema({
+      title: 'Customer',
+      type: 'object',
+      properties: { address: { $ref: './common/address.json#/$defs/Address' } }
+    }, { port: 0, schemaDir: dir });
+
+    const routes = server.getConfig().routes;
+    expect(routes['get:/api/customers']).toBeDefined();
+    expect(routes['get:/api/customers'].schema?.$defs?.Address).toBeDefined();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from '@jest/globals';
+import request from 'supertest';
+import { collectResources, generateNestedRoutes } from '../src/generators/schema-routes';
+import { ServerGenerator } from '../src/generators/server';
+import { Schema } from '../src/types';
+
+const commentSchema: Schema = {
+  title: 'Comment',
+  type: 'object',
+  required: ['text', 'postId'],
+  properties: {
+    id: { type: 'string' },
+    text: { type: 'string' },
+    postId: { type: 'integer' },
+    userId: { type: 'string' }
+  }
+};
+
+const definitions: Record<string, Schema> = {
+  User: { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' } } },
+  Post: { type: 'object', properties: { id: { type: 'string' }, authorId: { type: 'string' } } }
+};
+
+const createHandler = () => () => null;
+
+describe('generateNestedRoutes', () => {
+  it('adds GET and POST routes under each foreign key parent', () => {
+    const routes = generateNestedRoutes('/api/comments', commentSchema, createHandler);
+
+    expect(Object.keys(routes).sort()).toEqual([
+      'get:/api/posts/:postId/comments',
+      'get:/api/users/:userId/comments',
+      'post:/api/posts/:postId/comments',
+      'post:/api/users/:userId/comments'
+    ]);
+    expect(routes['get:/api/posts/:postId/comments']).toMatchObject({ resource: 'comments', collection: true, statusCode: 200 });
+    expect(routes['post:/api/posts/:postId/comments'].schema?.required).toEqual(['text']);
+  });
+
+  it('follows x-schemock-nested on properties and the root', () => {
+    const schema: Schema = {
+      ...commentSchema,
+      properties: {
+        ...commentSchema.properties,
+        postId: { type: 'integer', 'x-schemock-nested': { methods: ['get'] } },
+        userId: { type: 'string', 'x-schemock-nested': false },
+        editor: { type: 'string', 'x-schemock-nested': { parent: 'users', path: '/api/editors/:editorId/comments' } }
+      }
+    };
+
+    expect(Object.keys(generateNestedRoutes('/api/comments', schema, createHandler)).sort()).toEqual([
+      'get:/api/editors/:editorId/comments',
+      'get:/api/posts/:postId/comments',
+      'post:/api/editors/:editorId/comments'
+    ]);
+    expect(generateNestedRoutes('/api/comments', { ...commentSchema, 'x-schemock-nested': false }, createHandler)).toEqual({});
+  });
+});
+
+describe('nested routes', () => {
+  it('creates items with the parent ID from the path and lists only that parent\'s items', async () => {
+    const app = ServerGenerator.generateFromSchema(commentSchema, { port: 0, logLevel: 'error', strict: true }).getApp();
+
+    const created = await request(app).post('/api/posts/7/comments').send({ text: 'Nice post', postId: 2 }).expect(201);
+    expect(created.body.data).toMatchObject({ text: 'Nice post', postId: 7 });
+    await request(app).post('/api/posts/8/comments').send({ text: 'Other post' }).expect(201);
+
+    const listed = await request(app).get('/api/posts/7/comments').expect(200);
+    expect(listed.body.data).toEqual([expect.objectContaining({ id: created.body.data.id, postId: 7 })]);
+
+    const flat = await request(app).get(`/api/comments/${created.body.data.id}`).expect(200);
+    expect(flat.body.data.text).toBe('Nice post');
+  });
+
+  it('applies collection queries to the parent\'s items', async () => {
+    const app = ServerGenerator.generateFromSchema(commentSchema, { port: 0, logLevel: 'error' }).getApp();
+    for (const text of ['b', 'a', 'c']) {
+      await request(app).post('/api/posts/9/comments').send({ text }).expect(201);
+    }
+
+    const page = await request(app).get('/api/posts/9/comments?sort=text&limit=2&fields=text').expect(200);
+    expect(page.body.data).toEqual([{ text: 'a' }, { text: 'b' }]);
+    expect(page.body.meta).toMatchObject({ total: 3 });
+  });
+});
+
+describe('collectResources', () => {
+  it('splits a root with only $defs into one resource per object', () => {
+    expect(collectResources({ $defs: definitions })?.map(({ name }) => name)).toEqual(['users', 'posts']);
+  });
+
+  it('reads x-schemock-resources and resolves its $refs', () => {
+    const resources = collectResources({ $defs: definitions, 'x-schemock-resources': { authors: { $ref: '#/$defs/User' } } });
+
+    expect(resources?.map(({ name }) => name)).toEqual(['authors']);
+    expect(resources?.[0].schema.properties).toHaveProperty('name');
+  });
+
+  it('keeps roots that describe a value as a single resource', () => {
+    expect(collectResources({ $ref: '#/$defs/Post', $defs: definitions })).toBeUndefined();
+    expect(collectResources({ allOf: [{ $ref: '#/$defs/Post' }], $defs: definitions })).toBeUndefined();
+    expect(collectResources({ oneOf: [{ $ref: '#/$defs/Post' }, { $ref: '#/$defs/User' }], $defs: definitions })).toBeUndefined();
+    expect(collectResources({ type: 'object', $defs: definitions })).toBeUndefined();
+  });
+});
+
+describe('resource routes', () => {
+  it('serves a $ref root with helper $defs as one resource', async () => {
+    const orderSchema: Schema = {
+      title: 'Order',
+      $ref: '#/$defs/Order',
+      $defs: {
+        Order: {
+          type: 'object',
+          required: ['lines'],
+          properties: { id: { type: 'string' }, lines: { type: 'array', items: { $ref: '#/$defs/Line' } } }
+        },
+        Line: { type: 'object', required: ['sku'], properties: { sku: { type: 'string' } } }
+      }
+    };
+    const app = ServerGenerator.generateFromSchema(orderSchema, { port: 0, logLevel: 'error' }).getApp();
+
+    const created = await request(app).post('/api/orders').send({ lines: [{ sku: 'A-1' }] }).expect(201);
+    expect(created.body.data.lines).toEqual([{ sku: 'A-1' }]);
+    await request(app).get('/api/lines').expect(404);
+  });
+
+  it('serves every resource of a $defs document from one server', async () => {
+    const app = ServerGenerator.generateFromSchema({ $defs: definitions }, { port: 0, logLevel: 'error' }).getApp();
+
+    const user = await request(app).post('/api/users').send({ name: 'Ann' }).expect(201);
+    await request(app).post('/api/posts').send({ authorId: user.body.data.id }).expect(201);
+
+    const posts = await request(app).get(`/api/users/${user.body.data.id}/posts`).expect(200);
+    expect(posts.body.data).toHaveLength(1);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { findDatePairAnchor, parseDateValue, setReferenceDate } from '../src/utils/temporal';
+import { initRandomGenerator, resetRandomGenerator } from '../src/utils/random';
+import { SchemaParser } from '../src/parsers/schema';
+import { ValidationError } from '../src/errors';
+import { Schema } from '../src/types';
+
+const REFERENCE = '2024-06-01T12:00:00Z';
+const DAY = 24 * 60 * 60 * 1000;
+const YEAR = 365 * DAY;
+
+describe('temporal helpers', () => {
+  afterEach(() => {
+    setReferenceDate();
+  });
+
+  it('parses relative bounds against the reference date', () => {
+    setReferenceDate(REFERENCE);
+
+    expect(parseDateValue('now', 'date-time')).toBe(Date.parse(REFERENCE));
+    expect(parseDateValue('now-90d', 'date-time')).toBe(Date.parse(REFERENCE) - 90 * DAY);
+    expect(parseDateValue('now+2w', 'date-time')).toBe(Date.parse(REFERENCE) + 14 * DAY);
+    expect(parseDateValue('2024-01-01', 'date')).toBe(Date.parse('2024-01-01'));
+    expect(parseDateValue('soon', 'date')).toBeUndefined();
+  });
+
+  it('pairs date fields word by word', () => {
+    expect(findDatePairAnchor('updatedAt', ['id', 'createdAt'])).toBe('createdAt');
+    expect(findDatePairAnchor('updated_at', ['created_at'])).toBe('created_at');
+    expect(findDatePairAnchor('endDate', ['startDate'])).toBe('startDate');
+    expect(findDatePairAnchor('updatedAt', ['name'])).toBeUndefined();
+  });
+
+  it('rejects an invalid reference date', () => {
+    expect(() => setReferenceDate('not a date')).toThrow(ValidationError);
+  });
+});
+
+describe('SchemaParser dates', () => {
+  afterEach(() => {
+    setReferenceDate();
+    resetRandomGenerator();
+  });
+
+  const generate = (schema: Schema): Record<string, string> => SchemaParser.parse(schema) as Record<string, string>;
+
+  it('orders known date pairs', () => {
+    setReferenceDate(REFERENCE);
+    const schema: Schema = {
+      type: 'object',
+      required: ['createdAt', 'updatedAt', 'startDate', 'endDate'],
+      properties: {
+        updatedAt: { type: 'string', format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' },
+        startDate: { type: 'string', format: 'date' },
+        endDate: { type: 'string', format: 'date' }
+      }
+    };
+
+    for (let i = 0; i < 100; i++) {
+      const record = generate(schema);
+      expect(Date.parse(record.createdAt)).toBeLessThanOrEqual(Date.parse(record.updatedAt));
+      expect(Date.parse(record.updatedAt)).toBeLessThanOrEqual(Date.parse(REFERENCE));
+      expect(record.startDate <= record.endDate).toBe(true);
+    }
+  });
+
+  it('orders any two dates with x-schemock-after and x-schemock-before', () => {
+    setReferenceDate(REFERENCE);
+    const schema: Schema = {
+      type: 'object',
+      required: ['shippedOn', 'orderedOn', 'paidOn'],
+      properties: {
+        orderedOn: { type: 'string', format: 'date-time' },
+        shippedOn: { type: 'string', format: 'date-time', 'x-schemock-after': 'orderedOn' },
+        paidOn: { type: 'string', format: 'date-time', 'x-schemock-before': 'orderedOn' }
+      }
+    };
+
+    for (let i = 0; i < 100; i++) {
+      const record = generate(schema);
+      expect(Date.parse(record.orderedOn)).toBeLessThanOrEqual(Date.parse(record.shippedOn));
+      expect(Date.parse(record.paidOn)).toBeLessThanOrEqual(Date.parse(record.orderedOn));
+    }
+  });
+
+  it('keeps dates inside formatMinimum and formatMaximum windows', () => {
+    setReferenceDate(REFERENCE);
+    const lastQuarter: Schema = { type: 'string', format: 'date-time', formatMinimum: 'now-90d', formatMaximum: 'now' };
+    const fixed: Schema = { type: 'string', format: 'date', formatMinimum: '2020-03-01', formatMaximum: '2020-03-31' };
+
+    for (let i = 0; i < 100; i++) {
+      const time = Date.parse(SchemaParser.parse(lastQuarter) as string);
+      expect(time).toBeGreaterThanOrEqual(Date.parse(REFERENCE) - 90 * DAY);
+      expect(time).toBeLessThanOrEqual(Date.parse(REFERENCE));
+      expect(SchemaParser.parse(fixed)).toMatch(/^2020-03-(0[1-9]|[12]\d|3[01])$/);
+    }
+  });
+
+  it('puts birthdays decades ago and due dates ahead', () => {
+    setReferenceDate(REFERENCE);
+    const schema: Schema = {
+      type: 'object',
+      required: ['birthDate', 'dueDate'],
+      properties: {
+        birthDate: { type: 'string', format: 'date' },
+        dueDate: { type: 'string', format: 'date-time' }
+      }
+    };
+    const now = Date.parse(REFERENCE);
+
+    for (let i = 0; i < 100; i++) {
+      const record = generate(schema);
+      expect(now - Date.parse(record.birthDate)).toBeGreaterThanOrEqual(18 * YEAR - 2 * DAY);
+      expect(now - Date.parse(record.birthDate)).toBeLessThanOrEqual(81 * YEAR);
+      expect(Date.parse(record.dueDate)).toBeGreaterThanOrEqual(now);
+    }
+  });
+
+  it('generates identical dates for the same seed and reference date', () => {
+    const schema: Schema = {
+      type: 'object',
+      required: ['createdAt', 'updatedAt'],
+      properties: {
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+      }
+    };
+
+    setReferenceDate(REFERENCE);
+    initRandomGenerator(7);
+    const first = generate(schema);
+    initRandomGenerator(7);
+    const second = generate(schema);
+
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import request from 'supertest';
+import { UniqueIndex, findUniqueProperties } from '../src/generators/unique';
+import { ServerGenerator } from '../src/generators/server';
+import { ConflictError } from '../src/errors';
+import { Schema } from '../src/types';
+
+const userSchema: Schema = {
+  title: 'User',
+  type: 'object',
+  required: ['email', 'plan'],
+  properties: {
+    id: { type: 'string' },
+    email: { type: 'string', format: 'email', 'x-schemock-unique': true },
+    plan: { type: 'string', enum: ['free', 'pro'], 'x-schemock-unique': true },
+    name: { type: 'string' }
+  }
+};
+
+describe('UniqueIndex', () => {
+  it('finds unique properties through array items and $refs', () => {
+    const schema: Schema = { type: 'array', items: { $ref: '#/$defs/User' }, $defs: { User: userSchema } };
+
+    expect(findUniqueProperties(schema).map(([name]) => name)).toEqual(['email', 'plan']);
+  });
+
+  it('gives generated records distinct values, even from a small enum', () => {
+    const index = new UniqueIndex(findUniqueProperties(userSchema));
+    const records = Array.from({ length: 20 }, () => index.makeUnique({ email: 'ann@example.com', plan: 'free' }, userSchema));
+
+    expect(new Set(records.map(record => (record as Record<string, unknown>).email)).size).toBe(20);
+    expect(new Set(records.map(record => (record as Record<string, unknown>).plan)).size).toBe(20);
+  });
+
+  it('rejects a submitted record that duplicates a taken value', () => {
+    const index = new UniqueIndex(findUniqueProperties(userSchema), [{ email: 'ann@example.com', plan: 'free' }]);
+
+    expect(() => index.claim({ email: 'ann@example.com', plan: 'pro' }, 'users')).toThrow(ConflictError);
+    expect(() => index.claim({ email: 'bob@example.com', plan: 'pro' }, 'users')).not.toThrow();
+  });
+
+  it('lets several records leave a unique property empty', () => {
+    const index = new UniqueIndex(findUniqueProperties(userSchema), [{ email: null, plan: 'free' }]);
+
+    expect(index.findConflict({ email: null, plan: 'pro' })).toBeUndefined();
+    expect(index.findConflict({ plan: 'basic' })).toBeUndefined();
+  });
+});
+
+describe('x-schemock-unique routes', () => {
+  it('answers 409 Conflict when POST or PUT duplicates a unique value', async () => {
+    const app = ServerGenerator.generateFromSchema(userSchema, { port: 0, logLevel: 'error' }).getApp();
+
+    const created = await request(app).post('/api/users').send({ email: 'ann@example.com', plan: 'free' });
+    expect(created.status).toBe(201);
+
+    const duplicate = await request(app).post('/api/users').send({ email: 'ann@example.com', plan: 'pro' });
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body).toMatchObject({ success: false, error: 'ConflictError', details: { field: 'email', value: 'ann@example.com' } });
+
+    const other = await request(app).post('/api/users').send({ email: 'bob@example.com', plan: 'pro' });
+    const id = other.body.data.id;
+    const conflicting = await request(app).put(`/api/users/${id}`).send({ email: 'ann@example.com', plan: 'pro' });
+    expect(conflicting.status).toBe(409);
+
+    const unchanged = await request(app).put(`/api/users/${id}`).send({ email: 'bob@example.com', plan: 'pro' });
+    expect(unchanged.status).toBe(200);
+  });
+});
@@ -12,7 +12,11 @@ module.exports = {
   ],
   testTimeout: 10000,
   moduleNameMapper: {
-    '^chokidar$': '<rootDir>/__mocks__/chokidar.ts'
+    '^chokidar$': '<rootDir>/__mocks__/chokidar.ts',
+    '^chalk$': '<rootDir>/__mocks__/chalk.ts',
+    '^uuid$': '<rootDir>/__mocks__/uuid.ts',
+    // Relative imports written with a .js extension resolve to the .ts source
+    '^(\\.{1,2}/.*)\\.js$': '$1'
   },
   // Detect open handles to identify what's preventing Jest from exiting
   detectOpenHandles: true,
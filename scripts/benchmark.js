@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+/**
+ * Schema Generation Benchmark
+ * Measures SchemaParser throughput for large schemas
+ *
+ * Usage: npm run build && npm run bench [-- --iterations 2000]
+ */
+
+const path = require('path');
+
+const distPath = path.join(__dirname, '..', 'dist', 'parsers', 'schema.js');
+let SchemaParser;
+try {
+  ({ SchemaParser } = require(distPath));
+} catch (error) {
+  console.error(`❌ Cannot load ${distPath}. Run "npm run build" first.`);
+  process.exit(1);
+}
+
+const iterationsArg = process.argv.indexOf('--iterations');
+const iterations = iterationsArg !== -1 ? parseInt(process.argv[iterationsArg + 1], 10) : 1000;
+
+/**
+ * Builds a wide object schema with many typed properties
+ */
+function wideSchema(propertyCount) {
+  const kinds = [
+    { type: 'string' },
+    { type: 'string', format: 'email' },
+    { type: 'string', format: 'date-time' },
+    { type: 'string', format: 'uuid' },
+    { type: 'integer', minimum: 0, maximum: 1000 },
+    { type: 'number', minimum: 0, maximum: 100 },
+    { type: 'boolean' },
+    { type: ['string', 'null'] },
+    { type: 'string', enum: ['draft', 'published', 'archived'] }
+  ];
+  const properties = {};
+  for (let i = 0; i < propertyCount; i++) {
+    properties[`field${i}`] = kinds[i % kinds.length];
+  }
+  return { type: 'object', properties, required: Object.keys(properties).slice(0, propertyCount / 2) };
+}
+
+/**
+ * Builds an order schema with $refs, composition, conditionals and nested arrays
+ */
+function nestedSchema() {
+  return {
+    type: 'object',
+    required: ['id', 'customer', 'lines'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      customer: { $ref: '#/$defs/customer' },
+      lines: { type: 'array', minItems: 5, maxItems: 20, items: { $ref: '#/$defs/line' } },
+      payment: {
+        oneOf: [
+          { type: 'object', properties: { card: { type: 'string', pattern: '^4[0-9]{15}$' } } },
+          { type: 'object', properties: { iban: { type: 'string', pattern: '^DE[0-9]{20}$' } } }
+        ]
+      },
+      shipping: {
+        type: 'object',
+        properties: { express: { type: 'boolean' }, carrier: { type: 'string' } },
+        if: { properties: { express: { const: true } } },
+        then: { required: ['carrier'] }
+      }
+    },
+    $defs: {
+      customer: {
+        type: 'object',
+        required: ['name', 'email'],
+        properties: {
+          name: { type: 'string' },
+          email: { type: 'string', format: 'email' },
+          phone: { type: 'string' },
+          address: { $ref: '#/$defs/address' }
+        }
+      },
+      address: {
+        type: 'object',
+        properties: {
+          street: { type: 'string' },
+          city: { type: 'string' },
+          postalCode: { type: 'string' },
+          country: { type: 'string' }
+        }
+      },
+      line: {
+        type: 'object',
+        required: ['sku', 'quantity', 'price'],
+        allOf: [
+          { properties: { sku: { type: 'string', pattern: '^[A-Z]{3}-[0-9]{4}$' }, quantity: { type: 'integer', minimum: 1, maximum: 10 } } },
+          { properties: { price: { type: 'number', minimum: 1, maximum: 500 }, tags: { type: 'array', items: { type: 'string' } } } }
+        ]
+      }
+    }
+  };
+}
+
+/**
+ * Builds a recursive comment tree schema
+ */
+function recursiveSchema() {
+  return {
+    type: 'object',
+    required: ['id', 'text'],
+    properties: {
+      id: { type: 'integer' },
+      text: { type: 'string' },
+      author: { type: 'string' },
+      replies: { type: 'array', items: { $ref: '#' } }
+    }
+  };
+}
+
+function run(name, schema) {
+  SchemaParser.clearCache();
+  SchemaParser.initRandomGenerator(42);
+
+  // The first call compiles the plans
+  const compileStart = process.hrtime.bigint();
+  SchemaParser.parse(schema);
+  const compileMs = Number(process.hrtime.bigint() - compileStart) / 1e6;
+
+  let bytes = 0;
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) {
+    bytes += JSON.stringify(SchemaParser.parse(schema)).length;
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+  const { compiled } = SchemaParser.getCacheStats();
+
+  return {
+    schema: name,
+    'first call (ms)': compileMs.toFixed(2),
+    'records/s': Math.round(iterations / (elapsedMs / 1000)),
+    'avg (ms)': (elapsedMs / iterations).toFixed(3),
+    'avg size (KB)': (bytes / iterations / 1024).toFixed(1),
+    plans: compiled
+  };
+}
+
+// Keep console output readable when recursive schemas reach the depth budget
+const warn = console.warn;
+console.warn = () => {};
+
+console.log('⏱️  Schemock Generation Benchmark');
+console.log(`🔁 Iterations per schema: ${iterations}\n`);
+
+const results = [
+  run('wide object (50 props)', wideSchema(50)),
+  run('wide object (500 props)', wideSchema(500)),
+  run('nested order ($ref, oneOf, allOf, if)', nestedSchema()),
+  run('recursive comment tree', recursiveSchema())
+];
+
+console.warn = warn;
+console.table(results);
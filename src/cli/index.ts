@@ -1,10 +1,13 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { resolve, join } from 'path';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, createWriteStream } from 'fs';
+import { Writable } from 'stream';
+import { once } from 'events';
+import { resolve, join, dirname } from 'path';
+import { pathToFileURL } from 'url';
 import chalk from 'chalk';
 import { createMockServer } from '..';
-import { Schema } from '../types';
+import { Schema, ServerOptions } from '../types';
 import { formatError, FileError, ValidationError, ConfigurationError } from '../errors';
 import {
   validatePort,
@@ -18,9 +21,76 @@ import { SchemaWatcher } from '../utils/watcher';
 import { startInstallerServer } from '../installer/server';
 import { log, setLogLevel } from '../utils/logger';
 import { generateCRUDDSL } from '../generators/routes';
+import { SchemaRegistry, hasExternalRefs } from '../parsers/schema-registry';
+import { findProjectConfig, loadProjectConfig, applyProjectConfig } from '../utils/project-config';
+import { SchemaParser } from '../parsers/schema';
+import { WorldState } from '../generators/world-state';
+import { writeDataset, orderResources, DATASET_FORMATS, DatasetFormat, DatasetResource } from '../generators/dataset';
+import { DEFAULT_DATASET_COUNT, MAX_REFERENCE_POOL_SIZE, SEEDED_REFERENCE_DATE } from '../utils/constants';
 
 const program = new Command();
 
+/**
+ * Bundles external $refs of a schema loaded from a file
+ *
+ * References are resolved relative to the schema file and restricted to the
+ * schema root directory (defaults to the schema file's own directory).
+ *
+ * @param schema - The parsed schema
+ * @param absolutePath - Absolute path of the schema file
+ * @param schemaDir - Optional schema root directory
+ * @returns The schema with every reference made local
+ */
+function bundleSchemaFile(schema: Schema, absolutePath: string, schemaDir?: string): Schema {
+  if (!schemaDir && !hasExternalRefs(schema)) {
+    return schema;
+  }
+  const registry = SchemaRegistry.fromDirectory(schemaDir || dirname(absolutePath));
+  return registry.bundle(schema, pathToFileURL(absolutePath).href);
+}
+
+/**
+ * Reads, bundles and validates a schema file
+ *
+ * @param schemaPath - Path to the schema file
+ * @param schemaDir - Optional schema root directory for external $refs
+ * @param strict - Whether to enforce strict schema validation
+ * @returns The bundled schema
+ * @throws {FileError} When the file is missing or is not valid JSON
+ */
+function loadSchemaFile(schemaPath: string, schemaDir: string | undefined, strict: boolean): Schema {
+  const absolutePath = validateFilePath(schemaPath);
+  validateFileExists(absolutePath);
+
+  try {
+    const schema = bundleSchemaFile(JSON.parse(readFileSync(absolutePath, 'utf-8')), absolutePath, schemaDir);
+    validateSchema(schema, strict);
+    return schema;
+  } catch (error: unknown) {
+    if (error instanceof SyntaxError) {
+      throw new FileError(
+        `Invalid JSON in schema file: ${error.message}`,
+        schemaPath,
+        'parse'
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Derives a plural resource name from a schema file name
+ *
+ * @param schemaPath - Path to the schema file, e.g. "schemas/user.schema.json"
+ * @returns The resource name, e.g. "users"
+ */
+function resourceNameFromPath(schemaPath: string): string {
+  const filename = schemaPath.split(/[/\\]/).pop() || '';
+  const resourceName = filename.replace('.schema.json', '').replace('.json', '').toLowerCase();
+  // Simple pluralization
+  return resourceName.endsWith('s') ? resourceName : `${resourceName}s`;
+}
+
 program
   .name('schemock')
   .description('A lightweight mock server generator from JSON schemas')
@@ -37,6 +107,12 @@ program
   .option('--scenario <preset>', 'Preset scenario (happy-path, slow, error-heavy, sad-path)', 'happy-path')
   .option('--strict', 'Enforce strict schema validation', false)
   .option('--resource <name>', 'Resource name for default schema (when no schema file is provided)')
+  .option('--schema-dir <dir>', 'Schema root directory for resolving external $refs (defaults to the schema file directory)')
+  .option('--null-probability <number>', 'Probability (0-1) of generating null for nullable fields (default: 0.1)')
+  .option('--prefer-examples [probability]', 'Use schema examples/default values where present, always or with the given probability (0-1)')
+  .option('--config <file>', 'Project config file with custom formats and heuristics (defaults to ./schemock.config.js if present)')
+  .option('--locale <locale>', 'Locale for generated names, addresses and phone numbers (en-US, de-DE, fr-FR, ja-JP, pt-BR)')
+  .option('--validate-responses [mode]', 'Check response bodies against the schema and log, annotate (header) or fail with 500 on drift (log, header, fail)')
   .action(async (schemaPath, options) => {
     try {
       // Set log level first
@@ -49,8 +125,20 @@ program
         process.exit(1);
       }
 
+      const validateResponses = options.validateResponses === true ? 'log' : options.validateResponses;
+      if (validateResponses && !['log', 'header', 'fail'].includes(validateResponses)) {
+        console.error(chalk.red(`❌ Invalid response validation mode: ${validateResponses}. Use log, header, or fail.`));
+        process.exit(1);
+      }
+
       const strict = options.strict || false;
       const resourceOption = options.resource;
+      const nullProbability = options.nullProbability !== undefined
+        ? Number(options.nullProbability)
+        : undefined;
+      const exampleProbability = options.preferExamples === undefined
+        ? undefined
+        : options.preferExamples === true ? 1 : Number(options.preferExamples);
 
       let schema: Schema = {
         type: 'object',
@@ -67,30 +155,29 @@ program
         schema.title = resourceOption;
       }
 
+      // Register custom formats and property heuristics from the project config
+      const configPath = options.config
+        ? validateFilePath(options.config)
+        : findProjectConfig();
+      if (configPath) {
+        applyProjectConfig(loadProjectConfig(configPath));
+        log.info('Project config loaded', { module: 'cli', configPath });
+      }
+
+      let schemaDir: string | undefined;
+      if (options.schemaDir) {
+        schemaDir = validateFilePath(options.schemaDir);
+        validateFileExists(schemaDir);
+      }
+
       // Validate and load schema from file if provided
       if (schemaPath) {
-        try {
-          const absolutePath = validateFilePath(schemaPath);
-          validateFileExists(absolutePath);
-
-          const fileContent = readFileSync(absolutePath, 'utf-8');
-          schema = JSON.parse(fileContent);
-          validateSchema(schema, strict);
+        schema = loadSchemaFile(schemaPath, schemaDir, strict);
 
-          log.info('Schema loaded successfully', {
-            module: 'cli',
-            schemaPath: absolutePath
-          });
-        } catch (error: unknown) {
-          if (error instanceof SyntaxError) {
-            throw new FileError(
-              `Invalid JSON in schema file: ${error.message}`,
-              schemaPath,
-              'parse'
-            );
-          }
-          throw error;
-        }
+        log.info('Schema loaded successfully', {
+          module: 'cli',
+          schemaPath: validateFilePath(schemaPath)
+        });
       } else {
         log.info('Using default schema', { module: 'cli' });
       }
@@ -101,15 +188,7 @@ program
       const watchMode = options.watch || false;
 
       // Derive resource name from filename if not provided
-      let resourceName = undefined;
-      if (schemaPath) {
-        const filename = schemaPath.split(/[/\\]/).pop() || '';
-        resourceName = filename.replace('.schema.json', '').replace('.json', '').toLowerCase();
-        // Simple pluralization
-        if (!resourceName.endsWith('s')) {
-          resourceName += 's';
-        }
-      }
+      const resourceName = schemaPath ? resourceNameFromPath(schemaPath) : undefined;
 
       log.info('Starting mock server', {
         module: 'cli',
@@ -120,14 +199,22 @@ program
         resourceName
       });
 
-      const server = createMockServer(schema, {
+      // Reloads in watch mode reuse these options
+      const serverOptions: ServerOptions = {
         port,
         cors: options.cors,
         logLevel,
         scenario,
         strict,
-        resourceName
-      });
+        resourceName,
+        nullProbability,
+        locale: options.locale,
+        exampleProbability,
+        validateResponses,
+        // A schema file has already been bundled; otherwise let the server resolve refs
+        schemaDir: schemaPath ? undefined : schemaDir
+      };
+      const server = createMockServer(schema, serverOptions);
 
       await server.start();
 
@@ -148,16 +235,11 @@ program
 
             // Read and validate new schema
             const newContent = readFileSync(changedPath, 'utf-8');
-            const newSchema = JSON.parse(newContent);
+            const newSchema = bundleSchemaFile(JSON.parse(newContent), changedPath, schemaDir);
             validateSchema(newSchema);
 
             // Create new server config
-            const newServerConfig = createMockServer(newSchema, {
-              port,
-              cors: options.cors,
-              logLevel,
-              scenario
-            }).getConfig();
+            const newServerConfig = createMockServer(newSchema, serverOptions).getConfig();
 
             // Restart server with new configuration
             await server.restart(newServerConfig);
@@ -263,6 +345,131 @@ program
     }
   });
 
+// Generate dataset command
+program
+  .command('generate <schemaPaths...>')
+  .description('Stream a bulk dataset generated from one or more schemas (foreign keys resolve across schemas)')
+  .option('-n, --count <number>', 'Records to generate per schema', String(DEFAULT_DATASET_COUNT))
+  .option('-f, --format <format>', `Output format (${DATASET_FORMATS.join(', ')})`, 'ndjson')
+  .option('-o, --output <path>', 'Output file, or a directory with one file per schema when several are given (defaults to stdout)')
+  .option('--seed <number>', 'Seed for reproducible output')
+  .option('--reference-date <date>', `Date that generated dates count back from (defaults to now, or ${SEEDED_REFERENCE_DATE} with --seed)`)
+  .option('--strict', 'Enforce strict schema validation', false)
+  .option('--schema-dir <dir>', 'Schema root directory for resolving external $refs (defaults to each schema file directory)')
+  .option('--null-probability <number>', 'Probability (0-1) of generating null for nullable fields (default: 0.1)')
+  .option('--config <file>', 'Project config file with custom formats and heuristics (defaults to ./schemock.config.js if present)')
+  .option('--locale <locale>', 'Locale for generated names, addresses and phone numbers (en-US, de-DE, fr-FR, ja-JP, pt-BR)')
+  .action(async (schemaPaths: string[], options) => {
+    try {
+      // Info logs go to stdout, which may carry the dataset
+      setLogLevel('warn');
+
+      const format = options.format as DatasetFormat;
+      if (!DATASET_FORMATS.includes(format)) {
+        throw new ValidationError(`Invalid format: ${options.format}`, 'format', options.format,
+          `Use one of: ${DATASET_FORMATS.join(', ')}.`);
+      }
+      const count = Number(options.count);
+      if (!Number.isInteger(count) || count < 0) {
+        throw new ValidationError(`Invalid count: ${options.count}`, 'count', options.count,
+          'Use a non-negative whole number, e.g. --count 100000.');
+      }
+      if (options.seed !== undefined) {
+        const seed = Number(options.seed);
+        if (!Number.isInteger(seed)) {
+          throw new ValidationError(`Invalid seed: ${options.seed}`, 'seed', options.seed, 'Use a whole number, e.g. --seed 42.');
+        }
+        SchemaParser.initRandomGenerator(seed);
+      }
+      if (options.referenceDate !== undefined) {
+        SchemaParser.setReferenceDate(options.referenceDate);
+      } else if (options.seed !== undefined) {
+        SchemaParser.setReferenceDate(SEEDED_REFERENCE_DATE);
+      }
+      if (options.nullProbability !== undefined) {
+        SchemaParser.setNullProbability(Number(options.nullProbability));
+      }
+      if (options.locale) {
+        SchemaParser.setLocale(options.locale);
+      }
+
+      const configPath = options.config
+        ? validateFilePath(options.config)
+        : findProjectConfig();
+      if (configPath) {
+        applyProjectConfig(loadProjectConfig(configPath));
+      }
+
+      let schemaDir: string | undefined;
+      if (options.schemaDir) {
+        schemaDir = validateFilePath(options.schemaDir);
+        validateFileExists(schemaDir);
+      }
+
+      const resources: DatasetResource[] = schemaPaths.map(schemaPath => ({
+        name: resourceNameFromPath(schemaPath),
+        schema: loadSchemaFile(schemaPath, schemaDir, options.strict),
+        count
+      }));
+
+      const datasetOptions = { format, strict: options.strict };
+      let written: Record<string, number> = {};
+
+      if (!options.output) {
+        // Piping into e.g. `head` closes stdout early; that's not an error
+        process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+          if (error.code === 'EPIPE') {
+            process.exit(0);
+          }
+        });
+        written = await writeDataset(resources, process.stdout, datasetOptions);
+      } else if (resources.length === 1) {
+        const stream = openOutputFile(validateFilePath(options.output));
+        written = await writeDataset(resources, stream, datasetOptions);
+        await closeOutputFile(stream);
+      } else {
+        // One file per resource, sharing the world so foreign keys resolve across files
+        const outputDir = validateFilePath(options.output);
+        mkdirSync(outputDir, { recursive: true });
+        const world = new WorldState({ maxPoolSize: MAX_REFERENCE_POOL_SIZE });
+        for (const resource of orderResources(resources)) {
+          const stream = openOutputFile(join(outputDir, `${resource.name}.${format}`));
+          Object.assign(written, await writeDataset([resource], stream, { ...datasetOptions, world }));
+          await closeOutputFile(stream);
+        }
+      }
+
+      const summary = Object.entries(written).map(([name, records]) => `${records} ${name}`).join(', ');
+      console.error(chalk.green(`✅ Generated ${summary}${options.output ? ` in ${options.output}` : ''}`));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? formatError(error) : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error generating dataset:'));
+      console.error(chalk.red(message));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Opens a dataset output file, creating its directory if needed
+ *
+ * @param outputPath - Absolute path of the file to write
+ * @returns A write stream for the file
+ */
+function openOutputFile(outputPath: string): Writable {
+  mkdirSync(dirname(outputPath), { recursive: true });
+  return createWriteStream(outputPath);
+}
+
+/**
+ * Ends a dataset output file and waits until it is flushed
+ *
+ * @param stream - The stream returned by openOutputFile()
+ */
+async function closeOutputFile(stream: Writable): Promise<void> {
+  stream.end();
+  await once(stream, 'finish');
+}
+
 // Generate project command
 program
   .command('init [directory]')
@@ -2,6 +2,8 @@
  * Custom error classes for Schemock
  */
 
+import type { SchemaViolation } from '../types';
+
 /**
  * Base error class for all Schemock errors
  *
@@ -123,14 +125,53 @@ export class FileError extends SchemockError {
  * @param field - The field that failed validation
  * @param value - The value that failed validation
  * @param hint - Optional hint for resolving the error
+ * @param errors - Every schema violation, when validating data against a schema
  */
 export class ValidationError extends SchemockError {
-  constructor(message: string, field: string, value?: any, hint?: string) {
-    super(message, 'E400', { field, value }, hint || `The provided value for '${field}' does not match the schema requirements.`);
+  constructor(message: string, field: string, value?: any, hint?: string, errors?: SchemaViolation[]) {
+    super(message, 'E400', { field, value, ...(errors ? { errors } : {}) }, hint || `The provided value for '${field}' does not match the schema requirements.`);
     this.name = 'ValidationError';
   }
 }
 
+/**
+ * Conflict errors (E409)
+ *
+ * Thrown when a record would duplicate the value of an `x-schemock-unique`
+ * property held by another record of the same resource.
+ *
+ * @param message - The error message
+ * @param field - The unique property
+ * @param value - The duplicated value
+ * @param hint - Optional hint for resolving the error
+ */
+export class ConflictError extends SchemockError {
+  constructor(message: string, field: string, value?: any, hint?: string) {
+    super(message, 'E409', { field, value }, hint || `Another record already has this '${field}'. Use a different value.`);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Patch errors (E422)
+ *
+ * Thrown when a JSON Patch operation can't be applied to a record, e.g.
+ * it removes a missing member or its `test` fails, or when the patched
+ * record no longer matches the schema in strict mode.
+ *
+ * @param message - The error message
+ * @param path - JSON pointer the failing operation targets
+ * @param operation - Index of the failing operation in the patch, if any
+ * @param hint - Optional hint for resolving the error
+ * @param errors - Schema violations of the patched record
+ */
+export class PatchError extends SchemockError {
+  constructor(message: string, path: string, operation?: number, hint?: string, errors?: SchemaViolation[]) {
+    super(message, 'E422', { path, operation, ...(errors ? { errors } : {}) }, hint || 'Fetch the current record and build the patch against it.');
+    this.name = 'PatchError';
+  }
+}
+
 /**
  * Formats an error message for display
  *
@@ -0,0 +1,398 @@
+/**
+ * Filtering, sorting and pagination for collection GETs
+ *
+ * Collection routes read their query string in a configurable dialect:
+ *
+ *   ?status=active&price[gte]=10     field filters, with operators
+ *   ?q=shoe                          full-text search over string fields
+ *   ?sort=-createdAt,name            sort keys; "-" or ":desc" sorts descending
+ *   ?page=2&limit=10                 page-based pagination
+ *   ?offset=20&limit=10              offset-based pagination
+ *   ?cursor=eyJvIjoyMH0&limit=10     cursor pagination with opaque cursors
+ *
+ * Only declared properties of the resource are filtered on; other parameters,
+ * such as a `_=123` cache-buster, are ignored. `fields` and `include` are
+ * left to the response shaping in embedding.ts.
+ * Parameter names, the operator syntax and page sizes come from the
+ * QueryDialect, set per server or in the project config.
+ */
+
+import { JSONValue, QueryDialect } from '../types';
+import { DEFAULT_INCLUDE_DEPTH, DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../utils/constants';
+import type { ConfigValidationError } from '../utils/config';
+
+/** Dialect used unless the server or project config overrides it */
+export const DEFAULT_QUERY_DIALECT: QueryDialect = {
+  page: 'page',
+  limit: 'limit',
+  offset: 'offset',
+  cursor: 'cursor',
+  sort: 'sort',
+  search: 'q',
+  fields: 'fields',
+  include: 'include',
+  operators: 'brackets',
+  maxLimit: MAX_PAGE_LIMIT,
+  includeDepth: DEFAULT_INCLUDE_DEPTH
+};
+
+/** Filter operators; `eq` is implied by a bare `field=value` */
+export const FILTER_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'contains'] as const;
+
+type FilterOperator = typeof FILTER_OPERATORS[number];
+
+interface Filter {
+  path: string[];
+  operator: FilterOperator;
+  values: string[];
+}
+
+/** A page of a collection, with meta for the body and links for the Link header */
+export interface CollectionPage {
+  items: JSONValue[];
+  meta: Record<string, JSONValue>;
+  /** Relative URLs by link relation: first, prev, next and last */
+  links: Record<string, string>;
+}
+
+let projectDialect: Partial<QueryDialect> = {};
+
+/**
+ * Sets the dialect for every server, e.g. from schemock.config.js
+ *
+ * @param dialect - Overrides of the default dialect
+ */
+export function setDefaultQueryDialect(dialect: Partial<QueryDialect> = {}): void {
+  projectDialect = dialect;
+}
+
+/**
+ * Merges dialect overrides over the project and default dialects
+ *
+ * @param overrides - A server's overrides, if any
+ */
+export function resolveQueryDialect(overrides?: Partial<QueryDialect>): QueryDialect {
+  return { ...DEFAULT_QUERY_DIALECT, ...projectDialect, ...overrides };
+}
+
+/**
+ * Checks the shape of query dialect overrides
+ *
+ * @param dialect - The overrides, as configured
+ * @param field - Where they were configured, e.g. "server.queryDialect"
+ * @returns The problems found, empty when the overrides are valid
+ */
+export function validateQueryDialect(dialect: unknown, field: string): ConfigValidationError[] {
+  if (typeof dialect !== 'object' || dialect === null || Array.isArray(dialect)) {
+    return [{ field, message: 'queryDialect must be an object', value: dialect }];
+  }
+  const errors: ConfigValidationError[] = [];
+  const overrides = dialect as Record<string, unknown>;
+  for (const name of ['page', 'limit', 'offset', 'cursor', 'sort', 'search', 'fields', 'include'] as const) {
+    const value = overrides[name];
+    if (value !== undefined && (typeof value !== 'string' || value === '')) {
+      errors.push({ field: `${field}.${name}`, message: `${name} must be a parameter name`, value });
+    }
+  }
+  if (overrides.operators !== undefined && overrides.operators !== 'brackets' && overrides.operators !== 'suffix') {
+    errors.push({ field: `${field}.operators`, message: 'operators must be one of: brackets, suffix', value: overrides.operators });
+  }
+  for (const name of ['defaultLimit', 'maxLimit', 'includeDepth'] as const) {
+    const value = overrides[name];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+      errors.push({ field: `${field}.${name}`, message: `${name} must be a positive integer`, value });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Filters, searches, sorts and paginates a collection
+ *
+ * Without pagination parameters (and without a `defaultLimit`), every
+ * matching item is returned and `meta` only holds the total.
+ *
+ * @param items - The stored items
+ * @param query - The request's query parameters
+ * @param path - The request path, for pagination links
+ * @param dialect - The query dialect
+ * @param properties - Names of the item properties that can be filtered on
+ * @returns The page of matching items
+ */
+export function queryCollection(
+  items: JSONValue[],
+  query: Record<string, unknown>,
+  path: string,
+  dialect: QueryDialect,
+  properties: ReadonlySet<string>
+): CollectionPage {
+  const filters = parseFilters(query, dialect, properties);
+  const terms = String(first(query[dialect.search]) ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  let matches = items.filter(item =>
+    filters.every(filter => matchesFilter(item, filter)) &&
+    terms.every(term => containsText(item, term))
+  );
+
+  const sortKeys = parseSort(first(query[dialect.sort]));
+  if (sortKeys.length > 0) {
+    matches = [...matches].sort((a, b) => {
+      for (const { path: keyPath, descending } of sortKeys) {
+        const order = compareValues(getPath(a, keyPath), getPath(b, keyPath));
+        if (order !== 0) {
+          return descending ? -order : order;
+        }
+      }
+      return 0;
+    });
+  }
+
+  return paginate(matches, query, path, dialect);
+}
+
+/**
+ * Encodes an opaque pagination cursor
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+}
+
+/**
+ * Decodes a pagination cursor, or returns undefined if it isn't one of ours
+ */
+export function decodeCursor(cursor: string): number | undefined {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return Number.isInteger(o) && o >= 0 ? o : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Formats links as an RFC 8288 Link header value
+ *
+ * @param links - URLs by link relation
+ * @returns Text such as `</api/users?page=2>; rel="next"`, or undefined when there are no links
+ */
+export function formatLinkHeader(links: Record<string, string>): string | undefined {
+  const entries = Object.entries(links);
+  return entries.length > 0 ? entries.map(([rel, url]) => `<${url}>; rel="${rel}"`).join(', ') : undefined;
+}
+
+function paginate(matches: JSONValue[], query: Record<string, unknown>, path: string, dialect: QueryDialect): CollectionPage {
+  const total = matches.length;
+  const cursorParam = first(query[dialect.cursor]);
+  const offsetParam = first(query[dialect.offset]);
+  const pageParam = first(query[dialect.page]);
+  const requestedLimit = parseCount(first(query[dialect.limit]));
+
+  const mode = cursorParam !== undefined ? 'cursor'
+    : offsetParam !== undefined ? 'offset'
+      : pageParam !== undefined || requestedLimit !== undefined || dialect.defaultLimit !== undefined ? 'page'
+        : undefined;
+  if (!mode) {
+    return { items: matches, meta: { total }, links: {} };
+  }
+
+  const limit = Math.max(1, Math.min(dialect.maxLimit, requestedLimit ?? dialect.defaultLimit ?? DEFAULT_PAGE_LIMIT));
+  let offset: number;
+  if (mode === 'cursor') {
+    offset = decodeCursor(String(cursorParam)) ?? 0;
+  } else if (mode === 'offset') {
+    offset = parseCount(offsetParam) ?? 0;
+  } else {
+    offset = ((parseCount(pageParam) || 1) - 1) * limit;
+  }
+
+  const items = matches.slice(offset, offset + limit);
+  const hasMore = offset + limit < total;
+  const meta: Record<string, JSONValue> = { total, count: items.length, limit, offset, hasMore };
+  const links: Record<string, string> = {};
+  // Pagination parameters are replaced; filters, search and sort are kept
+  const link = (parameters: Record<string, string | number>) => buildUrl(path, query, dialect, { [dialect.limit]: limit, ...parameters });
+  const lastOffset = Math.max(0, Math.ceil(total / limit) - 1) * limit;
+
+  if (mode === 'cursor') {
+    if (hasMore) {
+      meta.nextCursor = encodeCursor(offset + limit);
+      links.next = link({ [dialect.cursor]: meta.nextCursor });
+    }
+    if (offset > 0) {
+      meta.prevCursor = encodeCursor(Math.max(0, offset - limit));
+      links.prev = link({ [dialect.cursor]: meta.prevCursor });
+    }
+    links.first = link({ [dialect.cursor]: encodeCursor(0) });
+  } else if (mode === 'offset') {
+    links.first = link({ [dialect.offset]: 0 });
+    if (offset > 0) {
+      links.prev = link({ [dialect.offset]: Math.max(0, offset - limit) });
+    }
+    if (hasMore) {
+      links.next = link({ [dialect.offset]: offset + limit });
+    }
+    links.last = link({ [dialect.offset]: lastOffset });
+  } else {
+    const page = Math.floor(offset / limit) + 1;
+    const totalPages = Math.max(1, Math.ceil(total / limit));
+    Object.assign(meta, { page, totalPages });
+    links.first = link({ [dialect.page]: 1 });
+    if (page > 1) {
+      links.prev = link({ [dialect.page]: Math.min(page - 1, totalPages) });
+    }
+    if (hasMore) {
+      links.next = link({ [dialect.page]: page + 1 });
+    }
+    links.last = link({ [dialect.page]: totalPages });
+  }
+
+  return { items, meta, links };
+}
+
+function buildUrl(path: string, query: Record<string, unknown>, dialect: QueryDialect, parameters: Record<string, string | number | JSONValue>): string {
+  const paging = [dialect.page, dialect.offset, dialect.cursor, dialect.limit];
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (!paging.includes(name)) {
+      (Array.isArray(value) ? value : [value]).forEach(item => search.append(name, String(item)));
+    }
+  }
+  for (const [name, value] of Object.entries(parameters)) {
+    search.set(name, String(value));
+  }
+  return `${path}?${search.toString()}`;
+}
+
+function parseFilters(query: Record<string, unknown>, dialect: QueryDialect, properties: ReadonlySet<string>): Filter[] {
+  const control = [dialect.page, dialect.limit, dialect.offset, dialect.cursor, dialect.sort, dialect.search, dialect.fields, dialect.include];
+  const operatorSyntax = dialect.operators === 'suffix'
+    ? new RegExp(`^(.+)_(${FILTER_OPERATORS.join('|')})$`)
+    : new RegExp(`^(.+)\\[(${FILTER_OPERATORS.join('|')})\\]$`);
+  const filters: Filter[] = [];
+
+  for (const [name, value] of Object.entries(query)) {
+    if (control.includes(name) || value === undefined) {
+      continue;
+    }
+    const values = (Array.isArray(value) ? value : [value]).map(String);
+    const match = operatorSyntax.exec(name);
+    const field = match ? match[1] : name;
+    if (!properties.has(field.split('.')[0])) {
+      continue;
+    }
+    let operator = (match ? match[2] : 'eq') as FilterOperator;
+    // Repeated parameters (?status=a&status=b) match any of the values
+    if (operator === 'eq' && values.length > 1) {
+      operator = 'in';
+    }
+    filters.push({
+      path: field.split('.'),
+      operator,
+      values: operator === 'in' || operator === 'nin' ? values.flatMap(item => item.split(',')) : values
+    });
+  }
+  return filters;
+}
+
+function matchesFilter(item: JSONValue, { path, operator, values }: Filter): boolean {
+  const value = getPath(item, path);
+  // Array fields such as tags match when any element does
+  const candidates = Array.isArray(value) ? value : [value];
+
+  switch (operator) {
+    case 'eq':
+      return values.every(expected => candidates.some(candidate => isEqual(candidate, expected)));
+    case 'ne':
+      return values.every(expected => !candidates.some(candidate => isEqual(candidate, expected)));
+    case 'in':
+      return values.some(expected => candidates.some(candidate => isEqual(candidate, expected)));
+    case 'nin':
+      return !values.some(expected => candidates.some(candidate => isEqual(candidate, expected)));
+    case 'contains':
+      return values.every(expected => candidates.some(candidate =>
+        candidate !== null && candidate !== undefined && String(candidate).toLowerCase().includes(expected.toLowerCase())));
+    default:
+      return values.every(expected => candidates.some(candidate => {
+        if (candidate === null || candidate === undefined) {
+          return false;
+        }
+        const order = compareValues(candidate, typeof candidate === 'number' && isNumeric(expected) ? Number(expected) : expected);
+        return operator === 'gt' ? order > 0 : operator === 'gte' ? order >= 0 : operator === 'lt' ? order < 0 : order <= 0;
+      }));
+  }
+}
+
+function isEqual(value: unknown, expected: string): boolean {
+  if (value === null || value === undefined) {
+    return expected === 'null';
+  }
+  if (typeof value === 'number') {
+    return isNumeric(expected) && value === Number(expected);
+  }
+  return String(value) === expected;
+}
+
+/**
+ * Orders values of mixed types: numbers numerically, other values as
+ * strings (which orders ISO dates chronologically), missing values last
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  const [textA, textB] = [String(a), String(b)];
+  return textA < textB ? -1 : textA > textB ? 1 : 0;
+}
+
+function containsText(value: unknown, term: string): boolean {
+  if (typeof value === 'string') {
+    return value.toLowerCase().includes(term);
+  }
+  if (Array.isArray(value)) {
+    return value.some(item => containsText(item, term));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.values(value).some(item => containsText(item, term));
+  }
+  return false;
+}
+
+function parseSort(sort: unknown): Array<{ path: string[]; descending: boolean }> {
+  if (typeof sort !== 'string') {
+    return [];
+  }
+  return sort.split(',').map(key => key.trim()).filter(Boolean).map(key => {
+    const [field, direction] = key.split(':');
+    const descending = field.startsWith('-') || direction?.toLowerCase() === 'desc';
+    return { path: field.replace(/^[-+]/, '').split('.'), descending };
+  });
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== 'object' || current === null || Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function first(value: unknown): unknown {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseCount(value: unknown): number | undefined {
+  const count = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(count) && count >= 0 ? count : undefined;
+}
+
+function isNumeric(value: string): boolean {
+  return value.trim() !== '' && !Number.isNaN(Number(value));
+}
@@ -0,0 +1,165 @@
+/**
+ * Response contract checks
+ *
+ * With `validateResponses` set, the response body of every route with a
+ * schema is validated against it before it is sent, so custom routes and
+ * response handlers can't silently drift from the spec. Results are
+ * collected in a ContractReport and served at /__schemock/contract-report.
+ */
+
+import {
+  ContractDrift,
+  ContractReportSummary,
+  ContractRouteReport,
+  ResponseValidationMode,
+  Schema,
+  SchemaViolation
+} from '../types';
+import { SchemaValidator } from '../utils/schema-validator';
+import { MAX_CONTRACT_DRIFT } from '../utils/constants';
+
+/** Response contract results for one route, with drift keyed by schema path and keyword */
+interface RouteContract {
+  method: string;
+  path: string;
+  checked: number;
+  failed: number;
+  lastFailedAt?: string;
+  drift: Map<string, ContractDrift>;
+}
+
+/**
+ * Validates a response body against its route schema
+ *
+ * CRUD envelopes (`{ success, data, ... }`) are unwrapped. For collection
+ * routes, whose schema describes a single item, each item of an array body
+ * is validated on its own, e.g. `/2/email` for the third item. Any other
+ * route whose schema describes a single item drifts when it sends an array,
+ * even an empty one.
+ *
+ * @param validator - Validator compiled from the route schema
+ * @param schema - The route schema
+ * @param body - The response body, before branding
+ * @param collection - Whether the route lists items of the schema
+ * @returns The violations, or undefined when the body carries no data to check
+ */
+export function validateResponseBody(validator: SchemaValidator, schema: Schema, body: unknown, collection: boolean = false): SchemaViolation[] | undefined {
+  let payload = body;
+  if (isEnvelope(body, schema)) {
+    if (!('data' in body)) {
+      return undefined;
+    }
+    payload = body.data;
+  }
+
+  if (Array.isArray(payload) && !describesArray(schema)) {
+    if (!collection) {
+      const violations = validator.validate(payload);
+      return violations.length > 0
+        ? violations
+        : [{ instancePath: '', schemaPath: '#', keyword: 'type', message: 'must be a single item, not an array' }];
+    }
+    return payload.flatMap((item, index) => validator.validate(item).map(violation => ({
+      ...violation,
+      instancePath: `/${index}${violation.instancePath}`
+    })));
+  }
+  return validator.validate(payload);
+}
+
+/**
+ * Collects response contract results per route
+ */
+export class ContractReport {
+  private routes = new Map<string, RouteContract>();
+  private since = new Date();
+
+  /**
+   * Records the outcome of one response check
+   *
+   * @param method - The route's HTTP method
+   * @param path - The route path, e.g. /api/users/:id
+   * @param violations - The violations found, empty when the response matched
+   */
+  record(method: string, path: string, violations: SchemaViolation[]): void {
+    const key = `${method.toUpperCase()} ${path}`;
+    let route = this.routes.get(key);
+    if (!route) {
+      route = { method: method.toUpperCase(), path, checked: 0, failed: 0, drift: new Map() };
+      this.routes.set(key, route);
+    }
+
+    route.checked++;
+    if (violations.length === 0) {
+      return;
+    }
+    route.failed++;
+    route.lastFailedAt = new Date().toISOString();
+
+    for (const violation of violations) {
+      const driftKey = `${violation.schemaPath} ${violation.keyword}`;
+      const drift = route.drift.get(driftKey);
+      if (drift) {
+        drift.count++;
+        drift.message = violation.message;
+        drift.instancePath = violation.instancePath;
+      } else if (route.drift.size < MAX_CONTRACT_DRIFT) {
+        route.drift.set(driftKey, {
+          schemaPath: violation.schemaPath,
+          keyword: violation.keyword,
+          message: violation.message,
+          instancePath: violation.instancePath,
+          count: 1
+        });
+      }
+    }
+  }
+
+  /**
+   * Forgets all results, e.g. after the routes were reloaded
+   */
+  clear(): void {
+    this.routes.clear();
+    this.since = new Date();
+  }
+
+  /**
+   * Summarises the results, routes with the most failures first
+   *
+   * @param mode - The configured validation mode, if any
+   */
+  getSummary(mode?: ResponseValidationMode): ContractReportSummary {
+    const routes: ContractRouteReport[] = [...this.routes.values()]
+      .map(route => ({
+        method: route.method,
+        path: route.path,
+        checked: route.checked,
+        failed: route.failed,
+        ...(route.lastFailedAt ? { lastFailedAt: route.lastFailedAt } : {}),
+        drift: [...route.drift.values()].sort((a, b) => b.count - a.count)
+      }))
+      .sort((a, b) => b.failed - a.failed);
+
+    return {
+      mode: mode ?? 'off',
+      since: this.since.toISOString(),
+      checked: routes.reduce((sum, route) => sum + route.checked, 0),
+      failed: routes.reduce((sum, route) => sum + route.failed, 0),
+      routes
+    };
+  }
+}
+
+/**
+ * Checks for the `{ success: true, data }` envelope of generated routes,
+ * unless the schema itself declares a `success` property
+ */
+function isEnvelope(body: unknown, schema: Schema): body is Record<string, unknown> {
+  return typeof body === 'object' && body !== null && !Array.isArray(body) &&
+    (body as Record<string, unknown>).success === true && !schema.properties?.success;
+}
+
+function describesArray(schema: Schema): boolean {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.includes('array') || schema.items !== undefined || schema.prefixItems !== undefined;
+}
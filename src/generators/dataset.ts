@@ -0,0 +1,226 @@
+/**
+ * Streaming bulk dataset generation
+ *
+ * Writes records generated from resource schemas to a writable stream as
+ * NDJSON, a JSON document or CSV. Records are generated and written one at a
+ * time, waiting for the stream to drain, so memory stays constant however
+ * many records are requested. Foreign key fields such as `authorId` resolve
+ * through a WorldState to IDs of records already written for the referenced
+ * resource, and resources are written in an order that makes this possible.
+ */
+
+import { Writable } from 'stream';
+import { once } from 'events';
+import { Schema, JSONValue } from '../types';
+import { SchemaParser } from '../parsers/schema';
+import { ValidationError } from '../errors';
+import { randomUuid } from '../utils/random';
+import { MAX_REFERENCE_POOL_SIZE } from '../utils/constants';
+import { WorldState, detectForeignKey } from './world-state';
+import { UniqueIndex, findUniqueProperties } from './unique';
+
+export type DatasetFormat = 'ndjson' | 'json' | 'csv';
+
+/** Supported output formats */
+export const DATASET_FORMATS: DatasetFormat[] = ['ndjson', 'json', 'csv'];
+
+export interface DatasetResource {
+  /** Plural resource name such as "users"; foreign keys such as `userId` point at it */
+  name: string;
+  schema: Schema;
+  /** Number of records to generate */
+  count: number;
+}
+
+export interface DatasetOptions {
+  format: DatasetFormat;
+  strict?: boolean;
+  /**
+   * WorldState shared across calls, e.g. when each resource goes to its own
+   * file. Defaults to a new one keeping up to MAX_REFERENCE_POOL_SIZE IDs per resource.
+   */
+  world?: WorldState;
+}
+
+function sameResource(a: string, b: string): boolean {
+  const normalize = (name: string) => name.toLowerCase().replace(/[_-]/g, '');
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Orders resources so that the resources a schema's foreign keys point at
+ * are generated before it
+ *
+ * The given order is kept where the references allow it; reference cycles
+ * are broken in the given order.
+ *
+ * @param resources - The resources to generate
+ * @returns The resources in generation order
+ */
+export function orderResources(resources: DatasetResource[]): DatasetResource[] {
+  const dependencies = new Map(resources.map(resource => {
+    const referenced = Object.keys(resource.schema.properties || {})
+      .map(detectForeignKey)
+      .filter((ref): ref is string => ref !== null);
+    const deps = resources.filter(other =>
+      other !== resource && referenced.some(ref => sameResource(ref, other.name)));
+    return [resource, deps];
+  }));
+
+  const ordered: DatasetResource[] = [];
+  const remaining = [...resources];
+  while (remaining.length > 0) {
+    const index = remaining.findIndex(resource =>
+      (dependencies.get(resource) || []).every(dep => ordered.includes(dep)));
+    ordered.push(...remaining.splice(index === -1 ? 0 : index, 1));
+  }
+  return ordered;
+}
+
+/**
+ * Generates datasets for resources and streams them to an output
+ *
+ * A single resource is written as one record per line (ndjson), a JSON array
+ * or a CSV table with a header row. Several resources are written as
+ * `{"resource": ..., "record": ...}` lines (ndjson) or as one JSON object
+ * keyed by resource name; CSV holds a single resource.
+ *
+ * An `id` property is numbered sequentially (integer ids), gets a seeded
+ * UUID (`format: uuid`) or a `user-1` style ID, so records can be loaded
+ * into a database as they are. Properties marked `x-schemock-unique` hold a
+ * different value in every record; their values are kept in memory.
+ *
+ * @param resources - The resources to generate
+ * @param output - The stream to write to; it is not ended
+ * @param options - Output format and generation options
+ * @returns The number of records written per resource
+ * @throws {ValidationError} When the format, a count or the resource list is invalid
+ */
+export async function writeDataset(
+  resources: DatasetResource[],
+  output: Writable,
+  options: DatasetOptions
+): Promise<Record<string, number>> {
+  const { format, strict = false } = options;
+  if (!DATASET_FORMATS.includes(format)) {
+    throw new ValidationError(`Unsupported dataset format: ${format}`, 'format', format,
+      `Use one of: ${DATASET_FORMATS.join(', ')}.`);
+  }
+  for (const resource of resources) {
+    if (!Number.isInteger(resource.count) || resource.count < 0) {
+      throw new ValidationError('Record count must be a non-negative integer', 'count', resource.count);
+    }
+  }
+  if (format === 'csv' && resources.length > 1) {
+    throw new ValidationError('CSV output holds a single resource', 'format', format,
+      'Write each resource to its own file, e.g. with an output directory.');
+  }
+
+  const world = options.world ?? new WorldState({ maxPoolSize: MAX_REFERENCE_POOL_SIZE });
+  const multiple = resources.length > 1;
+  const indent = multiple ? '    ' : '  ';
+  const written: Record<string, number> = {};
+
+  if (format === 'json') {
+    await write(output, multiple ? '{\n' : '[\n');
+  }
+
+  const ordered = orderResources(resources);
+  for (const [resourceIndex, resource] of ordered.entries()) {
+    const columns = format === 'csv' ? Object.keys(resource.schema.properties || {}) : [];
+    const unique = new UniqueIndex(findUniqueProperties(resource.schema));
+    if (format === 'json' && multiple) {
+      await write(output, `${resourceIndex > 0 ? ',\n' : ''}  ${JSON.stringify(resource.name)}: [\n`);
+    }
+
+    for (let index = 0; index < resource.count; index++) {
+      let record = SchemaParser.parse(resource.schema, undefined, new Set(), strict, resource.name);
+      record = unique.makeUnique(assignPrimaryKey(record, resource, index), resource.schema, strict);
+      record = world.resolveEntity(record);
+      registerRecord(world, resource.name, record);
+
+      switch (format) {
+        case 'ndjson':
+          await write(output, `${JSON.stringify(multiple ? { resource: resource.name, record } : record)}\n`);
+          break;
+        case 'json':
+          await write(output, `${index > 0 ? ',\n' : ''}${indent}${JSON.stringify(record)}`);
+          break;
+        case 'csv':
+          if (index === 0) {
+            // Without declared properties, the first record's keys become the columns
+            if (columns.length === 0 && record && typeof record === 'object' && !Array.isArray(record)) {
+              columns.push(...Object.keys(record));
+            }
+            await write(output, `${columns.map(toCsvCell).join(',')}\n`);
+          }
+          await write(output, `${toCsvRow(record, columns)}\n`);
+          break;
+      }
+    }
+
+    if (format === 'json' && multiple) {
+      await write(output, resource.count > 0 ? '\n  ]' : ']');
+    }
+    written[resource.name] = resource.count;
+  }
+
+  if (format === 'json') {
+    const hasRecords = resources.some(resource => resource.count > 0);
+    await write(output, multiple ? '\n}\n' : `${hasRecords ? '\n' : ''}]\n`);
+  }
+
+  return written;
+}
+
+/**
+ * Writes a chunk, waiting for the stream to drain when its buffer is full
+ */
+async function write(output: Writable, chunk: string): Promise<void> {
+  if (!output.write(chunk)) {
+    await once(output, 'drain');
+  }
+}
+
+function assignPrimaryKey(record: JSONValue, resource: DatasetResource, index: number): JSONValue {
+  const idSchema = resource.schema.properties?.id;
+  if (!idSchema || !record || typeof record !== 'object' || Array.isArray(record) ||
+      idSchema.const !== undefined || idSchema.enum || idSchema.pattern) {
+    return record;
+  }
+
+  const types = Array.isArray(idSchema.type) ? idSchema.type : [idSchema.type];
+  if (types.includes('integer') || types.includes('number')) {
+    record.id = index + 1;
+  } else if (idSchema.format === 'uuid') {
+    record.id = randomUuid();
+  } else {
+    record.id = `${resource.name.toLowerCase().replace(/s$/, '')}-${index + 1}`;
+  }
+  return record;
+}
+
+/**
+ * Registers a record's ID so later foreign keys can point at it
+ */
+function registerRecord(world: WorldState, resource: string, record: JSONValue): void {
+  if (record && typeof record === 'object' && !Array.isArray(record) &&
+      (typeof record.id === 'string' || typeof record.id === 'number')) {
+    world.register(resource, { id: record.id });
+  }
+}
+
+function toCsvCell(value: JSONValue | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(record: JSONValue, columns: string[]): string {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return toCsvCell(record);
+  }
+  return columns.map(column => toCsvCell(record[column])).join(',');
+}
@@ -0,0 +1,155 @@
+/**
+ * Sparse fieldsets and embedded relations for GETs
+ *
+ *   ?fields=id,title,author.name      only these fields; dot paths reach into objects
+ *   ?include=author,comments.author   related entities, found through WorldState
+ *
+ * A relation is either a foreign key of the item (`authorId`, or `author`
+ * holding an ID, embeds the user as `author`) or a resource whose foreign
+ * keys point at the item (`comments` embeds the comments with its `postId`).
+ * Parameter names and the include depth come from the QueryDialect.
+ */
+
+import { JSONValue, QueryDialect } from '../types';
+import { ValidationError } from '../errors';
+import { WorldState, detectForeignKey } from './world-state';
+
+/** Field or include paths as a tree, e.g. comments.author → { comments: { author: {} } } */
+type PathTree = Map<string, PathTree>;
+
+/**
+ * Applies `fields` and `include` to a response item or a list of items
+ *
+ * Stored items are never modified; shaped copies are returned.
+ *
+ * @param value - An item or list of items of `resource`
+ * @param query - The request's query parameters
+ * @param resource - The resource the items belong to, e.g. "posts"
+ * @param world - The WorldState holding related entities
+ * @param dialect - The query dialect
+ * @returns The shaped item or items
+ * @throws {ValidationError} When an include path is nested deeper than `includeDepth`
+ */
+export function shapeResponse(value: JSONValue, query: Record<string, unknown>, resource: string, world: WorldState, dialect: QueryDialect): JSONValue {
+  const fields = parsePaths(query[dialect.fields]);
+  const include = parsePaths(query[dialect.include]);
+  if (fields.length === 0 && include.length === 0) {
+    return value;
+  }
+
+  const tooDeep = include.find(path => path.length > dialect.includeDepth);
+  if (tooDeep) {
+    throw new ValidationError(`Cannot include ${tooDeep.join('.')}: relations are embedded at most ${dialect.includeDepth} deep`,
+      dialect.include, tooDeep.join('.'), 'Include fewer levels, or raise queryDialect.includeDepth.');
+  }
+
+  const includeTree = toTree(include, false);
+  const fieldTree = fields.length > 0 ? toTree(fields, true) : undefined;
+  // Included relations are kept whole unless `fields` selects into them
+  includeTree.forEach((_, name) => {
+    if (fieldTree && !fieldTree.has(name)) {
+      fieldTree.set(name, new Map());
+    }
+  });
+
+  const shape = (item: JSONValue): JSONValue => {
+    const embedded = embed(item, includeTree, resource, world);
+    return fieldTree ? pick(embedded, fieldTree) : embedded;
+  };
+  return Array.isArray(value) ? value.map(shape) : shape(value);
+}
+
+/**
+ * Embeds the relations of an item, then their relations, following the tree
+ */
+function embed(item: JSONValue, tree: PathTree, resource: string, world: WorldState): JSONValue {
+  if (tree.size === 0 || !isObject(item)) {
+    return item;
+  }
+  const result: Record<string, JSONValue> = { ...item };
+
+  tree.forEach((subtree, name) => {
+    const foreignKey = Object.keys(item).find(key => detectForeignKey(key) !== null && relationName(key) === name);
+    if (foreignKey) {
+      const ref = detectForeignKey(foreignKey) as string;
+      const id = item[foreignKey];
+      const related = id === null || id === undefined ? null : world.getById(ref, String(id));
+      result[name] = related === null ? null : embed(related, subtree, ref, world);
+    } else if (item.id !== undefined) {
+      result[name] = world.findReferencing(name, resource, item.id).map(related => embed(related, subtree, name, world));
+    }
+  });
+  return result;
+}
+
+/**
+ * Keeps the fields in the tree, in the item's own order
+ */
+function pick(value: JSONValue, tree: PathTree): JSONValue {
+  if (Array.isArray(value)) {
+    return value.map(item => pick(item, tree));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  const result: Record<string, JSONValue> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const subtree = tree.get(key);
+    if (subtree) {
+      result[key] = subtree.size === 0 ? field : pick(field, subtree);
+    }
+  }
+  return result;
+}
+
+/**
+ * Names a foreign key's relation: authorId → author, user_id → user
+ */
+function relationName(key: string): string {
+  return key.replace(/[_-]?id$/i, '') || key;
+}
+
+/**
+ * Reads comma-separated dot paths, from one or repeated parameters
+ */
+function parsePaths(value: unknown): string[][] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(path => path.trim())
+    .filter(Boolean)
+    .map(path => path.split('.').filter(Boolean));
+}
+
+/**
+ * Merges paths into a tree. For fields, a shorter path (author) selects the
+ * whole value, so it wins over a longer one (author.name); included
+ * relations always merge.
+ */
+function toTree(paths: string[][], wholeWins: boolean): PathTree {
+  const tree: PathTree = new Map();
+  for (const path of paths) {
+    let node = tree;
+    for (const [index, segment] of path.entries()) {
+      const last = index === path.length - 1;
+      let child = node.get(segment);
+      if (child === undefined) {
+        child = new Map();
+        node.set(segment, child);
+      } else if (wholeWins && child.size === 0) {
+        break;
+      }
+      if (wholeWins && last) {
+        child.clear();
+      }
+      node = child;
+    }
+  }
+  return tree;
+}
+
+function isObject(value: unknown): value is Record<string, JSONValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
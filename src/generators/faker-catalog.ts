@@ -0,0 +1,409 @@
+/**
+ * Faker Catalog — offline generators for the `x-schemock-faker` keyword
+ *
+ * Generators are addressed as `category.method` (e.g. `commerce.productName`)
+ * and may take named arguments:
+ *
+ *   "x-schemock-faker": "internet.userName"
+ *   "x-schemock-faker": { "name": "finance.amount", "args": { "min": 10, "max": 500 } }
+ *
+ * All randomness goes through the seeded generator, and person and company
+ * names come from the active locale pack.
+ */
+
+import { FakerSpec, JSONValue, LocalePack } from '../types';
+import { SchemaParseError } from '../errors';
+import { randomInt, randomFloat } from '../utils/random';
+import { getReferenceTime } from '../utils/temporal';
+import { MOCK_EMAIL_DOMAIN } from '../utils/constants';
+import { enUS, pickLocaleValue, generateFullName } from '../locales';
+
+type FakerArgs = Record<string, JSONValue>;
+
+/** Context passed to every generator */
+interface FakerContext {
+  args: FakerArgs;
+  pack: LocalePack;
+  generator: string;
+}
+
+type FakerGenerator = (context: FakerContext) => JSONValue;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const ARGUMENT_HINT = 'Pass arguments as an object, e.g. { "name": "finance.amount", "args": { "min": 10, "max": 500, "decimals": 2 } }.';
+
+const LOREM_WORDS = [
+  'lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do',
+  'eiusmod', 'tempor', 'incididunt', 'ut', 'labore', 'et', 'dolore', 'magna', 'aliqua', 'enim',
+  'ad', 'minim', 'veniam', 'quis', 'nostrud', 'exercitation', 'ullamco', 'laboris', 'nisi', 'aliquip',
+  'ex', 'ea', 'commodo', 'consequat', 'duis', 'aute', 'irure', 'in', 'reprehenderit', 'voluptate',
+  'velit', 'esse', 'cillum', 'fugiat', 'nulla', 'pariatur', 'excepteur', 'sint', 'occaecat', 'cupidatat'
+];
+
+const JOB_DESCRIPTORS = ['Senior', 'Lead', 'Junior', 'Principal', 'Chief', 'Associate', 'Regional', 'Global'];
+const JOB_AREAS = ['Marketing', 'Engineering', 'Product', 'Sales', 'Operations', 'Finance', 'Design', 'Data', 'Security', 'Support'];
+const JOB_TYPES = ['Manager', 'Engineer', 'Analyst', 'Designer', 'Director', 'Specialist', 'Consultant', 'Coordinator', 'Architect'];
+
+const PRODUCT_ADJECTIVES = ['Ergonomic', 'Rustic', 'Sleek', 'Handcrafted', 'Refined', 'Practical', 'Compact', 'Durable', 'Elegant', 'Smart'];
+const PRODUCT_MATERIALS = ['Steel', 'Wooden', 'Cotton', 'Granite', 'Leather', 'Bamboo', 'Ceramic', 'Plastic', 'Glass', 'Wool'];
+const PRODUCTS = ['Chair', 'Table', 'Lamp', 'Keyboard', 'Backpack', 'Bottle', 'Jacket', 'Headphones', 'Mug', 'Sneakers', 'Watch', 'Notebook'];
+const DEPARTMENTS = ['Books', 'Electronics', 'Garden', 'Home', 'Kitchen', 'Outdoors', 'Sports', 'Toys', 'Clothing', 'Beauty'];
+
+const CURRENCIES: Array<{ code: string; name: string; symbol: string }> = [
+  { code: 'USD', name: 'US Dollar', symbol: '$' },
+  { code: 'EUR', name: 'Euro', symbol: '€' },
+  { code: 'GBP', name: 'Pound Sterling', symbol: '£' },
+  { code: 'JPY', name: 'Yen', symbol: '¥' },
+  { code: 'BRL', name: 'Brazilian Real', symbol: 'R$' },
+  { code: 'CHF', name: 'Swiss Franc', symbol: 'CHF' },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$' }
+];
+const TRANSACTION_TYPES = ['deposit', 'withdrawal', 'payment', 'invoice', 'refund', 'transfer'];
+
+const VEHICLE_MODELS: Record<string, string[]> = {
+  Toyota: ['Corolla', 'Camry', 'RAV4', 'Prius'],
+  Ford: ['Focus', 'Mustang', 'F-150', 'Explorer'],
+  Volkswagen: ['Golf', 'Passat', 'Tiguan', 'ID.4'],
+  Honda: ['Civic', 'Accord', 'CR-V', 'Jazz'],
+  Tesla: ['Model 3', 'Model S', 'Model X', 'Model Y'],
+  BMW: ['3 Series', '5 Series', 'X3', 'i4'],
+  Renault: ['Clio', 'Megane', 'Captur', 'Zoe']
+};
+const VEHICLE_TYPES = ['Sedan', 'SUV', 'Hatchback', 'Coupe', 'Convertible', 'Minivan', 'Pickup', 'Wagon'];
+const VEHICLE_FUELS = ['Gasoline', 'Diesel', 'Electric', 'Hybrid'];
+const VEHICLE_COLORS = ['black', 'white', 'silver', 'red', 'blue', 'grey', 'green'];
+const VIN_CHARACTERS = 'ABCDEFGHJKLMNPRSTUVWXYZ0123456789';
+
+const COMPANY_SUFFIXES = ['Inc.', 'LLC', 'Group', 'Ltd.', 'and Sons', 'Holdings'];
+const CATCH_PHRASE_ADJECTIVES = ['Adaptive', 'Cross-platform', 'Customer-focused', 'Distributed', 'Integrated', 'Proactive', 'Scalable', 'User-centric'];
+const CATCH_PHRASE_DESCRIPTORS = ['24/7', 'bottom-line', 'client-driven', 'fault-tolerant', 'mission-critical', 'real-time', 'zero-defect'];
+const CATCH_PHRASE_NOUNS = ['architecture', 'framework', 'initiative', 'interface', 'middleware', 'paradigm', 'platform', 'solution'];
+const BUZZ_VERBS = ['streamline', 'leverage', 'orchestrate', 'empower', 'synthesize', 'monetize', 'reinvent'];
+const BUZZ_ADJECTIVES = ['seamless', 'cutting-edge', 'holistic', 'robust', 'viral', 'end-to-end', 'frictionless'];
+const BUZZ_NOUNS = ['synergies', 'platforms', 'deliverables', 'paradigms', 'experiences', 'workflows', 'ecosystems'];
+const INDUSTRIES = ['Retail', 'Healthcare', 'Logistics', 'Banking', 'Insurance', 'Education', 'Manufacturing', 'Media', 'Energy'];
+
+const DOMAIN_SUFFIXES = ['com', 'net', 'org', 'io', 'dev'];
+const USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_4) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+  'Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1'
+];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+function pick<T>(values: readonly T[]): T {
+  return values[randomInt(0, values.length - 1)];
+}
+
+function digits(count: number): string {
+  let result = '';
+  for (let i = 0; i < count; i++) {
+    result += String(randomInt(0, 9));
+  }
+  return result;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/** Lowercase ASCII version of a name, used for user names and emails */
+function toAsciiSlug(value: string): string {
+  return value.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+}
+
+/**
+ * Reads a numeric argument
+ *
+ * @throws {SchemaParseError} When the argument is present but not a number
+ */
+function numberArg(context: FakerContext, key: string, defaultValue: number): number {
+  const value = context.args[key];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new SchemaParseError(
+      `Argument "${key}" of x-schemock-faker generator "${context.generator}" must be a number`,
+      { generator: context.generator, argument: key, value },
+      ARGUMENT_HINT
+    );
+  }
+  return value;
+}
+
+/**
+ * Reads a string argument
+ *
+ * @throws {SchemaParseError} When the argument is present but not a string
+ */
+function stringArg(context: FakerContext, key: string, defaultValue?: string): string | undefined {
+  const value = context.args[key];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  if (typeof value !== 'string') {
+    throw new SchemaParseError(
+      `Argument "${key}" of x-schemock-faker generator "${context.generator}" must be a string`,
+      { generator: context.generator, argument: key, value },
+      ARGUMENT_HINT
+    );
+  }
+  return value;
+}
+
+/**
+ * Reads a date argument (ISO string or timestamp)
+ *
+ * @throws {SchemaParseError} When the argument is present but not a valid date
+ */
+function dateArg(context: FakerContext, key: string, defaultValue: number): number {
+  const value = context.args[key];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  const time = typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+  if (Number.isNaN(time)) {
+    throw new SchemaParseError(
+      `Argument "${key}" of x-schemock-faker generator "${context.generator}" must be an ISO date or timestamp`,
+      { generator: context.generator, argument: key, value },
+      ARGUMENT_HINT
+    );
+  }
+  return time;
+}
+
+function roundTo(value: number, decimals: number): number {
+  return parseFloat(value.toFixed(Math.max(0, Math.min(decimals, 20))));
+}
+
+function isoBetween(from: number, to: number): string {
+  return new Date(randomFloat(Math.min(from, to), Math.max(from, to))).toISOString();
+}
+
+function loremWords(count: number): string[] {
+  return Array.from({ length: Math.max(0, count) }, () => pick(LOREM_WORDS));
+}
+
+function loremSentence(wordCount: number): string {
+  return `${capitalize(loremWords(Math.max(1, wordCount)).join(' '))}.`;
+}
+
+function loremParagraph(sentenceCount: number): string {
+  return Array.from({ length: Math.max(1, sentenceCount) }, () => loremSentence(randomInt(5, 12))).join(' ');
+}
+
+function domainName(): string {
+  return `${pick(LOREM_WORDS)}${pick(LOREM_WORDS)}.${pick(DOMAIN_SUFFIXES)}`;
+}
+
+function userName(context: FakerContext): string {
+  const first = toAsciiSlug(stringArg(context, 'firstName') ?? pickLocaleValue(context.pack.firstNames)) || toAsciiSlug(pickLocaleValue(enUS.firstNames));
+  const last = toAsciiSlug(stringArg(context, 'lastName') ?? pickLocaleValue(context.pack.lastNames)) || toAsciiSlug(pickLocaleValue(enUS.lastNames));
+  return pick([`${first}.${last}`, `${first}_${last}`, `${first}${last}`]) + String(randomInt(1, 99));
+}
+
+/** Appends a mod-10 (Luhn) check digit */
+function withLuhnCheckDigit(partial: string): string {
+  let sum = 0;
+  for (let i = 0; i < partial.length; i++) {
+    let digit = Number(partial[partial.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return partial + String((10 - (sum % 10)) % 10);
+}
+
+/** Builds a German IBAN with a valid ISO 7064 mod-97 checksum */
+function iban(): string {
+  const bban = digits(18);
+  // "DE" -> 13 14, followed by the placeholder check digits "00"
+  const numeric = `${bban}131400`;
+  let remainder = 0;
+  for (const char of numeric) {
+    remainder = (remainder * 10 + Number(char)) % 97;
+  }
+  const check = String(98 - remainder).padStart(2, '0');
+  return `DE${check}${bban}`;
+}
+
+/** Builds an ISBN-13 with a valid check digit */
+function isbn(): string {
+  const partial = `978${digits(9)}`;
+  const sum = partial.split('').reduce((acc, char, index) => acc + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+  return partial + String((10 - (sum % 10)) % 10);
+}
+
+const CATALOG: Record<string, Record<string, FakerGenerator>> = {
+  person: {
+    firstName: ({ pack }) => pickLocaleValue(pack.firstNames),
+    lastName: ({ pack }) => pickLocaleValue(pack.lastNames),
+    fullName: ({ pack }) => generateFullName(pack),
+    prefix: () => pick(['Mr.', 'Ms.', 'Mrs.', 'Dr.', 'Prof.']),
+    gender: () => pick(['female', 'male', 'non-binary']),
+    jobTitle: () => `${pick(JOB_DESCRIPTORS)} ${pick(JOB_AREAS)} ${pick(JOB_TYPES)}`,
+    jobArea: () => pick(JOB_AREAS),
+    jobType: () => pick(JOB_TYPES)
+  },
+  internet: {
+    userName,
+    email: (context) => `${userName(context)}@${stringArg(context, 'provider', MOCK_EMAIL_DOMAIN)}`,
+    domainName: () => domainName(),
+    url: (context) => `${stringArg(context, 'protocol', 'https')}://www.${domainName()}`,
+    ipv4: () => `${randomInt(1, 254)}.${randomInt(0, 255)}.${randomInt(0, 255)}.${randomInt(1, 254)}`,
+    ipv6: () => Array.from({ length: 8 }, () => randomInt(0, 0xffff).toString(16).padStart(4, '0')).join(':'),
+    mac: () => Array.from({ length: 6 }, () => randomInt(0, 255).toString(16).padStart(2, '0')).join(':'),
+    port: () => randomInt(1024, 65535),
+    password: (context) => {
+      const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789!@#$%&*';
+      return Array.from({ length: numberArg(context, 'length', 12) }, () => chars.charAt(randomInt(0, chars.length - 1))).join('');
+    },
+    userAgent: () => pick(USER_AGENTS),
+    httpMethod: () => pick(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
+    httpStatusCode: () => pick([200, 201, 204, 301, 400, 401, 403, 404, 409, 422, 500, 503])
+  },
+  commerce: {
+    productName: () => `${pick(PRODUCT_ADJECTIVES)} ${pick(PRODUCT_MATERIALS)} ${pick(PRODUCTS)}`,
+    productAdjective: () => pick(PRODUCT_ADJECTIVES),
+    productMaterial: () => pick(PRODUCT_MATERIALS),
+    product: () => pick(PRODUCTS),
+    department: () => pick(DEPARTMENTS),
+    price: (context) => roundTo(randomFloat(numberArg(context, 'min', 1), numberArg(context, 'max', 1000)), numberArg(context, 'decimals', 2)),
+    sku: () => `${pick(PRODUCTS).substring(0, 3).toUpperCase()}-${digits(6)}`,
+    isbn: () => isbn()
+  },
+  finance: {
+    amount: (context) => roundTo(randomFloat(numberArg(context, 'min', 0), numberArg(context, 'max', 1000)), numberArg(context, 'decimals', 2)),
+    currencyCode: () => pick(CURRENCIES).code,
+    currencyName: () => pick(CURRENCIES).name,
+    currencySymbol: () => pick(CURRENCIES).symbol,
+    accountNumber: (context) => digits(numberArg(context, 'length', 8)),
+    iban: () => iban(),
+    bic: () => `${pick(['DEUT', 'COBA', 'BNPA', 'CHAS', 'BARC'])}${pick(['DE', 'FR', 'US', 'GB'])}${pick(['FF', '2X', '33', 'MM'])}`,
+    creditCardNumber: () => withLuhnCheckDigit(`4${digits(14)}`),
+    creditCardCVV: () => digits(3),
+    transactionType: () => pick(TRANSACTION_TYPES)
+  },
+  lorem: {
+    word: () => pick(LOREM_WORDS),
+    words: (context) => loremWords(numberArg(context, 'count', 3)).join(' '),
+    sentence: (context) => loremSentence(numberArg(context, 'words', randomInt(5, 12))),
+    sentences: (context) => Array.from({ length: Math.max(1, numberArg(context, 'count', 3)) }, () => loremSentence(randomInt(5, 12))).join(' '),
+    paragraph: (context) => loremParagraph(numberArg(context, 'sentences', 3)),
+    paragraphs: (context) => Array.from({ length: Math.max(1, numberArg(context, 'count', 2)) }, () => loremParagraph(3)).join('\n\n'),
+    slug: (context) => loremWords(numberArg(context, 'words', 3)).join('-')
+  },
+  date: {
+    past: (context) => isoBetween(getReferenceTime() - numberArg(context, 'years', 1) * 365 * MS_PER_DAY, getReferenceTime()),
+    future: (context) => isoBetween(getReferenceTime(), getReferenceTime() + numberArg(context, 'years', 1) * 365 * MS_PER_DAY),
+    recent: (context) => isoBetween(getReferenceTime() - numberArg(context, 'days', 1) * MS_PER_DAY, getReferenceTime()),
+    soon: (context) => isoBetween(getReferenceTime(), getReferenceTime() + numberArg(context, 'days', 1) * MS_PER_DAY),
+    between: (context) => {
+      if (context.args.from === undefined || context.args.to === undefined) {
+        throw new SchemaParseError(
+          `x-schemock-faker generator "${context.generator}" requires "from" and "to" arguments`,
+          { generator: context.generator, args: context.args },
+          'Use { "name": "date.between", "args": { "from": "2024-01-01", "to": "2024-12-31" } }.'
+        );
+      }
+      return isoBetween(dateArg(context, 'from', 0), dateArg(context, 'to', 0));
+    },
+    birthdate: (context) => {
+      const now = getReferenceTime();
+      const minAge = numberArg(context, 'minAge', 18);
+      const maxAge = numberArg(context, 'maxAge', 80);
+      return isoBetween(now - (maxAge + 1) * 365.25 * MS_PER_DAY, now - minAge * 365.25 * MS_PER_DAY).split('T')[0];
+    },
+    month: () => pick(MONTHS),
+    weekday: () => pick(WEEKDAYS)
+  },
+  vehicle: {
+    manufacturer: () => pick(Object.keys(VEHICLE_MODELS)),
+    model: () => pick(pick(Object.values(VEHICLE_MODELS))),
+    vehicle: () => {
+      const manufacturer = pick(Object.keys(VEHICLE_MODELS));
+      return `${manufacturer} ${pick(VEHICLE_MODELS[manufacturer])}`;
+    },
+    type: () => pick(VEHICLE_TYPES),
+    fuel: () => pick(VEHICLE_FUELS),
+    color: () => pick(VEHICLE_COLORS),
+    vin: () => Array.from({ length: 17 }, () => VIN_CHARACTERS.charAt(randomInt(0, VIN_CHARACTERS.length - 1))).join('')
+  },
+  company: {
+    name: ({ pack }) => pickLocaleValue(pack.companies),
+    suffix: () => pick(COMPANY_SUFFIXES),
+    catchPhrase: () => `${pick(CATCH_PHRASE_ADJECTIVES)} ${pick(CATCH_PHRASE_DESCRIPTORS)} ${pick(CATCH_PHRASE_NOUNS)}`,
+    buzzPhrase: () => `${pick(BUZZ_VERBS)} ${pick(BUZZ_ADJECTIVES)} ${pick(BUZZ_NOUNS)}`,
+    industry: () => pick(INDUSTRIES)
+  }
+};
+
+/**
+ * Lists every generator in the catalog
+ *
+ * @returns Generator names such as 'commerce.productName'
+ */
+export function getFakerGenerators(): string[] {
+  return Object.entries(CATALOG).flatMap(([category, generators]) =>
+    Object.keys(generators).map(method => `${category}.${method}`)
+  );
+}
+
+/**
+ * Checks whether a generator exists in the catalog
+ *
+ * @param name - Generator name such as 'internet.userName'
+ */
+export function hasFakerGenerator(name: string): boolean {
+  const [category, method] = name.split('.');
+  return Boolean(CATALOG[category]?.[method]);
+}
+
+/**
+ * Generates a value from an `x-schemock-faker` spec
+ *
+ * @param spec - Generator name, or `{ name, args }` for generators with arguments
+ * @param pack - Locale pack for person and company names
+ * @returns The generated value
+ * @throws {SchemaParseError} When the spec is malformed, the generator is unknown or an argument is invalid
+ */
+export function generateFake(spec: FakerSpec, pack: LocalePack = enUS): JSONValue {
+  const name = typeof spec === 'string' ? spec : spec?.name;
+  const args = typeof spec === 'object' && spec !== null ? spec.args : undefined;
+
+  if (typeof name !== 'string' || (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args)))) {
+    throw new SchemaParseError(
+      'x-schemock-faker must be a generator name or an object with "name" and optional "args"',
+      { spec },
+      'Use "x-schemock-faker": "commerce.productName" or { "name": "finance.amount", "args": { "min": 10 } }.'
+    );
+  }
+
+  const [category, method] = name.split('.');
+  const generators = CATALOG[category];
+  if (!generators) {
+    throw new SchemaParseError(
+      `Unknown x-schemock-faker category "${category}" in "${name}"`,
+      { generator: name },
+      `Available categories: ${Object.keys(CATALOG).join(', ')}.`
+    );
+  }
+  const generator = generators[method];
+  if (!generator) {
+    throw new SchemaParseError(
+      `Unknown x-schemock-faker generator "${name}"`,
+      { generator: name },
+      `Available ${category} generators: ${Object.keys(generators).join(', ')}.`
+    );
+  }
+
+  return generator({ args: args ?? {}, pack, generator: name });
+}
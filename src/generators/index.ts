@@ -23,3 +23,8 @@ export function createMockServer(config: { server: ServerOptions; routes: any })
 export * from './server';
 export * from './routes';
 export { WorldState, detectForeignKey, isIdField } from './world-state';
+export { generateFake, getFakerGenerators, hasFakerGenerator } from './faker-catalog';
+export { writeDataset, orderResources, DATASET_FORMATS } from './dataset';
+export type { DatasetFormat, DatasetResource, DatasetOptions } from './dataset';
+export { generateContent, renderPlaceholder, placeholderUrl, PLACEHOLDER_FORMATS } from './media';
+export type { PlaceholderFormat } from './media';
@@ -0,0 +1,310 @@
+/**
+ * Binary and media content generation
+ *
+ * Backs `contentMediaType`/`contentEncoding` string schemas with small but
+ * valid files, so an attachment field decodes to a PNG that opens or a CSV
+ * that parses:
+ *
+ *   { "type": "string", "contentEncoding": "base64", "contentMediaType": "image/png" }
+ *
+ * Also renders the placeholder images served by the mock server at
+ * `/__schemock/placeholder/200x200.png`, which generated image URLs such as
+ * `avatarUrl` point at, so they load without internet access.
+ */
+
+import { deflateSync } from 'zlib';
+import { ValidationError } from '../errors';
+import { randomInt } from '../utils/random';
+import { MAX_PLACEHOLDER_SIZE, PLACEHOLDER_ROUTE } from '../utils/constants';
+import { generateFake } from './faker-catalog';
+
+export type PlaceholderFormat = 'png' | 'svg';
+
+/** Image formats served by the placeholder route */
+export const PLACEHOLDER_FORMATS: PlaceholderFormat[] = ['png', 'svg'];
+
+/** Media types generated as text; other types are binary and always encoded */
+const TEXT_MEDIA_TYPES = ['image/svg+xml', 'text/csv', 'text/plain', 'text/html', 'text/markdown', 'application/json', 'application/xml', 'text/xml'];
+
+/** Muted background colours for generated images */
+const PALETTE: Array<[number, number, number]> = [
+  [203, 213, 225], [191, 219, 254], [187, 247, 208], [254, 215, 170],
+  [254, 202, 202], [233, 213, 255], [253, 230, 138], [167, 243, 208]
+];
+
+/** Pixel size of images embedded as content, e.g. base64 PNGs */
+const CONTENT_IMAGE_SIZE = 16;
+
+/** Image sizes for URL properties, by property name word */
+const IMAGE_SIZES: Array<[RegExp, number, number]> = [
+  [/avatar|icon|logo|profile|photo/i, 128, 128],
+  [/thumb/i, 320, 180],
+  [/banner|cover|hero|header/i, 1200, 400]
+];
+
+const IMAGE_NAME = /avatar|image|img|photo|picture|thumb|logo|icon|banner|cover/i;
+
+let placeholderBaseUrl = 'http://localhost:3000';
+
+/**
+ * Sets the server URL that generated placeholder image URLs point at
+ *
+ * @param baseUrl - The mock server's URL, e.g. http://localhost:3000
+ */
+export function setPlaceholderBaseUrl(baseUrl: string): void {
+  placeholderBaseUrl = baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Gets the server URL that generated placeholder image URLs point at
+ */
+export function getPlaceholderBaseUrl(): string {
+  return placeholderBaseUrl;
+}
+
+/**
+ * Checks whether a property name suggests an image, e.g. `avatar` or `thumbnailUrl`
+ */
+export function isImageProperty(propertyName: string): boolean {
+  return IMAGE_NAME.test(propertyName) && !/ids?$/i.test(propertyName);
+}
+
+/**
+ * Builds a URL of a placeholder image on the mock server
+ *
+ * The size depends on the property name: square avatars and logos, wide
+ * thumbnails and banners, 640x480 otherwise.
+ *
+ * @param propertyName - The property the URL is generated for
+ * @param mediaType - The schema's `contentMediaType`; SVG gives an SVG image
+ * @returns An absolute URL such as http://localhost:3000/__schemock/placeholder/128x128.png
+ */
+export function placeholderUrl(propertyName?: string, mediaType?: string): string {
+  const [, width, height] = IMAGE_SIZES.find(([words]) => propertyName !== undefined && words.test(propertyName)) ?? [undefined, 640, 480];
+  const format = mediaType === 'image/svg+xml' ? 'svg' : 'png';
+  return `${placeholderBaseUrl}${PLACEHOLDER_ROUTE}/${width}x${height}.${format}`;
+}
+
+/**
+ * Generates content of a media type as a string
+ *
+ * Text media types (SVG, CSV, JSON, plain text, ...) are returned as is
+ * unless an encoding is set. Binary media types are base64-encoded without
+ * an encoding, since JSON strings can't hold raw bytes; types that can't be
+ * generated, such as image/jpeg, get random bytes.
+ *
+ * @param mediaType - The `contentMediaType`, e.g. image/png
+ * @param encoding - The `contentEncoding`: base64, base64url or base16
+ * @returns The encoded content
+ */
+export function generateContent(mediaType: string | undefined, encoding: string | undefined): string {
+  const type = (mediaType ?? 'application/octet-stream').split(';')[0].trim().toLowerCase();
+  const content = generateFile(type);
+  const isText = TEXT_MEDIA_TYPES.includes(type) || type.startsWith('text/') || type.endsWith('+json') || type.endsWith('+xml');
+
+  switch (encoding?.toLowerCase()) {
+    case 'base64':
+      return content.toString('base64');
+    case 'base64url':
+      return content.toString('base64url');
+    case 'base16':
+      return content.toString('hex');
+    default:
+      return isText ? content.toString('utf8') : content.toString('base64');
+  }
+}
+
+/**
+ * Renders a placeholder image of a size
+ *
+ * PNGs show a cross on a coloured background; SVGs also print the size.
+ *
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param format - png or svg
+ * @param options - Background colour as a hex code, and the SVG label (defaults to the size)
+ * @returns The image file
+ * @throws {ValidationError} When the size or colour is invalid
+ */
+export function renderPlaceholder(
+  width: number,
+  height: number,
+  format: PlaceholderFormat,
+  options: { background?: string; text?: string } = {}
+): Buffer {
+  for (const [field, value] of [['width', width], ['height', height]] as const) {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PLACEHOLDER_SIZE) {
+      throw new ValidationError(`Placeholder ${field} must be between 1 and ${MAX_PLACEHOLDER_SIZE}`, field, value,
+        'Request a size such as /__schemock/placeholder/200x200.png.');
+    }
+  }
+  const background = options.background !== undefined ? parseColor(options.background) : PALETTE[0];
+
+  if (format === 'svg') {
+    return Buffer.from(renderSvg(width, height, background, options.text ?? `${width}×${height}`));
+  }
+  return renderPng(width, height, background);
+}
+
+function generateFile(type: string): Buffer {
+  const background = PALETTE[randomInt(0, PALETTE.length - 1)];
+  switch (type) {
+    case 'image/png':
+      return renderPng(CONTENT_IMAGE_SIZE, CONTENT_IMAGE_SIZE, background);
+    case 'image/gif':
+      return renderGif(background);
+    case 'image/svg+xml':
+      return Buffer.from(renderSvg(CONTENT_IMAGE_SIZE * 4, CONTENT_IMAGE_SIZE * 4, background, ''));
+    case 'application/pdf':
+      return renderPdf(sentence());
+    case 'text/csv':
+      return Buffer.from(renderCsv());
+    case 'application/json':
+      return Buffer.from(JSON.stringify({ id: randomInt(1, 9999), title: sentence() }));
+    case 'text/html':
+      return Buffer.from(`<!DOCTYPE html><html><body><p>${sentence()}</p></body></html>`);
+    default:
+      if (type.startsWith('text/')) {
+        return Buffer.from(sentence());
+      }
+      return Buffer.from(Array.from({ length: randomInt(16, 64) }, () => randomInt(0, 255)));
+  }
+}
+
+function sentence(): string {
+  return String(generateFake('lorem.sentence'));
+}
+
+function renderCsv(): string {
+  const rows = ['id,name,quantity,price'];
+  const count = randomInt(3, 5);
+  for (let id = 1; id <= count; id++) {
+    rows.push(`${id},${String(generateFake('commerce.product'))},${randomInt(1, 20)},${String(generateFake('commerce.price'))}`);
+  }
+  return `${rows.join('\n')}\n`;
+}
+
+function renderSvg(width: number, height: number, [r, g, b]: [number, number, number], text: string): string {
+  const label = text
+    ? `<text x="50%" y="50%" font-family="sans-serif" font-size="${Math.max(8, Math.round(Math.min(width, height) / 8))}" fill="#475569" text-anchor="middle" dominant-baseline="middle">${escapeXml(text)}</text>`
+    : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="100%" height="100%" fill="rgb(${r},${g},${b})"/>${label}</svg>`;
+}
+
+/**
+ * Encodes an RGB image with a darker cross as a PNG
+ */
+function renderPng(width: number, height: number, [r, g, b]: [number, number, number]): Buffer {
+  const rowLength = 1 + width * 3;
+  const pixels = Buffer.alloc(rowLength * height);
+  const thickness = Math.max(1, Math.round(Math.min(width, height) / 100));
+  for (let y = 0; y < height; y++) {
+    // Each row starts with filter type 0 (none)
+    const row = y * rowLength;
+    for (let x = 0; x < width; x++) {
+      const onCross = Math.abs(x * height - y * width) < thickness * width ||
+        Math.abs((width - 1 - x) * height - y * width) < thickness * width;
+      const shade = onCross ? 0.8 : 1;
+      pixels[row + 1 + x * 3] = Math.round(r * shade);
+      pixels[row + 2 + x * 3] = Math.round(g * shade);
+      pixels[row + 3 + x * 3] = Math.round(b * shade);
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(pixels)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+let crcTable: number[] | undefined;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      return c >>> 0;
+    });
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encodes a single-colour 1x1 GIF
+ */
+function renderGif([r, g, b]: [number, number, number]): Buffer {
+  return Buffer.from([
+    ...Buffer.from('GIF89a', 'ascii'),
+    1, 0, 1, 0, 0x80, 0, 0, // 1x1, global colour table of 2 entries
+    r, g, b, 0, 0, 0,
+    0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0, // image descriptor
+    2, 2, 0x44, 0x01, 0, // LZW-coded pixel of colour 0
+    0x3b
+  ]);
+}
+
+/**
+ * Builds a one-page PDF with a line of text
+ */
+function renderPdf(text: string): Buffer {
+  const escaped = text.replace(/[\\()]/g, match => `\\${match}`);
+  const stream = `BT /F1 14 Tf 72 720 Td (${escaped}) Tj ET`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+function parseColor(color: string): [number, number, number] {
+  const hex = color.replace(/^#/, '');
+  const full = /^[0-9a-f]{3}$/i.test(hex) ? hex.replace(/./g, digit => digit + digit) : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) {
+    throw new ValidationError(`Invalid placeholder colour: ${color}`, 'background', color,
+      'Use a hex colour such as bg=e2e8f0 or bg=ccc.');
+  }
+  return [0, 2, 4].map(start => parseInt(full.slice(start, start + 2), 16)) as [number, number, number];
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
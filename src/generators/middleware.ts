@@ -11,19 +11,21 @@ export interface MiddlewareOptions {
 
 /**
  * Setup CORS middleware
+ * Pagination headers are exposed so browser clients can read them
  */
 export function setupCors(app: Application, enabled: boolean): void {
     if (enabled) {
-        app.use(cors());
+        app.use(cors({ exposedHeaders: ['Link', 'X-Total-Count'] }));
         log.debug('CORS enabled', { module: 'server' });
     }
 }
 
 /**
  * Setup JSON body parser with size limit
+ * Also parses +json media types such as JSON Patch and JSON Merge Patch
  */
 export function setupJsonParser(app: Application): void {
-    app.use(express.json({ limit: '10mb' }));
+    app.use(express.json({ limit: '10mb', type: ['application/json', 'application/*+json'] }));
 }
 
 /**
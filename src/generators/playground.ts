@@ -1,8 +1,51 @@
-import { RouteConfig } from '../types';
+import { RequestLocation, RouteConfig, Schema } from '../types';
 import { SchemaParser } from '../parsers/schema';
 
+const REQUEST_LABELS: Record<RequestLocation, string> = {
+  params: 'Path Parameters',
+  query: 'Query Parameters',
+  headers: 'Request Headers',
+  body: 'Request Body'
+};
+
+/**
+ * Generates an example value for a request schema, or undefined if it can't be generated
+ */
+function exampleFor(schema: Schema | undefined): unknown {
+  if (!schema) {
+    return undefined;
+  }
+  try {
+    return SchemaParser.parse(schema, schema, new Set(), true);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds an example query string such as "limit=10&tags=a,b" from a query schema
+ */
+function exampleQuery(schema: Schema | undefined): string {
+  const example = exampleFor(schema);
+  if (!example || typeof example !== 'object' || Array.isArray(example)) {
+    return '';
+  }
+  return Object.entries(example)
+    .filter(([, value]) => Array.isArray(value) || (value !== null && typeof value !== 'object'))
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(Array.isArray(value) ? value.join(',') : String(value))}`)
+    .join('&');
+}
+
 export function getPlaygroundHTML(routes: Record<string, RouteConfig>): string {
+  // Documents with several resources get a heading per resource
+  const resources = new Set(Object.values(routes).map(route => route.resource).filter(Boolean));
+  let previousResource: string | undefined;
+
   const routesList = Object.values(routes).map((route, index) => {
+    const heading = resources.size > 1 && route.resource && route.resource !== previousResource
+      ? `<h2 class="resource-heading">${route.resource}</h2>`
+      : '';
+    previousResource = route.resource ?? previousResource;
     const method = route.method.toUpperCase();
     const path = route.path;
     const id = `route-${index}`;
@@ -21,14 +64,31 @@ export function getPlaygroundHTML(routes: Record<string, RouteConfig>): string {
     }
     
     const hasBody = ['POST', 'PUT', 'PATCH'].includes(method);
+    const exampleBody = exampleFor(route.request?.body);
     const bodySection = hasBody ? `
       <div class="request-body-section">
         <h4>Request Body</h4>
-        <textarea id="${id}-request-body" class="request-body-input" placeholder='{"key": "value"}'>{}</textarea>
+        <textarea id="${id}-request-body" class="request-body-input" placeholder='{"key": "value"}'>${exampleBody !== undefined ? JSON.stringify(exampleBody, null, 2) : '{}'}</textarea>
       </div>
     ` : '';
+    const querySection = route.request?.query ? `
+      <div class="request-body-section">
+        <h4>Query String</h4>
+        <input id="${id}-query" class="request-query-input" value="${exampleQuery(route.request.query).replace(/"/g, '&quot;')}">
+      </div>
+    ` : '';
+
+    // Declared params, query, headers and body schemas
+    const requestSchemas = route.request
+      ? (Object.keys(REQUEST_LABELS) as RequestLocation[])
+        .filter(location => route.request?.[location])
+        .map(location => `
+            <h4>${REQUEST_LABELS[location]}</h4>
+            <pre class="schema-body">${JSON.stringify(route.request?.[location], null, 2)}</pre>`)
+        .join('')
+      : '';
     
-    return `
+    return `${heading}
       <div class="route-card" id="${id}">
         <div class="route-header" onclick="toggleRoute('${id}')">
           <span class="method method-${method.toLowerCase()}">${method}</span>
@@ -43,6 +103,7 @@ export function getPlaygroundHTML(routes: Record<string, RouteConfig>): string {
           </div>
           
           <div id="${id}-actions" class="tab-content active">
+            ${querySection}
             ${bodySection}
             <div class="actions">
               <button class="btn btn-primary" onclick="tryItOut('${path}', '${method.toLowerCase()}', '${id}')">Send Request</button>
@@ -57,7 +118,7 @@ export function getPlaygroundHTML(routes: Record<string, RouteConfig>): string {
             </div>
           </div>
 
-          <div id="${id}-schema" class="tab-content">
+          <div id="${id}-schema" class="tab-content">${requestSchemas}
             <h4>Response Schema</h4>
             <pre class="schema-body">${schemaStr}</pre>
           </div>
@@ -117,6 +178,11 @@ export function getPlaygroundHTML(routes: Record<string, RouteConfig>): string {
           margin-top: -5px;
           margin-bottom: 25px;
         }
+        .resource-heading {
+          font-size: 20px;
+          margin: 30px 0 12px;
+          color: var(--text-color);
+        }
         .route-card { 
           background: var(--card-bg); 
           border: 1px solid var(--border-color); 
@@ -222,7 +288,7 @@ export function getPlaygroundHTML(routes: Record<string, RouteConfig>): string {
         .request-body-section {
           margin-bottom: 15px;
         }
-        .request-body-input {
+        .request-body-input, .request-query-input {
           width: 100%;
           height: 100px;
           font-family: monospace;
@@ -231,6 +297,9 @@ export function getPlaygroundHTML(routes: Record<string, RouteConfig>): string {
           border-radius: 4px;
           box-sizing: border-box;
         }
+        .request-query-input {
+          height: auto;
+        }
         .response-header {
           display: flex;
           justify-content: space-between;
@@ -373,6 +442,11 @@ export function getPlaygroundHTML(routes: Record<string, RouteConfig>): string {
              url = url.replace(/\/:[^/]+/, '/123'); // Default to 123 for now
           }
 
+          const queryInput = card.querySelector('.request-query-input');
+          if (queryInput && queryInput.value) {
+            url += '?' + queryInput.value.replace(/^[?]/, '');
+          }
+
           const options = { method: method.toUpperCase() };
           
           if (['POST', 'PUT', 'PATCH'].includes(options.method)) {
@@ -0,0 +1,186 @@
+/**
+ * Request schemas for custom routes
+ *
+ * `x-schemock-routes` entries may declare `params`, `query`,
+ * `requestHeaders` and `requestBody` schemas. A RequestValidator checks all
+ * of them and reports every violation with where it was found. Path
+ * parameters, query values and headers arrive as strings, so they are
+ * coerced to the declared types first: `?limit=10&active=true&tags=a,b`
+ * becomes `{ limit: 10, active: true, tags: ['a', 'b'] }`.
+ */
+
+import { RequestLocation, RequestViolation, RouteRequestSchemas, Schema } from '../types';
+import { SchemaValidator, resolvePointer } from '../utils/schema-validator';
+
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'headers', 'body'];
+const NUMBER = /^-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+const MAX_REF_HOPS = 10;
+
+/** The parts of an incoming request */
+export interface RequestParts {
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+/** Result of checking a request */
+export interface CheckedRequest {
+  violations: RequestViolation[];
+  /** The query coerced to its schema, when the route declares one */
+  query?: Record<string, unknown>;
+}
+
+/**
+ * Validates requests against a route's request schemas
+ */
+export class RequestValidator {
+  private readonly schemas: RouteRequestSchemas;
+  private readonly rootSchema?: Schema;
+  private readonly validators: Partial<Record<RequestLocation, SchemaValidator>> = {};
+
+  /**
+   * @param schemas - Schemas for the request parts to check
+   * @param rootSchema - Root schema for $ref resolution
+   */
+  constructor(schemas: RouteRequestSchemas, rootSchema?: Schema) {
+    this.schemas = schemas;
+    this.rootSchema = rootSchema;
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (schema) {
+        this.validators[location] = new SchemaValidator(schema, rootSchema);
+      }
+    }
+  }
+
+  /**
+   * Coerces and checks every declared part of a request
+   *
+   * @param request - The request parts
+   * @returns The violations, and the coerced query
+   */
+  validate(request: RequestParts): CheckedRequest {
+    const { params, query, headers } = this.schemas;
+    const values: Record<RequestLocation, unknown> = {
+      params: coerceProperties(request.params ?? {}, params, this.rootSchema),
+      query: coerceProperties(request.query ?? {}, query, this.rootSchema),
+      headers: coerceProperties(pickHeaders(request.headers ?? {}, headers, this.rootSchema), headers, this.rootSchema),
+      body: request.body
+    };
+
+    const violations: RequestViolation[] = [];
+    for (const location of LOCATIONS) {
+      const validator = this.validators[location];
+      if (validator) {
+        violations.push(...validator.validate(values[location]).map(violation => ({ in: location, ...violation })));
+      }
+    }
+
+    return {
+      violations,
+      query: this.schemas.query ? values.query as Record<string, unknown> : undefined
+    };
+  }
+}
+
+/**
+ * Describes request violations in one line
+ *
+ * @param violations - The violations
+ * @returns Text such as "query/limit must be <= 100; body must have required property 'name'"
+ */
+export function describeRequestViolations(violations: RequestViolation[]): string {
+  return violations.map(violation => `${violation.in}${violation.instancePath} ${violation.message}`).join('; ');
+}
+
+/**
+ * Coerces string values to the types their property schemas declare
+ *
+ * @param values - Path parameters, query values or headers
+ * @param schema - The object schema describing them
+ * @param rootSchema - Root schema for $ref resolution (defaults to schema)
+ * @returns A copy with coerced values
+ */
+export function coerceProperties(values: Record<string, unknown>, schema?: Schema, rootSchema?: Schema): Record<string, unknown> {
+  const root = rootSchema ?? schema;
+  const resolved = resolveRefs(schema, root);
+  if (!resolved) {
+    return values;
+  }
+  const coerced: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(values)) {
+    const additional = typeof resolved.additionalProperties === 'object' ? resolved.additionalProperties : undefined;
+    coerced[name] = coerceValue(value, resolved.properties?.[name] ?? additional, root);
+  }
+  return coerced;
+}
+
+/**
+ * Coerces a string, or repeated strings, to a schema's type
+ *
+ * Numbers, booleans and `null` are parsed when the schema allows them, and
+ * arrays are split on commas. Values that don't parse are left as they are
+ * for the validator to reject.
+ */
+function coerceValue(value: unknown, propertySchema: Schema | undefined, rootSchema: Schema | undefined): unknown {
+  const schema = resolveRefs(propertySchema, rootSchema);
+  if (!schema) {
+    return value;
+  }
+  const types: string[] = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  const items = typeof schema.items === 'object' && !Array.isArray(schema.items) ? schema.items : undefined;
+
+  if (Array.isArray(value)) {
+    return types.includes('array') ? value.map(item => coerceValue(item, items, rootSchema)) : value;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+  if (types.includes('array')) {
+    return (value === '' ? [] : value.split(',')).map(item => coerceValue(item, items, rootSchema));
+  }
+  if ((types.includes('integer') || types.includes('number')) && NUMBER.test(value.trim())) {
+    return Number(value);
+  }
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (types.includes('null') && value === 'null') {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Picks the headers a schema declares, keyed by their declared names
+ *
+ * Other headers are left out, as every request carries headers that a
+ * schema with `additionalProperties: false` would otherwise reject.
+ */
+function pickHeaders(headers: Record<string, string | string[] | undefined>, headersSchema: Schema | undefined, rootSchema: Schema | undefined): Record<string, unknown> {
+  const schema = resolveRefs(headersSchema, rootSchema ?? headersSchema);
+  if (!schema) {
+    return {};
+  }
+  const picked: Record<string, unknown> = {};
+  for (const name of new Set([...Object.keys(schema.properties ?? {}), ...(schema.required ?? [])])) {
+    const value = headers[name.toLowerCase()];
+    if (value !== undefined) {
+      picked[name] = value;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Follows `$ref`s to the schema that declares the type
+ */
+function resolveRefs(schema: Schema | undefined, rootSchema: Schema | undefined): Schema | undefined {
+  let resolved = schema;
+  for (let hop = 0; hop < MAX_REF_HOPS && resolved && typeof resolved.$ref === 'string' && rootSchema; hop++) {
+    const target = resolvePointer(resolved.$ref, rootSchema);
+    resolved = typeof target === 'object' ? target : undefined;
+  }
+  return resolved;
+}
@@ -2,6 +2,9 @@ import express, { Application, Request, Response, NextFunction } from 'express';
 import { RouteConfig, MockServerConfig } from '../types';
 import { log } from '../utils/logger';
 import { getPlaygroundHTML } from './playground';
+import { PlaceholderFormat, PLACEHOLDER_FORMATS, renderPlaceholder } from './media';
+import { PLACEHOLDER_ROUTE } from '../utils/constants';
+import { ValidationError } from '../errors';
 
 export interface RouteSetupOptions {
     routes: Record<string, RouteConfig>;
@@ -144,6 +147,41 @@ export function setupFaviconRoute(app: Application): void {
     });
 }
 
+/**
+ * Setup placeholder image endpoint
+ * Serves images such as /__schemock/placeholder/200x200.png for generated
+ * image URLs, with optional ?bg=e2e8f0 colour and ?text= label (SVG only)
+ */
+export function setupPlaceholderRoute(app: Application): void {
+    app.get(`${PLACEHOLDER_ROUTE}/:file`, (req: Request, res: Response) => {
+        const match = /^(\d+)x(\d+)\.(\w+)$/.exec(String(req.params.file));
+        if (!match || !PLACEHOLDER_FORMATS.includes(match[3] as PlaceholderFormat)) {
+            res.status(400).json({
+                error: 'Bad Request',
+                message: `Expected ${PLACEHOLDER_ROUTE}/<width>x<height>.<${PLACEHOLDER_FORMATS.join('|')}>`
+            });
+            return;
+        }
+
+        const format = match[3] as PlaceholderFormat;
+        try {
+            const image = renderPlaceholder(Number(match[1]), Number(match[2]), format, {
+                background: typeof req.query.bg === 'string' ? req.query.bg : undefined,
+                text: typeof req.query.text === 'string' ? req.query.text : undefined
+            });
+            res.type(format === 'svg' ? 'image/svg+xml' : 'image/png');
+            res.set('Cache-Control', 'public, max-age=86400');
+            res.send(image);
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                res.status(400).json({ error: 'Bad Request', message: error.message });
+                return;
+            }
+            throw error;
+        }
+    });
+}
+
 /**
  * Setup 404 handler
  */
@@ -171,5 +209,6 @@ export function setupSystemRoutes(app: Application, config: MockServerConfig, ve
     setupShareRoute(app, config, version);
     setupGalleryRoute(app, version);
     setupFaviconRoute(app);
+    setupPlaceholderRoute(app);
     setupNotFoundRoute(app);
 }
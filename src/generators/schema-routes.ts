@@ -1,10 +1,25 @@
 import { v4 as uuidv4 } from 'uuid';
 import { SchemaParser } from '../parsers/schema';
+import { findRecordProperties } from '../parsers/schema-plan';
 import { WorldState, detectForeignKey, isIdField } from './world-state';
 import { enrichField, isSemanticField } from './field-enricher';
+import { UniqueIndex, findUniqueProperties } from './unique';
+import { negotiateLocale } from '../locales';
+import { PatchError, SchemaRefError } from '../errors';
+import { applyJsonPatch, applyMergePatch, JSON_PATCH_MEDIA_TYPE } from '../utils/json-patch';
+import { getValidator, describeViolations, resolvePointer } from '../utils/schema-validator';
+import { smartPluralize } from '../utils/pluralization';
+import { formatLinkHeader, queryCollection, resolveQueryDialect } from './collection-query';
+import { shapeResponse } from './embedding';
+import { coerceProperties } from './request-schemas';
 import {
+    HandlerRouteDefinition,
+    NestedRouteSpec,
+    QueryDialect,
     RouteConfig,
+    RouteDefinition,
     RouteRequest,
+    RouteRequestSchemas,
     ServerState,
     JSONValue,
     NonNullJSONValue,
@@ -14,8 +29,23 @@ import {
 // ServerState reserved key for world-state instance
 const WORLD_KEY = '_world' as keyof ServerState;
 
+/** Fields the CRUD handlers add to every stored item */
+const RECORD_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+/** Root keywords that make a schema describe one resource, whose `$defs` are only helpers */
+const SINGLE_RESOURCE_KEYWORDS = ['type', 'properties', '$ref', 'allOf', 'anyOf', 'oneOf', 'x-schemock-routes'];
+
 type WorldStateStore = Record<string, unknown>;
 
+/** Creates the handler for a generated route */
+type HandlerFactory = (method: string, path: string, routeDef: HandlerRouteDefinition) => (req: RouteRequest, state: ServerState) => JSONValue;
+
+/** The parent a nested route is scoped to: the foreign key, and the ID from the path */
+interface ParentScope {
+    field: string;
+    id: JSONValue;
+}
+
 /**
  * Lazily get or create the WorldState from a ServerState.
  * Stored on a reserved key so it persists across handler calls.
@@ -29,10 +59,10 @@ function getWorld(state: ServerState): WorldState {
 }
 
 /**
- * Given a resource name (e.g. "users", "blog_posts") and a schema,
- * determines the appropriate resource key for the world state pool.
+ * Given a resource name (e.g. "users", "blog_posts"), determines the
+ * singular prefix for generated IDs such as "user-1".
  *
- * "users" → "users", "userProfiles" → "users", "blogpost" → "blogposts"
+ * "users" → "user", "blog_posts" → "blogpost"
  */
 function worldResourceKey(resource: string): string {
     const r = resource.toLowerCase().replace(/[_-]/g, '');
@@ -44,18 +74,21 @@ function worldResourceKey(resource: string): string {
  * Wraps an entity with WorldState FK resolution and registration.
  *
  * 1. Detects and resolves FK fields (authorId, userId, etc.) to real IDs
- *    from the world state's entity pools
+ *    from the world state's entity pools. FKs that already point at a
+ *    stored entity, and fields the client set, are kept.
  * 2. Registers the entity so subsequent FK references can find it
  *
  * @param entity   The entity to process
  * @param resource The resource name (for world state pool key)
  * @param world    The WorldState instance
+ * @param keep     Fields to keep as they are, e.g. those in a request body
  * @returns The resolved entity with real FK IDs
  */
 function resolveAndRegister(
     entity: JSONValue,
     resource: string,
-    world: WorldState
+    world: WorldState,
+    keep: string[] = []
 ): NonNullJSONValue {
     if (!entity || typeof entity !== 'object' || Array.isArray(entity)) {
         // Shouldn't happen for the call sites (objects only), but satisfy the type system
@@ -67,9 +100,9 @@ function resolveAndRegister(
 
     // Step 1: resolve FK fields → real IDs from the world
     for (const [key, value] of Object.entries(resolved)) {
-        if (isIdField(key) && typeof value === 'string') {
+        if (isIdField(key) && typeof value === 'string' && !keep.includes(key)) {
             const ref = detectForeignKey(key);
-            if (ref && world.hasEntities(ref)) {
+            if (ref && world.hasEntities(ref) && world.getById(ref, value) === null) {
                 const realEntity = world.getRandomEntity(ref);
                 if (realEntity && typeof realEntity === 'object' && 'id' in realEntity) {
                     resolved[key] = String((realEntity as Record<string, JSONValue>).id);
@@ -79,7 +112,7 @@ function resolveAndRegister(
     }
 
     // Step 2: register so future FK references can find this entity
-    world.register(worldResourceKey(resource), resolved);
+    world.register(resource, resolved);
 
     return resolved as NonNullJSONValue;
 }
@@ -125,6 +158,16 @@ function isSchemaResponse(response: JSONValue | Schema): response is Schema {
             'anyOf' in response || 'allOf' in response);
 }
 
+/**
+ * Determines the stored resource of a route from its first path segment after /api
+ *
+ * @param routePath - The route path, e.g. /api/users/:id
+ * @returns The resource name, e.g. "users"
+ */
+function resourceFromPath(routePath: string): string {
+    return routePath.split('/').filter(p => p && p !== 'api')[0] || 'data';
+}
+
 /**
  * Initializes the resource state array if it doesn't exist
  *
@@ -140,13 +183,16 @@ function initializeResourceState(state: ServerState, resource: string): void {
 /**
  * Handles GET request for a single item by ID
  *
+ * `fields` and `include` in the query shape the item (see embedding.ts).
+ *
  * @param state - The server state containing stored resources
  * @param resource - The resource name to retrieve from
- * @param req - The route request object containing params
+ * @param req - The route request object containing params and query
  * @param responseSchema - The schema for generating mock data
  * @param mainSchema - The main schema for reference
  * @param options - Options including strict mode flag
  * @param wrap - Whether to wrap the response in a success envelope
+ * @param uniqueProperties - Properties whose values must differ from stored items
  * @returns The requested item or a generated mock item
  */
 function handleGetById(
@@ -155,10 +201,18 @@ function handleGetById(
     req: RouteRequest,
     responseSchema: Schema,
     mainSchema: Schema,
-    options: { strict?: boolean },
-    wrap: boolean
+    options: { strict?: boolean; queryDialect?: Partial<QueryDialect> },
+    wrap: boolean,
+    uniqueProperties: Array<[string, Schema]>
 ): JSONValue {
     const world = getWorld(state);
+    const shape = (data: JSONValue) => {
+        const shaped = shapeResponse(data, req.query ?? {}, resource, world, resolveQueryDialect(options.queryDialect));
+        if (shaped !== data) {
+            req.unshapedData = data;
+        }
+        return shaped;
+    };
 
     const item = state[resource].find((i: JSONValue) =>
         typeof i === 'object' && i !== null && 'id' in i && i.id === req.params?.id
@@ -169,8 +223,8 @@ function handleGetById(
             success: true,
             message: 'Mock data retrieved',
             timestamp: new Date().toISOString(),
-            data: item
-        } : item;
+            data: shape(item)
+        } : shape(item);
     }
 
     // Fallback: generate, tie to ID, store, and register with world
@@ -180,6 +234,7 @@ function handleGetById(
         if (req.params?.id) {
             dataObj.id = req.params.id;
         }
+        new UniqueIndex(uniqueProperties, state[resource]).makeUnique(dataObj, mainSchema, options.strict);
         // Resolve FKs and register with world state
         const resolved = resolveAndRegister(dataObj, resource, world);
         state[resource].push(resolved);
@@ -190,8 +245,8 @@ function handleGetById(
         success: true,
         message: 'Mock data generated',
         timestamp: new Date().toISOString(),
-        data
-    } : data;
+        data: shape(data)
+    } : shape(data);
 }
 
 /**
@@ -239,23 +294,35 @@ function backgroundEnrichRecords(
 /**
  * Handles GET request for a collection of items
  *
+ * The query string filters, searches, sorts and paginates the stored items
+ * (see collection-query.ts), then `fields` and `include` shape each one
+ * (see embedding.ts). The total is sent as X-Total-Count, and paginated
+ * responses carry a Link header. Nested routes only see the parent's items.
+ *
  * @param state - The server state containing stored resources
  * @param resource - The resource name to retrieve from
+ * @param req - The route request object containing the query
  * @param responseSchema - The schema for generating mock data
  * @param mainSchema - The main schema for reference
- * @param options - Options including strict mode flag
+ * @param options - Options including strict mode flag and query dialect
  * @param wrap - Whether to wrap the response in a success envelope
+ * @param uniqueProperties - Properties whose values must differ between items
+ * @param parent - The parent of a nested route, e.g. the post of /api/posts/:postId/comments
  * @returns The collection of items with optional metadata
  */
 function handleGetCollection(
     state: ServerState,
     resource: string,
+    req: RouteRequest,
     responseSchema: Schema,
     mainSchema: Schema,
-    options: { strict?: boolean },
-    wrap: boolean
+    options: { strict?: boolean; queryDialect?: Partial<QueryDialect> },
+    wrap: boolean,
+    uniqueProperties: Array<[string, Schema]>,
+    parent?: ParentScope
 ): JSONValue {
     const world = getWorld(state);
+    const unique = new UniqueIndex(uniqueProperties);
 
     // Return list from state
     if (state[resource].length === 0) {
@@ -263,7 +330,7 @@ function handleGetCollection(
         const generated = SchemaParser.parse(responseSchema, mainSchema, new Set(), options.strict, resource);
         if (Array.isArray(generated)) {
             state[resource] = generated.map(item =>
-                resolveAndRegister(item, resource, world)
+                resolveAndRegister(unique.makeUnique(item, mainSchema, options.strict), resource, world)
             );
         } else {
             for (let i = 0; i < 3; i++) {
@@ -273,6 +340,7 @@ function handleGetCollection(
                     if (!itemObj.id) {
                         itemObj.id = `${worldResourceKey(resource)}-${i + 1}`;
                     }
+                    unique.makeUnique(itemObj, mainSchema, options.strict);
                     const resolved = resolveAndRegister(itemObj, resource, world);
                     state[resource].push(resolved);
                 }
@@ -284,13 +352,33 @@ function handleGetCollection(
     // The next GET request will return enriched (AI-generated) values
     backgroundEnrichRecords(state, resource, mainSchema);
 
+    const dialect = resolveQueryDialect(options.queryDialect);
+    const stored = parent
+        ? state[resource].filter(item => typeof item === 'object' && item !== null && !Array.isArray(item) &&
+            item[parent.field] !== undefined && String(item[parent.field]) === String(parent.id))
+        : state[resource];
+    // Only declared fields are filtered on, so unknown parameters don't empty the list
+    const properties = new Set([...RECORD_FIELDS, ...findRecordProperties(responseSchema, mainSchema).map(([name]) => name)]);
+    const page = queryCollection(stored, req.query ?? {}, req.path ?? '', dialect, properties);
+    const items = shapeResponse(page.items, req.query ?? {}, resource, world, dialect);
+    if (items !== page.items) {
+        req.unshapedData = page.items;
+    }
+    const link = formatLinkHeader(page.links);
+    if (req.responseHeaders) {
+        req.responseHeaders['X-Total-Count'] = String(page.meta.total);
+        if (link) {
+            req.responseHeaders.Link = link;
+        }
+    }
+
     return wrap ? {
         success: true,
         message: 'Mock data retrieved',
         timestamp: new Date().toISOString(),
-        data: state[resource],
-        meta: { total: state[resource].length }
-    } : state[resource];
+        data: items,
+        meta: page.meta
+    } : items;
 }
 
 /**
@@ -300,13 +388,16 @@ function handleGetCollection(
  * @param resource - The resource name to add to
  * @param req - The route request object containing the body
  * @param wrap - Whether to wrap the response in a success envelope
+ * @param uniqueProperties - Properties whose values must differ from stored items
  * @returns The created item with generated ID and timestamps
+ * @throws {ConflictError} When a unique property value is already taken
  */
 function handlePost(
     state: ServerState,
     resource: string,
     req: RouteRequest,
-    wrap: boolean
+    wrap: boolean,
+    uniqueProperties: Array<[string, Schema]>
 ): JSONValue {
     const world = getWorld(state);
     const bodyObj = typeof req.body === 'object' && req.body !== null ? req.body as Record<string, unknown> : {};
@@ -317,9 +408,10 @@ function handlePost(
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
     };
+    new UniqueIndex(uniqueProperties, state[resource]).claim(newItem, resource);
 
     // Resolve FKs and register with world state
-    const resolved = resolveAndRegister(newItem, resource, world);
+    const resolved = resolveAndRegister(newItem, resource, world, Object.keys(bodyObj));
     state[resource].push(resolved);
 
     return wrap ? { success: true, data: resolved, message: 'Created successfully' } : resolved;
@@ -332,13 +424,16 @@ function handlePost(
  * @param resource - The resource name to update in
  * @param req - The route request object containing params and body
  * @param wrap - Whether to wrap the response in a success envelope
+ * @param uniqueProperties - Properties whose values must differ from the other stored items
  * @returns The updated item
+ * @throws {ConflictError} When a unique property value is taken by another item
  */
 function handlePut(
     state: ServerState,
     resource: string,
     req: RouteRequest,
-    wrap: boolean
+    wrap: boolean,
+    uniqueProperties: Array<[string, Schema]>
 ): JSONValue {
     const world = getWorld(state);
     const index = state[resource].findIndex((i: JSONValue) =>
@@ -356,9 +451,88 @@ function handlePut(
         id: req.params?.id || '',
         updatedAt: new Date().toISOString()
     };
+    const others = state[resource].filter(item => item !== existingItem);
+    new UniqueIndex(uniqueProperties, others).claim(updatedItem, resource);
 
     // Resolve FKs and register with world state
-    const resolved = resolveAndRegister(updatedItem, resource, world);
+    const resolved = resolveAndRegister(updatedItem, resource, world, Object.keys(bodyObj));
+
+    if (index >= 0) {
+        state[resource][index] = resolved;
+    } else {
+        state[resource].push(resolved);
+    }
+
+    return wrap ? { success: true, data: resolved } : resolved;
+}
+
+/**
+ * Handles PATCH request to partially update an item
+ *
+ * Bodies sent as `application/json-patch+json` are applied as JSON Patch
+ * (RFC 6902); any other JSON body is a JSON Merge Patch (RFC 7396). Like
+ * GET, a missing item is generated first, so every ID can be patched.
+ *
+ * @param state - The server state containing stored resources
+ * @param resource - The resource name to update in
+ * @param req - The route request object containing params, headers and body
+ * @param responseSchema - The schema for generating missing items and, in strict mode, checking the result
+ * @param mainSchema - The main schema for reference
+ * @param options - Options including strict mode flag
+ * @param wrap - Whether to wrap the response in a success envelope
+ * @param uniqueProperties - Properties whose values must differ from the other stored items
+ * @returns The patched item
+ * @throws {ValidationError} When a JSON Patch is malformed
+ * @throws {PatchError} When an operation can't be applied, or the result breaks the schema in strict mode
+ * @throws {ConflictError} When a unique property value is taken by another item
+ */
+function handlePatch(
+    state: ServerState,
+    resource: string,
+    req: RouteRequest,
+    responseSchema: Schema,
+    mainSchema: Schema,
+    options: { strict?: boolean },
+    wrap: boolean,
+    uniqueProperties: Array<[string, Schema]>
+): JSONValue {
+    const world = getWorld(state);
+    const index = state[resource].findIndex((i: JSONValue) =>
+        typeof i === 'object' && i !== null && 'id' in i && i.id === req.params?.id
+    );
+
+    const existingItem = index >= 0
+        ? state[resource][index]
+        : SchemaParser.parse(responseSchema, mainSchema, new Set(), options.strict, resource);
+    const contentType = String(req.headers?.['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    const patched = contentType === JSON_PATCH_MEDIA_TYPE
+        ? applyJsonPatch(existingItem, req.body)
+        : applyMergePatch(existingItem, (req.body ?? {}) as JSONValue);
+
+    if (typeof patched !== 'object' || patched === null || Array.isArray(patched)) {
+        throw new PatchError('The patched record must be an object', '');
+    }
+    const updatedItem: Record<string, JSONValue> = {
+        ...patched,
+        id: req.params?.id || '',
+        updatedAt: new Date().toISOString()
+    };
+
+    if (options.strict) {
+        const violations = getValidator(responseSchema, mainSchema).validate(updatedItem);
+        if (violations.length > 0) {
+            throw new PatchError(`The patched record does not match the schema: ${describeViolations(violations)}`, '', undefined,
+                'Patch only the fields you mean to change, with values the schema allows.', violations);
+        }
+    }
+
+    const others = state[resource].filter((_, i) => i !== index);
+    new UniqueIndex(uniqueProperties, others).claim(updatedItem, resource);
+
+    // Resolve FKs and re-register with world state, keeping the patched fields
+    const previous = typeof existingItem === 'object' && existingItem !== null && !Array.isArray(existingItem) ? existingItem : {};
+    const patchedFields = Object.keys(updatedItem).filter(key => updatedItem[key] !== previous[key]);
+    const resolved = resolveAndRegister(updatedItem, resource, world, patchedFields);
 
     if (index >= 0) {
         state[resource][index] = resolved;
@@ -387,6 +561,10 @@ function handleDelete(
     state[resource] = state[resource].filter((i: JSONValue) =>
         typeof i === 'object' && i !== null && 'id' in i && i.id !== req.params?.id
     );
+    // Deleted items are no longer embedded or picked for foreign keys
+    if (req.params?.id) {
+        getWorld(state).remove(resource, req.params.id);
+    }
 
     return wrap ? { success: true, message: 'Deleted successfully' } : { message: 'Deleted successfully' };
 }
@@ -394,9 +572,13 @@ function handleDelete(
 /**
  * Creates a route handler function for a specific method and path
  *
+ * The stored resource is the first path segment after /api, unless the
+ * route definition names it. Nested routes scope GETs to the parent from
+ * the path and assign its ID to the items they create.
+ *
  * @param method - The HTTP method (get, post, put, delete, patch)
  * @param routePath - The route path
- * @param routeDef - The route definition containing response schema
+ * @param routeDef - The route definition containing response schema, and resource and parent for nested routes
  * @param mainSchema - The main schema for reference
  * @param options - Options including strict mode flag
  * @param wrap - Whether to wrap responses in a success envelope
@@ -405,27 +587,35 @@ function handleDelete(
 export function createRouteHandler(
     method: string,
     routePath: string,
-    routeDef: { response?: JSONValue | Schema },
+    routeDef: HandlerRouteDefinition,
     mainSchema: Schema,
-    options: { strict?: boolean },
+    options: { strict?: boolean; locale?: string; queryDialect?: Partial<QueryDialect> },
     wrap: boolean = true
 ): (req: RouteRequest, state: ServerState) => JSONValue {
-    return (req: RouteRequest, state: ServerState): JSONValue => {
-        const parts = routePath.split('/').filter(p => p && p !== 'api');
-        const resource = parts[0] || 'data';
+    const handle = (req: RouteRequest, state: ServerState): JSONValue => {
+        const resource = routeDef.resource || resourceFromPath(routePath);
 
         initializeResourceState(state, resource);
 
         const isResponseSchema = routeDef.response !== undefined && isSchemaResponse(routeDef.response);
         const responseSchema: Schema = (isResponseSchema && routeDef.response) ? routeDef.response as Schema : mainSchema;
+        const uniqueProperties = findUniqueProperties(responseSchema, mainSchema);
+
+        const parentId = routeDef.parent ? req.params?.[routeDef.parent.param] : undefined;
+        let parent: ParentScope | undefined;
+        if (routeDef.parent && parentId !== undefined) {
+            // Integer foreign keys stay integers
+            const { field } = routeDef.parent;
+            parent = { field, id: coerceProperties({ [field]: parentId }, responseSchema, mainSchema)[field] as JSONValue };
+        }
 
         if (method === 'get') {
             if (routePath.endsWith('/:id')) {
-                return handleGetById(state, resource, req, responseSchema, mainSchema, options, wrap);
+                return handleGetById(state, resource, req, responseSchema, mainSchema, options, wrap, uniqueProperties);
             } else {
                 // Collection GET logic - only if it's a default route (wrap=true) or explicitly a schema array
                 if (wrap || (isResponseSchema && responseSchema.type === 'array')) {
-                    return handleGetCollection(state, resource, responseSchema, mainSchema, options, wrap);
+                    return handleGetCollection(state, resource, req, responseSchema, mainSchema, options, wrap, uniqueProperties, parent);
                 } else {
                     // Static or non-wrapped GET
                     if (isResponseSchema) {
@@ -437,11 +627,17 @@ export function createRouteHandler(
         }
 
         if (method === 'post') {
-            return handlePost(state, resource, req, wrap);
+            const body = typeof req.body === 'object' && req.body !== null && !Array.isArray(req.body) ? req.body : {};
+            const created = parent ? { ...req, body: { ...body, [parent.field]: parent.id } } : req;
+            return handlePost(state, resource, created, wrap, uniqueProperties);
         }
 
         if (method === 'put' && routePath.endsWith('/:id')) {
-            return handlePut(state, resource, req, wrap);
+            return handlePut(state, resource, req, wrap, uniqueProperties);
+        }
+
+        if (method === 'patch' && routePath.endsWith('/:id')) {
+            return handlePatch(state, resource, req, responseSchema, mainSchema, options, wrap, uniqueProperties);
         }
 
         if (method === 'delete' && routePath.endsWith('/:id')) {
@@ -454,6 +650,12 @@ export function createRouteHandler(
         }
         return (routeDef.response as JSONValue) || SchemaParser.parse(mainSchema, undefined, new Set(), options.strict, resource);
     };
+
+    // Accept-Language picks the locale per request, falling back to the server locale
+    return (req: RouteRequest, state: ServerState): JSONValue => {
+        const locale = negotiateLocale(req.headers?.['accept-language']) ?? options.locale;
+        return SchemaParser.withLocale(locale, () => handle(req, state));
+    };
 }
 
 /**
@@ -465,7 +667,7 @@ export function createRouteHandler(
  */
 export function generateCustomRoutes(
     schema: Schema,
-    createHandler: (method: string, path: string, routeDef: { response?: JSONValue | Schema }) => (req: RouteRequest, state: ServerState) => JSONValue
+    createHandler: HandlerFactory
 ): Record<string, RouteConfig> {
     const routes: Record<string, RouteConfig> = {};
 
@@ -473,13 +675,9 @@ export function generateCustomRoutes(
         return routes;
     }
 
-    schema['x-schemock-routes'].forEach((routeDef: {
-        path: string;
+    schema['x-schemock-routes'].forEach((routeDef: Omit<RouteDefinition, 'method' | 'response'> & {
         method: string;
         response?: JSONValue | Schema;
-        statusCode?: number;
-        delay?: number;
-        headers?: Record<string, string>
     }) => {
         const method = routeDef.method.toLowerCase();
         const path = routeDef.path;
@@ -492,20 +690,43 @@ export function generateCustomRoutes(
             delay: routeDef.delay || 0,
             headers: routeDef.headers || {},
             response: createHandler(method, path, routeDef),
-            schema: routeDef.response && typeof routeDef.response === 'object' && 'type' in routeDef.response
-                ? routeDef.response as Schema
-                : undefined
+            schema: routeDef.response !== undefined && isSchemaResponse(routeDef.response) ? routeDef.response : undefined,
+            request: collectRequestSchemas(routeDef)
         };
     });
 
     return routes;
 }
 
+/**
+ * Collects a custom route's request schemas
+ *
+ * @param routeDef - The x-schemock-routes entry
+ * @returns The schemas by request part, or undefined when none are declared
+ */
+function collectRequestSchemas(routeDef: Pick<RouteDefinition, 'params' | 'query' | 'requestHeaders' | 'requestBody'>): RouteRequestSchemas | undefined {
+    const request: RouteRequestSchemas = {};
+    if (routeDef.params) {
+        request.params = routeDef.params;
+    }
+    if (routeDef.query) {
+        request.query = routeDef.query;
+    }
+    if (routeDef.requestHeaders) {
+        request.headers = routeDef.requestHeaders;
+    }
+    if (routeDef.requestBody) {
+        request.body = routeDef.requestBody;
+    }
+    return Object.keys(request).length > 0 ? request : undefined;
+}
+
 /**
  * Generates default CRUD routes for a resource
  *
- * Creates GET (collection), GET (by ID), POST, PUT, and DELETE routes
- * for the specified base path.
+ * Creates GET (collection), GET (by ID), POST, PUT, PATCH, and DELETE routes
+ * for the specified base path, plus nested GET and POST routes under the
+ * resources its foreign keys point at.
  *
  * @param basePath - The base path for the resource (e.g., /api/users)
  * @param schema - The JSON Schema for the resource
@@ -515,7 +736,7 @@ export function generateCustomRoutes(
 export function generateCrudRoutes(
     basePath: string,
     schema: Schema,
-    createHandler: (method: string, path: string, routeDef: { response?: JSONValue | Schema }) => (req: RouteRequest, state: ServerState) => JSONValue
+    createHandler: HandlerFactory
 ): Record<string, RouteConfig> {
     const routes: Record<string, RouteConfig> = {};
 
@@ -524,6 +745,7 @@ export function generateCrudRoutes(
         { method: 'get', path: `${basePath}/:id` },
         { method: 'post', path: basePath },
         { method: 'put', path: `${basePath}/:id` },
+        { method: 'patch', path: `${basePath}/:id` },
         { method: 'delete', path: `${basePath}/:id` }
     ];
 
@@ -534,9 +756,148 @@ export function generateCrudRoutes(
             method: method as 'get' | 'post' | 'put' | 'delete' | 'patch',
             statusCode: method === 'post' ? 201 : (method === 'delete' ? 204 : 200),
             response: createHandler(method, path, { response: schema }),
-            schema: schema
+            schema: schema,
+            resource: resourceFromPath(basePath),
+            ...(method === 'get' && path === basePath ? { collection: true } : {})
         };
     });
 
+    return { ...routes, ...generateNestedRoutes(basePath, schema, createHandler) };
+}
+
+/**
+ * Generates nested routes from a resource's foreign keys
+ *
+ * A `postId` property on comments gives GET /api/posts/:postId/comments,
+ * listing the post's comments, and POST to the same path, creating a
+ * comment with that `postId`. `x-schemock-nested` on the property picks
+ * the parent resource, path or methods, or turns the routes off with
+ * `false`; on the root schema, `false` turns off all nested routes.
+ *
+ * @param basePath - The base path for the resource (e.g., /api/comments)
+ * @param schema - The JSON Schema for the resource
+ * @param createHandler - Factory function to create route handlers
+ * @returns A record of route configurations keyed by method:path
+ */
+export function generateNestedRoutes(
+    basePath: string,
+    schema: Schema,
+    createHandler: HandlerFactory
+): Record<string, RouteConfig> {
+    const routes: Record<string, RouteConfig> = {};
+    if (schema['x-schemock-nested'] === false) {
+        return routes;
+    }
+
+    const resource = resourceFromPath(basePath);
+    const prefix = basePath.slice(0, basePath.lastIndexOf('/'));
+    const collection = basePath.slice(basePath.lastIndexOf('/') + 1);
+    const seen = new Set<string>();
+
+    for (const [field, property] of Object.entries(schema.properties ?? {})) {
+        const setting = property?.['x-schemock-nested'];
+        const spec: NestedRouteSpec = typeof setting === 'object' && setting !== null ? setting : {};
+        const parentResource = spec.parent ?? detectForeignKey(field);
+        if (setting === false || !parentResource || (setting === undefined && !isIdField(field))) {
+            continue;
+        }
+
+        const param = /id$/i.test(field) ? field : `${field}Id`;
+        const path = spec.path ?? `${prefix}/${parentResource}/:${param}/${collection}`;
+        // Two foreign keys to the same parent (senderId, recipientId) would share a path; the first wins
+        const shape = path.replace(/:[^/]+/g, ':');
+        if (seen.has(shape)) {
+            continue;
+        }
+        seen.add(shape);
+
+        // The parent ID comes from the path, so the body doesn't need it
+        const nestedSchema: Schema = schema.required?.includes(field)
+            ? { ...schema, required: schema.required.filter(name => name !== field) }
+            : schema;
+        for (const method of spec.methods ?? ['get', 'post']) {
+            routes[`${method}:${path}`] = {
+                path,
+                method,
+                statusCode: method === 'post' ? 201 : 200,
+                response: createHandler(method, path, { response: schema, resource, parent: { param, field } }),
+                schema: nestedSchema,
+                resource,
+                ...(method === 'get' ? { collection: true } : {})
+            };
+        }
+    }
+
     return routes;
 }
+
+/**
+ * Finds the resources of a multi-resource schema document
+ *
+ * `x-schemock-resources` maps resource names to schemas (usually `$ref`s
+ * into `$defs`). Without it, a root schema with no `type`, `properties`,
+ * `$ref`, `allOf`, `anyOf`, `oneOf` or custom routes gets one resource per
+ * object schema in `$defs` or `definitions`, named by pluralizing the title
+ * or key: `User` → `users`. Any of those keywords makes the `$defs` helpers
+ * of a single resource.
+ *
+ * Each resource schema carries the root's `$defs` and `definitions`, so
+ * its `$ref`s resolve on their own, e.g. in the playground.
+ *
+ * @param schema - The root schema
+ * @returns The resources in declaration order, or undefined when the schema describes a single resource
+ */
+export function collectResources(schema: Schema): Array<{ name: string; schema: Schema }> | undefined {
+    const definitions = { ...schema.definitions, ...schema.$defs };
+    let entries: Array<[string, Schema]>;
+
+    const declared = schema['x-schemock-resources'];
+    if (declared && typeof declared === 'object') {
+        entries = Object.entries(declared).map(([name, resourceSchema]) => {
+            const target = typeof resourceSchema?.$ref === 'string' ? resolvePointer(resourceSchema.$ref, schema) : resourceSchema;
+            if (typeof target !== 'object' || target === null) {
+                throw new SchemaRefError(`Cannot resolve x-schemock-resources.${name}: ${String(resourceSchema?.$ref)}`, String(resourceSchema?.$ref));
+            }
+            return [name, target as Schema];
+        });
+    } else if (!SINGLE_RESOURCE_KEYWORDS.some(keyword => schema[keyword] !== undefined)) {
+        entries = Object.entries(definitions)
+            .filter(([, definition]) => definition && (definition.type === 'object' || definition.properties !== undefined))
+            .map(([key, definition]) => [smartPluralize(definition.title ?? key), definition]);
+    } else {
+        return undefined;
+    }
+
+    if (entries.length === 0) {
+        return undefined;
+    }
+    return entries.map(([name, resourceSchema]) => ({
+        name,
+        schema: {
+            ...resourceSchema,
+            ...(schema.$defs ? { $defs: { ...schema.$defs, ...resourceSchema.$defs } } : {}),
+            ...(schema.definitions ? { definitions: { ...schema.definitions, ...resourceSchema.definitions } } : {})
+        }
+    }));
+}
+
+/**
+ * Generates CRUD and nested routes for every resource of a schema document
+ *
+ * All resources are served by one server, so they share its ServerState
+ * and WorldState, and foreign keys such as `authorId` resolve to stored
+ * users.
+ *
+ * @param resources - The resources, from collectResources
+ * @param createHandler - Factory function to create route handlers
+ * @returns A record of route configurations keyed by method:path
+ */
+export function generateResourceRoutes(
+    resources: Array<{ name: string; schema: Schema }>,
+    createHandler: HandlerFactory
+): Record<string, RouteConfig> {
+    return resources.reduce<Record<string, RouteConfig>>((routes, { name, schema }) => ({
+        ...routes,
+        ...generateCrudRoutes(determineBasePath(name, {}), schema, createHandler)
+    }), {});
+}
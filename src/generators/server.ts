@@ -7,22 +7,32 @@ import {
   RouteConfig,
   MockServerConfig,
   RouteRequest,
+  RequestViolation,
   ServerState,
   JSONValue,
+  HandlerRouteDefinition,
   Schema
 } from '../types';
-import { PortError, ServerError, ValidationError } from '../errors';
+import { PortError, ServerError, ConflictError, PatchError, ValidationError } from '../errors';
 import { log, setLogLevel } from '../utils/logger';
-import { validateData } from '../utils/validation';
+import { SchemaValidator, describeViolations } from '../utils/schema-validator';
+import { RequestValidator, describeRequestViolations } from './request-schemas';
+import { CONTRACT_HEADER, CONTRACT_REPORT_ROUTE } from '../utils/constants';
 import { validateMockServerConfig, createConfig } from '../utils/config';
 import { setupAllMiddleware } from './middleware';
 import { setupSystemRoutes } from './route-setup';
 import { addBranding } from './response-utils';
+import { ContractReport, validateResponseBody } from './contract';
+import type { WorldState } from './world-state';
+import { SchemaRegistry, hasExternalRefs } from '../parsers/schema-registry';
+import { SchemaParser } from '../parsers/schema';
 import {
   determineResourceName,
   determineBasePath,
   createRouteHandler,
   generateCustomRoutes,
+  generateResourceRoutes,
+  collectResources,
   generateCrudRoutes
 } from './schema-routes';
 
@@ -31,7 +41,7 @@ import {
  *
  * This class provides functionality to start, stop, restart, and manage a mock API server
  * based on JSON Schema configurations. It supports custom routes, CRUD operations, response
- * delays, error scenarios, and request validation.
+ * delays, error scenarios, request validation, and response contract checks.
  */
 export class ServerGenerator {
   private app: Application;
@@ -43,19 +53,23 @@ export class ServerGenerator {
   private isStopping = false;
   private skipValidation: boolean;
   private currentSchema: Schema | null = null;
+  private contractReport = new ContractReport();
 
   /**
    * Creates a new ServerGenerator instance.
    *
    * @param config - The mock server configuration containing server settings and route definitions
    * @param skipValidation - If true, skips configuration validation (for internal use only)
-   * @throws {ValidationError} When configuration validation fails and skipValidation is false
+   * @throws {ValidationError} When configuration validation fails and skipValidation is false,
+   *   or when nullProbability or exampleProbability is outside [0, 1], locale is not a bundled locale
+   *   or maxDepth or maxNodes is not a positive integer
    */
   constructor(config: MockServerConfig, skipValidation: boolean = false) {
     // Validate configuration at startup (addresses issue 8.2)
     // Skip validation for internally-generated configs to maintain backward compatibility
     this.skipValidation = skipValidation;
     this.config = skipValidation ? config : validateMockServerConfig(config);
+    this.currentSchema = this.config.schema ?? null;
     this.app = express();
 
     // Set log level from config
@@ -63,6 +77,25 @@ export class ServerGenerator {
       setLogLevel(this.config.server.logLevel);
     }
 
+    if (this.config.server.nullProbability !== undefined) {
+      SchemaParser.setNullProbability(this.config.server.nullProbability);
+    }
+
+    if (this.config.server.locale) {
+      SchemaParser.setLocale(this.config.server.locale);
+    }
+
+    if (this.config.server.exampleProbability !== undefined) {
+      SchemaParser.setExampleProbability(this.config.server.exampleProbability);
+    }
+
+    if (this.config.server.maxDepth !== undefined || this.config.server.maxNodes !== undefined) {
+      SchemaParser.setDepthLimits({ maxDepth: this.config.server.maxDepth, maxNodes: this.config.server.maxNodes });
+    }
+
+    // Generated image URLs load this server's placeholder images
+    SchemaParser.setPlaceholderBaseUrl(`http://localhost:${this.config.server.port !== undefined ? this.config.server.port : 3000}`);
+
     this.setupMiddleware();
     this.setupRoutes();
   }
@@ -93,23 +126,46 @@ export class ServerGenerator {
       this.setupRoute(routeConfig);
     });
 
-    // Setup system routes (playground, health, share, gallery, etc.)
-    setupSystemRoutes(this.app, this.config, this.version);
+    // Response contract summary
+    this.app.get(CONTRACT_REPORT_ROUTE, (req, res) => {
+      res.json(this.contractReport.getSummary(this.config.server.validateResponses));
+    });
 
-    // World state introspection endpoint for MCP
+    // Route listing for MCP list_routes, with request and response schemas
+    this.app.get('/__schemock/routes', (req, res) => {
+      res.json({
+        routes: Object.values(this.config.routes).map(route => ({
+          method: route.method.toUpperCase(),
+          path: route.path,
+          statusCode: route.statusCode ?? 200,
+          ...(route.resource ? { resource: route.resource } : {}),
+          ...(route.request ? { request: route.request } : {}),
+          ...(route.schema ? { response: route.schema } : {})
+        }))
+      });
+    });
+
+    // World state introspection endpoint for MCP, listing every resource even before it has entities
     this.app.get('/__schemock/world', (req, res) => {
       const store = this.state as unknown as Record<string, unknown>;
-      const world = store['_world'];
-      if (world && typeof world === 'object' && 'getSnapshot' in world) {
-        const snapshot = (world as { getSnapshot(): Record<string, string[]> }).getSnapshot();
-        res.json({
-          resources: Object.keys(snapshot),
-          entities: snapshot,
-          totalEntities: Object.values(snapshot).reduce((sum, ids) => sum + ids.length, 0)
-        });
-      } else {
-        res.json({ resources: [], entities: {}, totalEntities: 0 });
+      const world = store['_world'] as WorldState | undefined;
+      const entities: Record<string, string[]> = {};
+      for (const resource of new Set(Object.values(this.config.routes).map(route => route.resource).filter(Boolean))) {
+        entities[resource as string] = (world?.entities(resource as string) ?? [])
+          .map(entity => String((entity as Record<string, JSONValue>)?.id));
+      }
+      // Entities registered under other names, e.g. by the seed endpoint
+      const known = new Set(Object.keys(entities).map(resource => resource.toLowerCase().replace(/[_-]/g, '')));
+      for (const [resource, ids] of Object.entries(world?.getSnapshot() ?? {})) {
+        if (!known.has(resource) && ids.length > 0) {
+          entities[resource] = ids;
+        }
       }
+      res.json({
+        resources: Object.keys(entities),
+        entities,
+        totalEntities: Object.values(entities).reduce((sum, ids) => sum + ids.length, 0)
+      });
     });
 
     // Schema introspection endpoint — returns the currently loaded schema
@@ -141,6 +197,9 @@ export class ServerGenerator {
           port: this.config.server.port,
           cors: this.config.server.cors,
           logLevel: this.config.server.logLevel as any,
+          schemaDir: this.config.server.schemaDir,
+          validateResponses: this.config.server.validateResponses,
+          queryDialect: this.config.server.queryDialect,
         });
 
         const newConfig = newGenerator.getConfig();
@@ -210,16 +269,28 @@ export class ServerGenerator {
         res.status(500).json({ error: 'Seed failed', message });
       }
     });
+
+    // Setup system routes (playground, health, share, gallery, etc.) last, as they end with the 404 handler
+    setupSystemRoutes(this.app, this.config, this.version);
   }
 
   /**
    * Configures a single route on the Express application.
    *
+   * With `validateResponses` set, response bodies are checked against the route schema
+   * and the outcome is logged, added as an X-Schemock-Contract header, or turned into a 500.
+   *
    * @param routeConfig - The route configuration including path, method, response, and options
    * @throws {ServerError} When an unsupported HTTP method is specified
    */
   private setupRoute(routeConfig: RouteConfig): void {
-    const { path, method, response, statusCode = 200, delay = 0, headers = {}, schema } = routeConfig;
+    const { path, method, response, statusCode = 200, delay = 0, headers = {}, schema, request, collection } = routeConfig;
+
+    // Compiled once per route, so strict mode doesn't re-read the schema per request
+    const bodyValidator = schema && !request?.body ? new SchemaValidator(schema) : undefined;
+    // Compiled on first use, once the root schema for $refs is known
+    let requestValidator: RequestValidator | undefined;
+    let responseValidator: SchemaValidator | undefined;
 
     const routeHandler = async (req: Request, res: Response, next: NextFunction) => {
       const startTime = Date.now();
@@ -262,52 +333,89 @@ export class ServerGenerator {
           res.setHeader(key, value);
         });
 
-        // Request validation for strict mode
-        if (this.config.server.strict && ['POST', 'PUT', 'PATCH'].includes(req.method)) {
-          // Use the schema from routeConfig if available
-          if (schema) {
-            try {
-              validateData(req.body, schema);
-            } catch (error: unknown) {
-              if (error instanceof ValidationError) {
-                log.warn('Request validation failed (strict mode)', {
-                  module: 'server',
-                  path,
-                  method,
-                  error: error.message
-                });
-                return res.status(400).json({
-                  success: false,
-                  error: 'ValidationError',
-                  message: `Request validation failed: ${error.message}`,
-                  details: error.details
-                });
-              }
-              throw error;
-            }
-          }
+        // Request validation against the route's request schemas, and the resource schema in strict mode
+        const violations: RequestViolation[] = [];
+        let query: Record<string, unknown> = req.query;
+        if (request) {
+          requestValidator ??= new RequestValidator(request, this.currentSchema ?? undefined);
+          const checked = requestValidator.validate({ params: req.params, query: req.query, headers: req.headers, body: req.body });
+          violations.push(...checked.violations);
+          query = checked.query ?? query;
+        }
+        // PATCH bodies are partial; the patched record is checked instead
+        if (this.config.server.strict && bodyValidator && ['POST', 'PUT'].includes(req.method)) {
+          violations.push(...bodyValidator.validate(req.body).map(violation => ({ in: 'body' as const, ...violation })));
+        }
+        if (violations.length > 0) {
+          log.warn('Request validation failed', {
+            module: 'server',
+            path,
+            method,
+            error: describeRequestViolations(violations)
+          });
+          return res.status(400).json({
+            success: false,
+            error: 'ValidationError',
+            message: `Request validation failed with ${violations.length} error${violations.length === 1 ? '' : 's'}: ${describeRequestViolations(violations)}`,
+            errors: violations
+          });
         }
 
         // Handle different response types
+        let body: unknown = response;
+        let unshapedData: JSONValue | undefined;
         if (typeof response === 'function') {
           // If response is a function, call it with request and state
           const routeReq: RouteRequest = {
             params: req.params as Record<string, string> | undefined,
-            query: req.query,
+            query,
             body: req.body,
             method: req.method,
             path: req.path,
-            headers: req.headers as Record<string, string>
+            headers: req.headers as Record<string, string>,
+            responseHeaders: {}
           };
-          const result = await Promise.resolve(response(routeReq, this.state));
+          body = await Promise.resolve(response(routeReq, this.state));
+          Object.entries(routeReq.responseHeaders ?? {}).forEach(([key, value]) => {
+            res.setHeader(key, value);
+          });
+          unshapedData = routeReq.unshapedData;
+        }
+
+        // Response contract check, before branding is added; sparse fields and
+        // embedded relations are not part of the schema, so the data is checked before them
+        const validateResponses = this.config.server.validateResponses;
+        if (validateResponses && schema) {
+          responseValidator ??= new SchemaValidator(schema, this.currentSchema ?? undefined);
+          const violations = validateResponseBody(responseValidator, schema, unshapedData ?? body, collection);
+          if (violations) {
+            this.contractReport.record(method, path, violations);
+          }
+          if (violations && violations.length > 0) {
+            log.warn('Response does not match the schema', {
+              module: 'server',
+              path,
+              method,
+              error: describeViolations(violations)
+            });
+            if (validateResponses === 'fail') {
+              return res.status(500).json({
+                success: false,
+                error: 'ContractViolation',
+                message: `Response validation failed with ${violations.length} error${violations.length === 1 ? '' : 's'}: ${describeViolations(violations)}`,
+                errors: violations
+              });
+            }
+          }
+          if (validateResponses === 'header' && violations) {
+            res.setHeader(CONTRACT_HEADER, violations.length === 0 ? 'valid' : `invalid; violations=${violations.length}`);
+          }
+        }
 
+        if (typeof response === 'function' || (typeof response === 'object' && response !== null)) {
           // Add branding metadata to response (unless disabled)
-          const brandedResult = addBranding(result, this.config.server.hideBranding ?? false, this.version);
-          res.status(statusCode).json(brandedResult);
-        } else if (typeof response === 'object' && response !== null) {
-          // If response is an object, add branding metadata
-          const brandedResponse = addBranding(response, this.config.server.hideBranding ?? false, this.version);
-          res.status(statusCode).json(brandedResponse);
+          const brandedBody = addBranding(body, this.config.server.hideBranding ?? false, this.version);
+          res.status(statusCode).json(brandedBody);
         } else {
           // For other types, send as is
           res.status(statusCode).send(response);
@@ -322,6 +430,52 @@ export class ServerGenerator {
           scenario: scenario || 'default'
         });
       } catch (error) {
+        // Duplicates of x-schemock-unique values are the client's fault
+        if (error instanceof ConflictError) {
+          log.warn('Unique constraint violated', {
+            module: 'server',
+            path,
+            method,
+            error: error.message
+          });
+          return res.status(409).json({
+            success: false,
+            error: 'ConflictError',
+            message: error.message,
+            details: error.details
+          });
+        }
+        // Patches that can't be applied, or are malformed
+        if (error instanceof PatchError || (error instanceof ValidationError && req.method === 'PATCH')) {
+          const status = error instanceof PatchError ? 422 : 400;
+          log.warn('Patch rejected', {
+            module: 'server',
+            path,
+            method,
+            error: error.message
+          });
+          return res.status(status).json({
+            success: false,
+            error: error.name,
+            message: error.message,
+            details: error.details
+          });
+        }
+        // Query parameters that can't be applied, such as a too deep include
+        if (error instanceof ValidationError && req.method === 'GET') {
+          log.warn('Query rejected', {
+            module: 'server',
+            path,
+            method,
+            error: error.message
+          });
+          return res.status(400).json({
+            success: false,
+            error: error.name,
+            message: error.message,
+            details: error.details
+          });
+        }
         next(error);
       }
     };
@@ -565,10 +719,12 @@ export class ServerGenerator {
       // Validate new configuration before applying (addresses issue 8.2)
       // Skip validation for internally-generated configs to maintain backward compatibility
       this.config = this.skipValidation ? newConfig : validateMockServerConfig(newConfig);
+      this.currentSchema = this.config.schema ?? null;
       if (this.config.server.logLevel) {
         setLogLevel(this.config.server.logLevel);
       }
       this.app = express();
+      this.contractReport.clear();
       this.setupMiddleware();
       this.setupRoutes();
     }
@@ -607,25 +763,41 @@ export class ServerGenerator {
    * Generates a mock server instance from a JSON Schema definition.
    *
    * Creates CRUD routes or custom routes based on the schema's x-schemock-routes extension.
-   * Automatically determines resource names and base paths from the schema.
+   * Automatically determines resource names and base paths from the schema. A document
+   * with `x-schemock-resources`, or only `$defs`, gets CRUD routes for each resource.
+   * External, `$id` and `$anchor` references are bundled into local `$defs`
+   * first, resolving files against `options.schemaDir` when given.
    *
    * @param schema - The JSON Schema definition to generate routes from
    * @param options - Optional server configuration options (defaults to port 3000)
    * @returns A new ServerGenerator instance configured with routes from the schema
+   * @throws {SchemaRefError} When a reference cannot be resolved
    */
-  public static generateFromSchema(schema: Schema, options: Partial<ServerOptions> = { port: 3000 }): ServerGenerator {
+  public static generateFromSchema(inputSchema: Schema, options: Partial<ServerOptions> = { port: 3000 }): ServerGenerator {
     const port = options.port !== undefined ? options.port : 3000;
 
+    let schema = inputSchema;
+    if (options.schemaDir) {
+      schema = SchemaRegistry.fromDirectory(options.schemaDir).bundle(inputSchema);
+    } else if (hasExternalRefs(inputSchema)) {
+      schema = new SchemaRegistry().bundle(inputSchema);
+    }
+
     const resourceName = determineResourceName(schema, options);
     const basePath = determineBasePath(resourceName, options);
 
-    const createHandler = (method: string, routePath: string, routeDef: { response?: JSONValue | Schema }, wrap: boolean = true) => {
+    const createHandler = (method: string, routePath: string, routeDef: HandlerRouteDefinition, wrap: boolean = true) => {
       return createRouteHandler(method, routePath, routeDef, schema, options, wrap);
     };
 
-    const routes = schema['x-schemock-routes'] && Array.isArray(schema['x-schemock-routes'])
+    // A document with several resources gets CRUD routes for each, next to its custom routes
+    const resources = collectResources(schema);
+    const customRoutes = schema['x-schemock-routes'] && Array.isArray(schema['x-schemock-routes'])
       ? generateCustomRoutes(schema, createHandler)
-      : generateCrudRoutes(basePath, schema, createHandler);
+      : undefined;
+    const routes = resources
+      ? { ...generateResourceRoutes(resources, createHandler), ...customRoutes }
+      : customRoutes ?? generateCrudRoutes(basePath, schema, createHandler);
 
     const config: MockServerConfig = {
       server: {
@@ -634,12 +806,11 @@ export class ServerGenerator {
         logLevel: 'info',
         ...options
       },
-      routes
+      routes,
+      schema
     };
 
-    const generator = new ServerGenerator(config, true);
-    generator.currentSchema = schema;
-    return generator;
+    return new ServerGenerator(config, true);
   }
 }
 
@@ -0,0 +1,173 @@
+/**
+ * Uniqueness of generated records
+ *
+ * Properties marked with `x-schemock-unique: true` must hold a different
+ * value in every record of a resource, like a unique database column:
+ *
+ *   { "type": "object", "properties": {
+ *       "email": { "type": "string", "format": "email", "x-schemock-unique": true } } }
+ *
+ * A UniqueIndex tracks the values taken per unique property. Generated records
+ * with a taken value get a new one, and submitted records with a taken value
+ * are rejected with a ConflictError. `null` and missing values are not
+ * indexed, so several records may leave a unique property empty.
+ */
+
+import { Schema, JSONValue } from '../types';
+import { SchemaParser } from '../parsers/schema';
+import { compileSchema, findRecordProperties } from '../parsers/schema-plan';
+import { ConflictError } from '../errors';
+import { MAX_UNIQUE_ATTEMPTS } from '../utils/constants';
+
+/**
+ * Finds the `x-schemock-unique` properties of a resource schema
+ *
+ * @param schema - The record schema, or an array schema of records
+ * @param rootSchema - Root schema for $ref resolution
+ * @returns The unique property names and schemas
+ */
+export function findUniqueProperties(schema: Schema, rootSchema: Schema = schema): Array<[string, Schema]> {
+  return findRecordProperties(schema, rootSchema).filter(([, propSchema]) => isUniqueProperty(propSchema, rootSchema));
+}
+
+function isUniqueProperty(schema: Schema, rootSchema: Schema): boolean {
+  if (schema['x-schemock-unique'] === true) {
+    return true;
+  }
+  const plan = compileSchema(schema, rootSchema);
+  return plan.strategy === 'ref' && plan.target['x-schemock-unique'] === true;
+}
+
+/**
+ * Index of the values taken by the unique properties of a resource's records
+ */
+export class UniqueIndex {
+  private readonly columns: Array<{ name: string; schema: Schema; taken: Set<string> }>;
+
+  /**
+   * @param properties - The unique properties, from findUniqueProperties()
+   * @param records - Records whose values are already taken
+   */
+  constructor(properties: Array<[string, Schema]>, records: Iterable<JSONValue> = []) {
+    this.columns = properties.map(([name, schema]) => ({ name, schema, taken: new Set() }));
+    for (const record of records) {
+      this.add(record);
+    }
+  }
+
+  /**
+   * True when the resource has no unique properties
+   */
+  get isEmpty(): boolean {
+    return this.columns.length === 0;
+  }
+
+  /**
+   * Finds the first unique property whose value another record already holds
+   *
+   * @param record - The record to check
+   * @returns The property name, or undefined when all values are free
+   */
+  findConflict(record: JSONValue): string | undefined {
+    return this.columns.find(({ name, taken }) => {
+      const key = valueKey(record, name);
+      return key !== undefined && taken.has(key);
+    })?.name;
+  }
+
+  /**
+   * Marks a record's unique values as taken
+   */
+  add(record: JSONValue): void {
+    for (const { name, taken } of this.columns) {
+      const key = valueKey(record, name);
+      if (key !== undefined) {
+        taken.add(key);
+      }
+    }
+  }
+
+  /**
+   * Rejects a submitted record that duplicates a taken value, then marks its values as taken
+   *
+   * @param record - The record to store
+   * @param resource - The resource name, for the error message
+   * @throws {ConflictError} When a unique property value is already taken
+   */
+  claim(record: JSONValue, resource: string): void {
+    const field = this.findConflict(record);
+    if (field !== undefined) {
+      const value = (record as Record<string, JSONValue>)[field];
+      throw new ConflictError(`A ${resource} record with ${field} ${JSON.stringify(value)} already exists`, field, value);
+    }
+    this.add(record);
+  }
+
+  /**
+   * Gives a generated record new values for unique properties whose value is
+   * taken, then marks its values as taken
+   *
+   * A taken value is first regenerated from the property schema; when that
+   * keeps colliding, e.g. with a small enum, or the value is templated or
+   * computed, strings get a numeric suffix
+   * (`jane+2@example.com`, `jane-2`) and numbers are incremented.
+   *
+   * @param record - The generated record, updated in place
+   * @param rootSchema - Root schema for $ref resolution
+   * @param strict - Whether to enforce strict validation
+   * @returns The record
+   */
+  makeUnique(record: JSONValue, rootSchema: Schema, strict: boolean = false): JSONValue {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      return record;
+    }
+
+    for (const { name, schema, taken } of this.columns) {
+      // Templated and computed values would lose their meaning if regenerated
+      const derived = schema['x-schemock-template'] !== undefined || schema['x-schemock-compute'] !== undefined;
+      for (let attempt = 0; !derived && attempt < MAX_UNIQUE_ATTEMPTS && isTaken(taken, record[name]); attempt++) {
+        record[name] = SchemaParser.parse(schema, rootSchema, new Set(), strict, name);
+      }
+      const original = record[name];
+      for (let suffix = 2; isTaken(taken, record[name]); suffix++) {
+        const next = withSuffix(original, suffix);
+        if (next === undefined) {
+          break;
+        }
+        record[name] = next;
+      }
+    }
+
+    this.add(record);
+    return record;
+  }
+}
+
+function valueKey(record: JSONValue, name: string): string | undefined {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return undefined;
+  }
+  const value = record[name];
+  return value === null || value === undefined ? undefined : JSON.stringify(value);
+}
+
+function isTaken(taken: Set<string>, value: JSONValue | undefined): boolean {
+  return value !== null && value !== undefined && taken.has(JSON.stringify(value));
+}
+
+/**
+ * Derives a distinct value from a string or number, or undefined for other values
+ */
+function withSuffix(value: JSONValue | undefined, suffix: number): JSONValue | undefined {
+  if (typeof value === 'number') {
+    return value + suffix - 1;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  // Keep email addresses valid with a plus tag in the local part
+  const at = value.lastIndexOf('@');
+  return at > 0
+    ? `${value.slice(0, at)}+${suffix}${value.slice(at)}`
+    : `${value}-${suffix}`;
+}
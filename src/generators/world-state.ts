@@ -1,5 +1,6 @@
 import { JSONValue } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { random } from '../utils/random';
 
 /**
  * Foreign key field patterns → the resource they reference.
@@ -73,7 +74,7 @@ function generateFkValue(referencedResource: string, pool: Map<string, JSONValue
     return uuidv4();
   }
   // Pick a random existing entity's ID
-  const randomEntity = entities[Math.floor(Math.random() * entities.length)];
+  const randomEntity = entities[Math.floor(random() * entities.length)];
   if (randomEntity && typeof randomEntity === 'object' && 'id' in randomEntity) {
     return String((randomEntity as Record<string, JSONValue>).id);
   }
@@ -85,6 +86,11 @@ export interface WorldStateOptions {
   seed?: number;
   /** Pre-populate resources with N entities on init */
   prepopulateCount?: number;
+  /**
+   * Maximum entities kept per resource. Beyond it, a uniform random sample
+   * of all registered entities is kept, so memory stays bounded.
+   */
+  maxPoolSize?: number;
 }
 
 /**
@@ -114,6 +120,8 @@ export class WorldState {
   private pools: Map<string, Map<string, JSONValue>> = new Map();
   /** Entity counts for generating deterministic-ish IDs */
   private counters: Map<string, number> = new Map();
+  /** Entity IDs per resource, for constant-time random picks */
+  private idLists: Map<string, string[]> = new Map();
 
   constructor(private options: WorldStateOptions = {}) {}
 
@@ -154,9 +162,20 @@ export class WorldState {
    * Get a random entity from a resource pool.
    */
   getRandomEntity(resource: string): JSONValue | null {
-    const entities = Array.from(this.pool(resource).values());
-    if (entities.length === 0) return null;
-    return entities[Math.floor(Math.random() * entities.length)];
+    const p = this.pool(resource);
+    const ids = this.idLists.get(this.resolvePoolKey(resource)) ?? [];
+    if (ids.length !== p.size) {
+      // The pool was changed directly rather than through register()
+      const entities = Array.from(p.values());
+      if (entities.length === 0) {
+        return null;
+      }
+      return entities[Math.floor(random() * entities.length)];
+    }
+    if (ids.length === 0) {
+      return null;
+    }
+    return p.get(ids[Math.floor(random() * ids.length)]) ?? null;
   }
 
   /**
@@ -166,13 +185,52 @@ export class WorldState {
     return this.pool(resource).get(id) ?? null;
   }
 
+  /**
+   * Get all entities of a resource, without creating its pool.
+   */
+  entities(resource: string): JSONValue[] {
+    return Array.from(this.pools.get(this.resolvePoolKey(resource))?.values() ?? []);
+  }
+
+  /**
+   * Find the entities of a resource whose foreign keys point at an entity
+   * of another resource, e.g. the comments of a post.
+   *
+   * @param resource  The referencing resource, e.g. "comments"
+   * @param target    The referenced resource, e.g. "posts"
+   * @param id        The referenced entity's ID
+   */
+  findReferencing(resource: string, target: string, id: JSONValue): JSONValue[] {
+    const targetKey = this.resolvePoolKey(target);
+    return this.entities(resource).filter(entity =>
+      entity !== null && typeof entity === 'object' && !Array.isArray(entity) &&
+      Object.entries(entity).some(([key, value]) => {
+        const ref = detectForeignKey(key);
+        return ref !== null && this.resolvePoolKey(ref) === targetKey && value !== null && String(value) === String(id);
+      })
+    );
+  }
+
+  /**
+   * Remove an entity from a resource pool, e.g. after a DELETE.
+   */
+  remove(resource: string, id: string): void {
+    const key = this.resolvePoolKey(resource);
+    if (this.pools.get(key)?.delete(id)) {
+      const ids = this.idLists.get(key) ?? [];
+      const index = ids.indexOf(id);
+      if (index !== -1) {
+        ids.splice(index, 1);
+      }
+    }
+  }
+
   /**
    * Register an entity to a resource pool.
    * If the entity has an `id` field, uses that as the key.
    * Otherwise generates a UUID and attaches it.
    */
   register(resource: string, entity: JSONValue): JSONValue {
-    const p = this.pool(resource);
     const key = this.resolvePoolKey(resource);
     const count = (this.counters.get(key) ?? 0) + 1;
     this.counters.set(key, count);
@@ -183,16 +241,45 @@ export class WorldState {
         // Generate a readable-ish ID for discovery
         obj.id = `${key.replace(/s$/, '')}-${count}`;
       }
-      p.set(String(obj.id), obj);
+      this.store(key, String(obj.id), obj, count);
       return obj;
     }
 
     // Non-object values stored by auto-generated key
-    const id = `${key}-${count}`;
-    p.set(id, entity);
+    this.store(key, `${key}-${count}`, entity, count);
     return entity;
   }
 
+  /**
+   * Add an entity to a pool, keeping a uniform random sample (reservoir
+   * sampling) once the pool holds maxPoolSize entities.
+   */
+  private store(key: string, id: string, entity: JSONValue, count: number): void {
+    const p = this.pool(key);
+    if (!this.idLists.has(key)) {
+      this.idLists.set(key, []);
+    }
+    const ids = this.idLists.get(key)!;
+
+    if (p.has(id)) {
+      p.set(id, entity);
+      return;
+    }
+
+    const max = this.options.maxPoolSize;
+    if (max !== undefined && ids.length >= max) {
+      const slot = Math.floor(random() * count);
+      if (slot >= max) {
+        return;
+      }
+      p.delete(ids[slot]);
+      ids[slot] = id;
+    } else {
+      ids.push(id);
+    }
+    p.set(id, entity);
+  }
+
   /**
    * Resolve a foreign key value for a given field.
    *
@@ -229,13 +316,14 @@ export class WorldState {
 
     for (const [key, value] of Object.entries(result)) {
       // Detect ID-like fields
-      if (isIdField(key) && typeof value === 'string') {
+      if (isIdField(key) && (typeof value === 'string' || typeof value === 'number')) {
         const ref = detectForeignKey(key);
         if (ref && this.hasEntities(ref)) {
-          // Replace with a real ID from the world
+          // Replace with a real ID from the world, keeping numeric IDs numeric
           const realEntity = this.getRandomEntity(ref);
           if (realEntity && typeof realEntity === 'object' && 'id' in realEntity) {
-            result[key] = String((realEntity as Record<string, JSONValue>).id);
+            const realId = (realEntity as Record<string, JSONValue>).id;
+            result[key] = typeof value === 'number' && typeof realId === 'number' ? realId : String(realId);
           }
         }
       }
@@ -267,6 +355,7 @@ export class WorldState {
   reset(): void {
     this.pools.clear();
     this.counters.clear();
+    this.idLists.clear();
   }
 
   /** Number of resources registered */
@@ -76,8 +76,18 @@ if (require.main === module) {
 export * from './types';
 export * from './generators/server';
 export * from './parsers/schema';
+export * from './parsers/schema-registry';
+export * from './locales';
+export { generateFake, getFakerGenerators, hasFakerGenerator } from './generators/faker-catalog';
+export { writeDataset, orderResources, DATASET_FORMATS } from './generators/dataset';
+export type { DatasetFormat, DatasetResource, DatasetOptions } from './generators/dataset';
+export { generateContent, renderPlaceholder, placeholderUrl, PLACEHOLDER_FORMATS } from './generators/media';
+export type { PlaceholderFormat } from './generators/media';
 export * from './errors';
 export * from './utils/validation';
+export { SchemaValidator, getValidator, describeViolations } from './utils/schema-validator';
+export { applyJsonPatch, applyMergePatch, JSON_PATCH_MEDIA_TYPE, MERGE_PATCH_MEDIA_TYPE } from './utils/json-patch';
 export * from './utils/watcher';
 export * from './integrations/vite';
 export * from './utils/config';
+export * from './utils/project-config';
@@ -0,0 +1,18 @@
+import { LocalePack } from '../types';
+
+export const deDE: LocalePack = {
+  code: 'de-DE',
+  firstNames: ['Lukas', 'Sophie', 'Jürgen', 'Anna', 'Maximilian', 'Lena', 'Björn', 'Marie', 'Jörg', 'Käthe'],
+  lastNames: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker', 'Schäfer', 'Groß'],
+  nameFormat: '{first} {last}',
+  companies: ['Müller & Söhne GmbH', 'Schmidt Logistik AG', 'Becker Bau GmbH', 'Nordlicht Software GmbH', 'Bäckerei Schäfer KG'],
+  cities: ['Berlin', 'München', 'Hamburg', 'Köln', 'Frankfurt am Main', 'Düsseldorf', 'Stuttgart', 'Leipzig'],
+  states: ['Bayern', 'Berlin', 'Hamburg', 'Hessen', 'Nordrhein-Westfalen', 'Sachsen', 'Baden-Württemberg', 'Niedersachsen'],
+  streets: ['Hauptstraße', 'Bahnhofstraße', 'Schillerstraße', 'Goethestraße', 'Gartenweg', 'Lindenallee', 'Am Marktplatz'],
+  buildingNumberFormats: ['%', '%#', '%#a'],
+  addressFormat: '{street} {buildingNumber}',
+  postalCodeFormat: '%####',
+  phoneFormats: ['+49 30 %#######', '+49 89 %######', '+49 15% ########'],
+  country: 'Deutschland',
+  countries: ['Deutschland', 'Österreich', 'Schweiz', 'Frankreich', 'Niederlande', 'Vereinigte Staaten', 'Japan', 'Brasilien']
+};
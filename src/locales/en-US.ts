@@ -0,0 +1,18 @@
+import { LocalePack } from '../types';
+
+export const enUS: LocalePack = {
+  code: 'en-US',
+  firstNames: ['James', 'Mary', 'Robert', 'Patricia', 'Michael', 'Jennifer', 'David', 'Linda', 'Daniel', 'Emily'],
+  lastNames: ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Wilson', 'Taylor'],
+  nameFormat: '{first} {last}',
+  companies: ['Acme Corp', 'Globex Corporation', 'Initech', 'Soylent Corp', 'Umbrella Inc.', 'Hooli'],
+  cities: ['New York', 'Los Angeles', 'Chicago', 'Houston', 'Phoenix', 'Seattle', 'Denver', 'Boston'],
+  states: ['California', 'New York', 'Texas', 'Florida', 'Illinois', 'Washington', 'Colorado', 'Massachusetts'],
+  streets: ['Main Street', 'Oak Avenue', 'Maple Drive', 'Cedar Lane', 'Elm Street', 'Park Avenue', 'Washington Boulevard'],
+  buildingNumberFormats: ['%##', '%###', '%#'],
+  addressFormat: '{buildingNumber} {street}',
+  postalCodeFormat: '%####',
+  phoneFormats: ['+1-555-%##-####', '(%##) 555-####'],
+  country: 'United States',
+  countries: ['United States', 'Canada', 'Mexico', 'United Kingdom', 'Germany', 'France', 'Japan', 'Brazil']
+};
@@ -0,0 +1,18 @@
+import { LocalePack } from '../types';
+
+export const frFR: LocalePack = {
+  code: 'fr-FR',
+  firstNames: ['Camille', 'Léa', 'Hugo', 'Chloé', 'Théo', 'Manon', 'Louis', 'Inès', 'Zoé', 'François'],
+  lastNames: ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Petit', 'Durand', 'Lefèvre', 'Moreau', 'Girard'],
+  nameFormat: '{first} {last}',
+  companies: ['Dupont et Fils SARL', 'Lumière Technologies SAS', 'Société Générale des Eaux', 'Boulangerie Lefèvre', 'Transports Moreau SA'],
+  cities: ['Paris', 'Marseille', 'Lyon', 'Toulouse', 'Nice', 'Nantes', 'Bordeaux', 'Strasbourg'],
+  states: ['Île-de-France', 'Provence-Alpes-Côte d\'Azur', 'Auvergne-Rhône-Alpes', 'Occitanie', 'Nouvelle-Aquitaine', 'Bretagne', 'Grand Est'],
+  streets: ['rue de la Paix', 'avenue des Champs-Élysées', 'boulevard Saint-Michel', 'rue Victor Hugo', 'place de la République', 'rue du Faubourg Saint-Honoré'],
+  buildingNumberFormats: ['%', '%#', '%# bis'],
+  addressFormat: '{buildingNumber} {street}',
+  postalCodeFormat: '%####',
+  phoneFormats: ['+33 1 ## ## ## ##', '+33 6 ## ## ## ##', '0% ## ## ## ##'],
+  country: 'France',
+  countries: ['France', 'Belgique', 'Suisse', 'Allemagne', 'Espagne', 'États-Unis', 'Japon', 'Brésil']
+};
@@ -0,0 +1,124 @@
+/**
+ * Bundled offline locale packs for locale-aware mock data
+ *
+ * Packs are looked up by BCP 47 tag. Lookups fall back from a full tag to
+ * the first pack with the same language (`de-AT` -> `de-DE`, `pt` -> `pt-BR`).
+ */
+
+import { LocalePack } from '../types';
+import { randomInt } from '../utils/random';
+import { enUS } from './en-US';
+import { deDE } from './de-DE';
+import { frFR } from './fr-FR';
+import { jaJP } from './ja-JP';
+import { ptBR } from './pt-BR';
+
+const LOCALE_PACKS: LocalePack[] = [enUS, deDE, frFR, jaJP, ptBR];
+
+/**
+ * Gets the codes of all bundled locale packs
+ *
+ * @returns Locale codes such as 'en-US' and 'ja-JP'
+ */
+export function getSupportedLocales(): string[] {
+  return LOCALE_PACKS.map(pack => pack.code);
+}
+
+/**
+ * Finds the locale pack for a locale code
+ *
+ * Matching is case-insensitive and accepts `_` as a separator. When no pack
+ * matches the full tag, the first pack with the same language is used.
+ *
+ * @param locale - A locale code such as 'fr-FR', 'fr_CA' or 'fr'
+ * @returns The matching pack, or undefined when the language is not bundled
+ */
+export function getLocalePack(locale: string): LocalePack | undefined {
+  const tag = locale.trim().replace(/_/g, '-').toLowerCase();
+  const exact = LOCALE_PACKS.find(pack => pack.code.toLowerCase() === tag);
+  if (exact) {
+    return exact;
+  }
+  const language = tag.split('-')[0];
+  return LOCALE_PACKS.find(pack => pack.code.toLowerCase().split('-')[0] === language);
+}
+
+/**
+ * Picks the best bundled locale for an Accept-Language header
+ *
+ * Languages are tried in order of their quality value; `*` and languages
+ * without a bundled pack are skipped.
+ *
+ * @param acceptLanguage - The Accept-Language header value, e.g. "de-CH,de;q=0.9,en;q=0.8"
+ * @returns The code of the best matching pack, or undefined when none matches
+ */
+export function negotiateLocale(acceptLanguage?: string): string | undefined {
+  if (!acceptLanguage) {
+    return undefined;
+  }
+
+  const ranges = acceptLanguage
+    .split(',')
+    .map((entry, index) => {
+      const [tag, ...params] = entry.trim().split(';');
+      const qParam = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      const quality = qParam ? parseFloat(qParam.substring(2)) : 1;
+      return { tag: tag.trim(), quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter(range => range.tag && range.tag !== '*' && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const range of ranges) {
+    const pack = getLocalePack(range.tag);
+    if (pack) {
+      return pack.code;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Fills a locale format string with random digits
+ *
+ * @param format - Format using `#` for any digit and `%` for a non-zero digit
+ * @returns The formatted value, e.g. '+49 30 %#######' -> '+49 30 51234567'
+ */
+export function fillFormat(format: string): string {
+  return format.replace(/[#%]/g, placeholder => String(placeholder === '%' ? randomInt(1, 9) : randomInt(0, 9)));
+}
+
+/**
+ * Picks a random element from a locale list
+ *
+ * @param values - The list to pick from
+ * @returns A random element
+ */
+export function pickLocaleValue(values: string[]): string {
+  return values[randomInt(0, values.length - 1)];
+}
+
+/**
+ * Generates a full name in the locale's name order
+ *
+ * @param pack - The locale pack
+ * @returns A name such as 'Lena Müller' or '佐藤 花子'
+ */
+export function generateFullName(pack: LocalePack): string {
+  return pack.nameFormat
+    .replace('{first}', pickLocaleValue(pack.firstNames))
+    .replace('{last}', pickLocaleValue(pack.lastNames));
+}
+
+/**
+ * Generates a street address line in the locale's format
+ *
+ * @param pack - The locale pack
+ * @returns An address such as '221 Maple Drive' or 'Goethestraße 12'
+ */
+export function generateStreetAddress(pack: LocalePack): string {
+  return pack.addressFormat
+    .replace('{street}', pickLocaleValue(pack.streets))
+    .replace('{buildingNumber}', fillFormat(pickLocaleValue(pack.buildingNumberFormats)));
+}
+
+export { enUS, deDE, frFR, jaJP, ptBR };
@@ -0,0 +1,18 @@
+import { LocalePack } from '../types';
+
+export const jaJP: LocalePack = {
+  code: 'ja-JP',
+  firstNames: ['太郎', '花子', '翔太', '美咲', '健太', 'さくら', '大輔', '陽菜', '蓮', '結衣'],
+  lastNames: ['佐藤', '鈴木', '高橋', '田中', '伊藤', '渡辺', '山本', '中村', '小林', '加藤'],
+  nameFormat: '{last} {first}',
+  companies: ['株式会社サンプル', '山田商事株式会社', '東京テクノロジー株式会社', '株式会社みらい', '大阪物産株式会社'],
+  cities: ['横浜市', '大阪市', '名古屋市', '札幌市', '福岡市', '神戸市', '京都市', '仙台市'],
+  states: ['東京都', '大阪府', '神奈川県', '愛知県', '北海道', '福岡県', '京都府', '宮城県'],
+  streets: ['本町', '中央', '栄町', '緑町', '桜丘町', '西新宿', '港南'],
+  buildingNumberFormats: ['%-%-%', '%-%#-%', '%#-%'],
+  addressFormat: '{street}{buildingNumber}',
+  postalCodeFormat: '%##-####',
+  phoneFormats: ['090-####-####', '080-####-####', '03-####-####', '06-####-####'],
+  country: '日本',
+  countries: ['日本', 'アメリカ合衆国', 'イギリス', 'フランス', 'ドイツ', '中国', '韓国', 'ブラジル']
+};
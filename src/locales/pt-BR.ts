@@ -0,0 +1,18 @@
+import { LocalePack } from '../types';
+
+export const ptBR: LocalePack = {
+  code: 'pt-BR',
+  firstNames: ['João', 'Maria', 'Lucas', 'Ana', 'Gabriel', 'Júlia', 'Pedro', 'Beatriz', 'Matheus', 'Letícia'],
+  lastNames: ['Silva', 'Santos', 'Oliveira', 'Souza', 'Rodrigues', 'Ferreira', 'Alves', 'Pereira', 'Lima', 'Gonçalves'],
+  nameFormat: '{first} {last}',
+  companies: ['Silva & Filhos Ltda.', 'Tecnologia Paulista S.A.', 'Comércio Oliveira Ltda.', 'Construtora Horizonte S.A.', 'Padaria São Jorge'],
+  cities: ['São Paulo', 'Rio de Janeiro', 'Belo Horizonte', 'Brasília', 'Salvador', 'Fortaleza', 'Curitiba', 'Porto Alegre'],
+  states: ['São Paulo', 'Rio de Janeiro', 'Minas Gerais', 'Bahia', 'Paraná', 'Pernambuco', 'Rio Grande do Sul', 'Ceará'],
+  streets: ['Rua das Flores', 'Avenida Paulista', 'Rua São João', 'Avenida Brasil', 'Rua XV de Novembro', 'Travessa da Alegria'],
+  buildingNumberFormats: ['%', '%#', '%##', '%###'],
+  addressFormat: '{street}, {buildingNumber}',
+  postalCodeFormat: '%####-###',
+  phoneFormats: ['+55 11 9####-####', '+55 21 9####-####', '(%#) 9####-####'],
+  country: 'Brasil',
+  countries: ['Brasil', 'Portugal', 'Argentina', 'Uruguai', 'Estados Unidos', 'Alemanha', 'França', 'Japão']
+};
@@ -111,7 +111,7 @@ class SchemockerMCPServer {
     return [
       {
         name: 'list_routes',
-        description: 'Lists all available routes/endpoints from Schemocker mock server, including paths, methods, and example payload shapes',
+        description: 'Lists all available routes/endpoints from Schemocker mock server, including paths, methods, request schemas (params, query, headers, body) and example payload shapes',
         inputSchema: {
           type: 'object',
           properties: {
@@ -449,12 +449,13 @@ class SchemockerMCPServer {
         totalEntities: number;
       };
 
-      if (!data.resources || data.resources.length === 0) {
+      if (!data.resources || data.resources.length === 0 || !data.totalEntities) {
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               message: 'No entities in world yet. Make a GET/POST request first to populate the world.',
+              resources: data.resources || [],
               hint: 'Call an endpoint like GET /api/users first, then check world_snapshot again.'
             }, null, 2)
           }]
@@ -665,23 +666,64 @@ class SchemockerMCPServer {
    * Extracts route information from a JSON Schema
    */
   private extractRoutesFromSchema(schema: any): any[] {
-    const routes: any[] = [];
-
     // Check for custom routes defined in x-schemock-routes
+    let customRoutes: any[] | undefined;
     if (schema['x-schemock-routes'] && Array.isArray(schema['x-schemock-routes'])) {
-      return schema['x-schemock-routes'].map((route: any) => ({
+      customRoutes = schema['x-schemock-routes'].map((route: any) => ({
         method: route.method.toUpperCase(),
         path: route.path,
         description: route.description || `Custom ${route.method.toUpperCase()} route`,
         statusCode: route.statusCode || 200,
         delay: route.delay,
         headers: route.headers,
+        request: route.params || route.query || route.requestHeaders || route.requestBody
+          ? { params: route.params, query: route.query, headers: route.requestHeaders, body: route.requestBody }
+          : undefined,
       }));
     }
 
-    // Generate CRUD routes based on schema properties
-    const basePath = schema['x-schemock-base-path'] || '/api/resource';
-    const resourceName = schema.title || 'resource';
+    // Documents with several resources (x-schemock-resources, or only $defs) get CRUD routes for each
+    const resources = this.extractResourcesFromSchema(schema);
+    if (resources.length > 0) {
+      return [
+        ...resources.flatMap(({ name, schema: resourceSchema }) =>
+          this.crudRoutesFor(resourceSchema, `/api/${name}`, name).map(route => ({ ...route, resource: name }))),
+        ...(customRoutes ?? [])
+      ];
+    }
+
+    return customRoutes ?? this.crudRoutesFor(schema, schema['x-schemock-base-path'] || '/api/resource', schema.title || 'resource');
+  }
+
+  /**
+   * Finds the resources of a multi-resource schema document, resolving local $refs
+   */
+  private extractResourcesFromSchema(schema: any): Array<{ name: string; schema: any }> {
+    const resolve = (ref: string) => ref.replace(/^#\//, '').split('/')
+      .reduce((node: any, key: string) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], schema);
+
+    if (schema['x-schemock-resources'] && typeof schema['x-schemock-resources'] === 'object') {
+      return Object.entries(schema['x-schemock-resources']).map(([name, resourceSchema]: [string, any]) => ({
+        name,
+        schema: typeof resourceSchema?.$ref === 'string' ? resolve(resourceSchema.$ref) ?? {} : resourceSchema,
+      }));
+    }
+    if (['type', 'properties', '$ref', 'allOf', 'anyOf', 'oneOf', 'x-schemock-routes'].some(keyword => schema[keyword] !== undefined)) {
+      return [];
+    }
+    return Object.entries({ ...schema.definitions, ...schema.$defs })
+      .filter(([, definition]: [string, any]) => definition && (definition.type === 'object' || definition.properties))
+      .map(([key, definition]: [string, any]) => {
+        const name = String(definition.title || key).toLowerCase();
+        return { name: name.endsWith('s') ? name : `${name}s`, schema: definition };
+      });
+  }
+
+  /**
+   * Describes the CRUD routes of one resource
+   */
+  private crudRoutesFor(schema: any, basePath: string, resourceName: string): any[] {
+    const routes: any[] = [];
 
     // GET /api/resource - List all items
     routes.push({
@@ -717,6 +759,15 @@ class SchemockerMCPServer {
       response: schema,
     });
 
+    // PATCH /api/resource/:id - Partially update item
+    routes.push({
+      method: 'PATCH',
+      path: `${basePath}/:id`,
+      description: `Partially update a ${resourceName} by ID (JSON Merge Patch or JSON Patch)`,
+      request: { type: 'object' },
+      response: schema,
+    });
+
     // DELETE /api/resource/:id - Delete item
     routes.push({
       method: 'DELETE',
@@ -0,0 +1,470 @@
+/**
+ * Compiled generator plans for schemas
+ *
+ * A schema node is compiled once per root schema into a plan: its `$ref` is
+ * resolved, if/then/else branches are merged, union types are split into one
+ * schema per type, object and array keywords are normalised and the
+ * generation strategy is chosen. SchemaParser runs the plan on every call, so
+ * each call produces fresh data without analysing the schema again.
+ *
+ * Nodes are compiled lazily, the first time they are generated, so a broken
+ * `$ref` in a oneOf option that is never picked doesn't fail up front. Plans
+ * are keyed by schema object identity: schemas must not be mutated in place
+ * after they were first used, or SchemaParser.clearCache() must be called.
+ */
+
+import { Schema, JSONValue, JSONSchemaType, isSchema } from '../types';
+import { SchemaParseError, SchemaRefError } from '../errors';
+import { getLocalePack, getSupportedLocales } from '../locales';
+import {
+  CompiledTemplate,
+  ExpressionNode,
+  compileTemplate,
+  compileExpression,
+  templateReferences,
+  expressionReferences,
+  PARENT_SEGMENT
+} from '../utils/expressions';
+import { Distribution, compileDistribution, compileWeights } from '../utils/distributions';
+
+export interface ConditionalBranch {
+  /** Whether `if` must match a value generated from this branch */
+  matches: boolean;
+  /** The base schema merged with the branch */
+  schema: Schema;
+}
+
+interface BasePlan {
+  schema: Schema;
+  /** Locale pack code set with `x-schemock-locale` */
+  locale?: string;
+  /** True when every allowed type is "null" */
+  alwaysNull: boolean;
+  /** True when the type array includes "null" or `nullable: true` is set */
+  nullable: boolean;
+  /** Curated values from `examples`, `example` and `default` */
+  examples: JSONValue[];
+}
+
+/** A property whose value is derived from other values with `x-schemock-template` or `x-schemock-compute` */
+export interface DerivedProperty {
+  name: string;
+  schema: Schema;
+  template?: CompiledTemplate;
+  expression?: ExpressionNode;
+  /** Sibling properties the value is derived from */
+  dependencies: string[];
+}
+
+/** Normalised object keywords, shared by `object` and untyped schemas */
+export interface ObjectPlan {
+  /** Property schemas in declaration order, without `false` subschemas */
+  properties: Array<[string, Schema]>;
+  required: Set<string>;
+  /** dependentSchemas entries, typed as objects */
+  dependentSchemas: Array<[string, Schema]>;
+  /** Derived properties by name, each after the derived properties it depends on */
+  derived: Map<string, DerivedProperty>;
+}
+
+/** Normalised tuple and item keywords of an array schema */
+export interface ArrayPlan {
+  /** Tuple positions from `prefixItems` or draft-07 array-form `items` */
+  prefixItems: Schema[];
+  /** Schema for the items after the tuple positions */
+  restItems?: Schema;
+  /** True when no items may follow the tuple positions */
+  closed: boolean;
+  /** Distribution of the array length from `x-schemock-distribution` */
+  lengthDistribution?: Distribution;
+}
+
+export type GeneratorPlan = BasePlan & (
+  | { strategy: 'const' | 'faker' | 'string' | 'boolean' | 'null' }
+  | { strategy: 'enum'; values: JSONValue[]; weights?: number[] }
+  | { strategy: 'number'; distribution?: Distribution }
+  | { strategy: 'ref'; pointer: string; target: Schema }
+  | { strategy: 'conditional'; condition: Schema; branches: ConditionalBranch[] }
+  | { strategy: 'oneOf' | 'anyOf' | 'allOf'; subschemas: Schema[] }
+  | { strategy: 'union'; variants: Schema[] }
+  | ({ strategy: 'array' } & ArrayPlan)
+  | ({ strategy: 'object' | 'untyped' } & ObjectPlan)
+);
+
+/** Compiled plans per root schema, keyed by schema node */
+let compiledPlans = new WeakMap<Schema, WeakMap<Schema, GeneratorPlan>>();
+
+const stats = { compiled: 0, hits: 0 };
+
+/**
+ * Gets the compiled plan for a schema node, compiling it on first use
+ *
+ * @param schema - The schema node to generate from
+ * @param rootSchema - Root schema for $ref resolution
+ * @returns The node's generator plan
+ * @throws {SchemaParseError} When `x-schemock-locale` names an unsupported locale
+ * @throws {SchemaRefError} When a $ref cannot be resolved
+ */
+export function compileSchema(schema: Schema, rootSchema: Schema): GeneratorPlan {
+  let plans = compiledPlans.get(rootSchema);
+  if (!plans) {
+    plans = new WeakMap();
+    compiledPlans.set(rootSchema, plans);
+  }
+
+  const cached = plans.get(schema);
+  if (cached) {
+    stats.hits++;
+    return cached;
+  }
+
+  const plan = buildPlan(schema, rootSchema);
+  plans.set(schema, plan);
+  stats.compiled++;
+  return plan;
+}
+
+/**
+ * Discards all compiled plans and resets the plan statistics
+ */
+export function clearCompiledPlans(): void {
+  compiledPlans = new WeakMap();
+  stats.compiled = 0;
+  stats.hits = 0;
+}
+
+/**
+ * Gets plan compilation statistics
+ *
+ * @returns The number of plans compiled and of calls that reused a compiled plan
+ */
+export function getPlanStats(): { compiled: number; hits: number } {
+  return { ...stats };
+}
+
+/**
+ * Merges two schemas into one that applies both
+ *
+ * Property schemas are merged recursively and `required` lists are combined;
+ * any other keyword from the overlay replaces the base keyword.
+ *
+ * @param base - The schema to merge into
+ * @param overlay - The schema whose keywords take precedence
+ * @returns A new merged schema
+ */
+export function mergeSchemas(base: Schema, overlay: Schema): Schema {
+  const merged: Schema = { ...base, ...overlay };
+
+  if (base.properties && overlay.properties) {
+    merged.properties = { ...base.properties };
+    for (const [key, propSchema] of Object.entries(overlay.properties)) {
+      // Boolean subschemas (e.g. `false` to forbid a property) replace rather than merge
+      merged.properties[key] = base.properties[key] && typeof propSchema === 'object'
+        ? mergeSchemas(base.properties[key], propSchema)
+        : propSchema;
+    }
+  }
+
+  if (base.required || overlay.required) {
+    merged.required = Array.from(new Set([...(base.required || []), ...(overlay.required || [])]));
+  }
+
+  return merged;
+}
+
+/**
+ * Finds the properties declared for the records of a resource schema
+ *
+ * Array schemas are searched through their items, `$ref`s are followed and
+ * `allOf` subschemas are combined.
+ *
+ * @param schema - The record schema, or an array schema of records
+ * @param rootSchema - Root schema for $ref resolution
+ * @returns The property names and schemas
+ */
+export function findRecordProperties(schema: Schema, rootSchema: Schema = schema): Array<[string, Schema]> {
+  const found = new Map<string, Schema>();
+  const visited = new Set<Schema>();
+
+  const search = (node: Schema): void => {
+    if (visited.has(node)) {
+      return;
+    }
+    visited.add(node);
+
+    const plan = compileSchema(node, rootSchema);
+    switch (plan.strategy) {
+      case 'ref':
+        search(plan.target);
+        break;
+      case 'allOf':
+        plan.subschemas.forEach(search);
+        break;
+      case 'array':
+        if (plan.restItems) {
+          search(plan.restItems);
+        }
+        break;
+      case 'object':
+      case 'untyped':
+        for (const [name, propSchema] of plan.properties) {
+          found.set(name, propSchema);
+        }
+        break;
+    }
+  };
+
+  search(schema);
+  return Array.from(found);
+}
+
+function buildPlan(schema: Schema, rootSchema: Schema): GeneratorPlan {
+  const types: JSONSchemaType[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const base: BasePlan = {
+    schema,
+    locale: resolveSchemaLocale(schema),
+    alwaysNull: types.length > 0 && types.every(type => type === 'null'),
+    nullable: types.includes('null') || schema.nullable === true,
+    examples: collectExamples(schema)
+  };
+
+  // Keyword precedence: const, x-schemock-faker, enum, $ref, if/then/else, oneOf, anyOf, allOf, type
+  if (schema.const !== undefined) {
+    return { ...base, strategy: 'const' };
+  }
+  if (schema['x-schemock-faker'] !== undefined) {
+    return { ...base, strategy: 'faker' };
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return { ...base, strategy: 'enum', values: schema.enum, weights: compileWeights(schema.enum, schema['x-schemock-weights']) };
+  }
+  if (schema.$ref) {
+    return { ...base, strategy: 'ref', pointer: schema.$ref, target: resolvePointer(schema.$ref, rootSchema) };
+  }
+  if (schema.if && (schema.then || schema.else)) {
+    return { ...base, strategy: 'conditional', condition: schema.if, branches: compileBranches(schema) };
+  }
+  if (schema.oneOf && schema.oneOf.length > 0) {
+    return { ...base, strategy: 'oneOf', subschemas: schema.oneOf };
+  }
+  if (schema.anyOf && schema.anyOf.length > 0) {
+    return { ...base, strategy: 'anyOf', subschemas: schema.anyOf };
+  }
+  if (schema.allOf && schema.allOf.length > 0) {
+    return { ...base, strategy: 'allOf', subschemas: schema.allOf };
+  }
+
+  switch (schema.type) {
+    case 'string':
+    case 'boolean':
+    case 'null':
+      return { ...base, strategy: schema.type };
+    case 'number':
+    case 'integer':
+      return { ...base, strategy: 'number', distribution: compileDistribution(schema['x-schemock-distribution']) };
+    case 'array':
+      return { ...base, strategy: 'array', ...compileArray(schema) };
+    case 'object':
+      return { ...base, strategy: 'object', ...compileObject(schema) };
+    default:
+      if (Array.isArray(schema.type)) {
+        // Null is decided before generation, so only the other types become variants
+        const variants = schema.type
+          .filter(type => type !== 'null')
+          .map(type => ({ ...schema, type }));
+        return { ...base, strategy: 'union', variants };
+      }
+      return { ...base, strategy: 'untyped', ...compileObject(schema) };
+  }
+}
+
+function resolveSchemaLocale(schema: Schema): string | undefined {
+  const schemaLocale = schema['x-schemock-locale'];
+  if (schemaLocale === undefined) {
+    return undefined;
+  }
+  const pack = typeof schemaLocale === 'string' ? getLocalePack(schemaLocale) : undefined;
+  if (!pack) {
+    throw new SchemaParseError(
+      `Unsupported x-schemock-locale: ${String(schemaLocale)}`,
+      { locale: schemaLocale },
+      `Use one of the bundled locales: ${getSupportedLocales().join(', ')}.`
+    );
+  }
+  return pack.code;
+}
+
+function collectExamples(schema: Schema): JSONValue[] {
+  const examples: JSONValue[] = Array.isArray(schema.examples) ? [...schema.examples] : [];
+  if (schema.example !== undefined) {
+    examples.push(schema.example);
+  }
+  if (schema.default !== undefined) {
+    examples.push(schema.default);
+  }
+  return examples;
+}
+
+/**
+ * Resolves a local JSON pointer against the root schema
+ *
+ * @throws {SchemaRefError} When the reference is not local or its path doesn't exist
+ */
+function resolvePointer(ref: string, rootSchema: Schema): Schema {
+  // Only local JSON pointers can be resolved here; other documents, $id and
+  // $anchor references must be bundled first (see SchemaRegistry)
+  if (ref !== '#' && !ref.startsWith('#/')) {
+    throw new SchemaRefError(
+      `Cannot resolve $ref: ${ref}. External, $id and $anchor references must be bundled before generation`,
+      ref,
+      'Pass a schema root directory (--schema-dir or the schemaDir option), or bundle the schema with SchemaRegistry.'
+    );
+  }
+
+  // "#" refers to the root schema itself
+  const path = ref === '#' ? [] : ref.substring(2).split('/');
+  let resolved: unknown = rootSchema;
+
+  for (const token of path) {
+    const part = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (resolved && typeof resolved === 'object' && part in resolved) {
+      resolved = (resolved as Record<string, unknown>)[part];
+    } else {
+      throw new SchemaRefError(
+        `Cannot resolve $ref: ${ref}. Path not found: ${part}`,
+        ref
+      );
+    }
+  }
+
+  if (!isSchema(resolved)) {
+    throw new SchemaRefError(
+      `Cannot resolve $ref: ${ref}. Resolved value is not a valid Schema`,
+      ref
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Merges each if/then/else branch with the base schema (and with `if` itself
+ * for the then-branch, so the condition holds)
+ */
+function compileBranches(schema: Schema): ConditionalBranch[] {
+  const { if: ifSchema, then: thenSchema, else: elseSchema, ...base } = schema;
+  const branches: ConditionalBranch[] = [];
+
+  if (thenSchema) {
+    branches.push({ matches: true, schema: mergeSchemas(mergeSchemas(base, ifSchema as Schema), thenSchema) });
+  }
+  branches.push({ matches: false, schema: elseSchema ? mergeSchemas(base, elseSchema) : base });
+
+  return branches;
+}
+
+function compileArray(schema: Schema): ArrayPlan {
+  // 2020-12 uses prefixItems + items; draft-07 uses array-form items + additionalItems
+  const prefixItems = schema.prefixItems || (Array.isArray(schema.items) ? schema.items : []);
+  const rest = schema.prefixItems
+    ? schema.items
+    : (Array.isArray(schema.items) ? schema.additionalItems : schema.items);
+
+  return {
+    prefixItems,
+    restItems: rest && typeof rest === 'object' && !Array.isArray(rest) ? rest : undefined,
+    closed: rest === false,
+    lengthDistribution: compileDistribution(schema['x-schemock-distribution'])
+  };
+}
+
+function compileObject(schema: Schema): ObjectPlan {
+  // A `false` subschema forbids the property entirely
+  const properties = Object.entries(schema.properties || {})
+    .filter(([, propSchema]) => (propSchema as unknown) !== false);
+  const dependentSchemas = Object.entries(schema.dependentSchemas || {})
+    .map(([trigger, dependentSchema]): [string, Schema] => [trigger, { type: 'object', ...dependentSchema }]);
+
+  return {
+    properties,
+    required: new Set(schema.required || []),
+    dependentSchemas,
+    derived: compileDerived(properties)
+  };
+}
+
+/**
+ * Compiles the templates and expressions of derived properties and orders
+ * them so each comes after the derived properties it reads
+ *
+ * @throws {SchemaParseError} When a template or expression is invalid or reads an undeclared property, or derived properties depend on each other in a cycle
+ */
+function compileDerived(properties: Array<[string, Schema]>): Map<string, DerivedProperty> {
+  const names = new Set(properties.map(([name]) => name));
+  const unordered = new Map<string, DerivedProperty>();
+
+  for (const [name, propSchema] of properties) {
+    const template = propSchema['x-schemock-template'];
+    const compute = propSchema['x-schemock-compute'];
+    if (template === undefined && compute === undefined) {
+      continue;
+    }
+    if (template !== undefined && compute !== undefined) {
+      throw new SchemaParseError(
+        `Property "${name}" sets both x-schemock-template and x-schemock-compute`,
+        { property: name },
+        'Use x-schemock-template for strings and x-schemock-compute for numbers.'
+      );
+    }
+    if (typeof (template ?? compute) !== 'string') {
+      throw new SchemaParseError(
+        `The ${template !== undefined ? 'x-schemock-template' : 'x-schemock-compute'} of property "${name}" must be a string`,
+        { property: name, value: template ?? compute }
+      );
+    }
+
+    const derived: DerivedProperty = template !== undefined
+      ? { name, schema: propSchema, template: compileTemplate(template), dependencies: [] }
+      : { name, schema: propSchema, expression: compileExpression(compute as string), dependencies: [] };
+    const paths = derived.template ? templateReferences(derived.template) : expressionReferences(derived.expression as ExpressionNode);
+    const unknown = paths.find(path => path[0] !== PARENT_SEGMENT && !names.has(path[0]));
+    if (unknown) {
+      throw new SchemaParseError(
+        `The ${template !== undefined ? 'x-schemock-template' : 'x-schemock-compute'} of property "${name}" reads "${unknown.join('.')}", which is not a property of the object`,
+        { property: name, path: unknown.join('.') },
+        `Declare "${unknown[0]}" in the same properties, or read the enclosing object with $parent.${unknown.join('.')}.`
+      );
+    }
+    derived.dependencies = Array.from(new Set(paths.map(path => path[0]).filter(first => names.has(first))));
+    unordered.set(name, derived);
+  }
+
+  // Depth-first topological order; `pending` holds the chain being visited
+  const ordered = new Map<string, DerivedProperty>();
+  const pending: string[] = [];
+  const visit = (derived: DerivedProperty): void => {
+    if (ordered.has(derived.name)) {
+      return;
+    }
+    if (pending.includes(derived.name)) {
+      const cycle = [...pending.slice(pending.indexOf(derived.name)), derived.name];
+      throw new SchemaParseError(
+        `Derived properties depend on each other in a cycle: ${cycle.join(' -> ')}`,
+        { cycle },
+        'Make at least one property in the cycle a generated value.'
+      );
+    }
+    pending.push(derived.name);
+    for (const dependency of derived.dependencies) {
+      const source = unordered.get(dependency);
+      if (source) {
+        visit(source);
+      }
+    }
+    pending.pop();
+    ordered.set(derived.name, derived);
+  };
+  unordered.forEach(visit);
+
+  return ordered;
+}
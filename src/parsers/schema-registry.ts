@@ -0,0 +1,481 @@
+/**
+ * Schema registry for multi-file and external $ref resolution
+ *
+ * Loads a directory of schema files, indexes every document by file URL and
+ * `$id`, and every `$anchor`, then bundles an entry schema into a single
+ * self-contained schema whose external references point at local `$defs`.
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { resolve, join, relative, isAbsolute, sep } from 'path';
+import { pathToFileURL, fileURLToPath } from 'url';
+import { Schema } from '../types';
+import { SchemaRefError, FileError } from '../errors';
+
+/** Keywords whose values are data rather than subschemas */
+const DATA_KEYWORDS = new Set(['const', 'enum', 'default', 'examples']);
+
+/** Keywords that don't count as "content" when checking for a pure $ref */
+const ANNOTATION_KEYWORDS = new Set(['$ref', '$comment', 'title', 'description']);
+
+interface ResolvedSchema {
+  schema: Schema;
+  /** Base URI for references inside the resolved schema */
+  uri: string;
+}
+
+interface BundleState {
+  entryUri: string;
+  defs: Record<string, Schema>;
+  keys: Map<string, string>;
+  usedKeys: Set<string>;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function stripFragment(uri: string): string {
+  const index = uri.indexOf('#');
+  return index === -1 ? uri : uri.substring(0, index);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a schema contains references that the parser cannot resolve
+ * on its own (anything other than a local JSON pointer like "#/$defs/User").
+ *
+ * @param schema - The schema to inspect
+ * @returns True if any $ref points at another document, an $id or an $anchor
+ */
+export function hasExternalRefs(schema: unknown): boolean {
+  if (Array.isArray(schema)) {
+    return schema.some(hasExternalRefs);
+  }
+  if (!isObject(schema)) {
+    return false;
+  }
+  if (typeof schema.$ref === 'string' && schema.$ref !== '#' && !schema.$ref.startsWith('#/')) {
+    return true;
+  }
+  return Object.entries(schema).some(([key, value]) => !DATA_KEYWORDS.has(key) && hasExternalRefs(value));
+}
+
+/**
+ * A registry of schema documents used to resolve references across files.
+ *
+ * Usage:
+ *   const registry = SchemaRegistry.fromDirectory('./schemas');
+ *   const bundled = registry.bundle(orderSchema, pathToFileURL('./schemas/order.json').href);
+ *   // bundled.$defs now contains Address from ./common/address.json
+ */
+export class SchemaRegistry {
+  /** Documents and $id-identified subschemas, keyed by absolute URI without fragment */
+  private documents: Map<string, ResolvedSchema> = new Map();
+  /** Anchored subschemas, keyed by `${documentUri}#${anchor}` */
+  private anchors: Map<string, ResolvedSchema> = new Map();
+  private rootDir?: string;
+
+  /**
+   * Creates an empty registry.
+   *
+   * @param rootDir - Optional directory that referenced files must live in
+   */
+  constructor(rootDir?: string) {
+    this.rootDir = rootDir ? resolve(rootDir) : undefined;
+  }
+
+  /**
+   * Creates a registry preloaded with every .json file under a directory.
+   *
+   * @param dir - The schema root directory
+   * @returns A registry restricted to files inside the directory
+   * @throws {FileError} When the directory or one of its schema files cannot be read
+   */
+  static fromDirectory(dir: string): SchemaRegistry {
+    const registry = new SchemaRegistry(dir);
+    registry.loadDirectory(dir);
+    return registry;
+  }
+
+  /**
+   * Loads every .json file under a directory (recursively).
+   * Hidden directories and node_modules are skipped.
+   *
+   * @param dir - The directory to scan
+   * @throws {FileError} When the directory or a schema file cannot be read
+   */
+  loadDirectory(dir: string): void {
+    const absoluteDir = resolve(dir);
+    if (!existsSync(absoluteDir)) {
+      throw new FileError(`Schema directory not found: ${absoluteDir}`, absoluteDir, 'read');
+    }
+
+    for (const entry of readdirSync(absoluteDir, { withFileTypes: true })) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+        continue;
+      }
+      const entryPath = join(absoluteDir, entry.name);
+      if (entry.isDirectory()) {
+        this.loadDirectory(entryPath);
+      } else if (entry.isFile() && entry.name.endsWith('.json')) {
+        this.loadFile(entryPath);
+      }
+    }
+  }
+
+  /**
+   * Loads and registers a single schema file.
+   *
+   * @param filePath - Path to the schema file
+   * @returns The parsed schema
+   * @throws {FileError} When the file cannot be read or is not valid JSON
+   */
+  loadFile(filePath: string): Schema {
+    const absolutePath = resolve(filePath);
+    const uri = pathToFileURL(absolutePath).href;
+    const existing = this.documents.get(uri);
+    if (existing) {
+      return existing.schema;
+    }
+
+    let schema: Schema;
+    try {
+      schema = JSON.parse(readFileSync(absolutePath, 'utf-8'));
+    } catch (error) {
+      throw new FileError(
+        `Cannot load schema file ${absolutePath}: ${error instanceof Error ? error.message : String(error)}`,
+        absolutePath,
+        'read'
+      );
+    }
+
+    this.register(schema, uri);
+    return schema;
+  }
+
+  /**
+   * Registers a schema document under a URI, indexing nested `$id`s and `$anchor`s.
+   *
+   * @param schema - The schema document
+   * @param uri - Absolute URI the document is known by (e.g. a file:// URL)
+   */
+  register(schema: Schema, uri: string): void {
+    const documentUri = stripFragment(uri);
+    // A root $id is the document's canonical URI, whichever way it was loaded
+    const canonicalUri = typeof schema.$id === 'string' && !schema.$id.startsWith('#')
+      ? stripFragment(new URL(schema.$id, documentUri).href)
+      : documentUri;
+    this.documents.set(documentUri, { schema, uri: canonicalUri });
+    this.index(schema, documentUri);
+  }
+
+  /**
+   * Checks whether a document or $id is registered.
+   *
+   * @param uri - Absolute URI to look up
+   */
+  has(uri: string): boolean {
+    return this.documents.has(stripFragment(uri));
+  }
+
+  /**
+   * Resolves a reference relative to a base URI.
+   *
+   * Supports relative file references, `$id` lookups, JSON pointer
+   * fragments (`#/$defs/Address`) and anchor fragments (`#Address`).
+   *
+   * @param ref - The $ref value
+   * @param baseUri - The URI of the document containing the reference
+   * @returns The referenced schema and its base URI
+   * @throws {SchemaRefError} When the document, pointer or anchor does not exist
+   */
+  resolve(ref: string, baseUri: string): ResolvedSchema {
+    const absolute = new URL(ref, baseUri);
+    const fragment = decodeURIComponent(absolute.hash.substring(1));
+    absolute.hash = '';
+    const documentUri = absolute.href;
+
+    const document = this.documents.get(documentUri) ?? this.loadReferencedFile(documentUri, ref, baseUri);
+
+    if (!fragment) {
+      return document;
+    }
+
+    if (fragment.startsWith('/')) {
+      let resolved: unknown = document.schema;
+      for (const token of fragment.substring(1).split('/')) {
+        const part = token.replace(/~1/g, '/').replace(/~0/g, '~');
+        if (!isObject(resolved) && !Array.isArray(resolved)) {
+          resolved = undefined;
+        }
+        if (resolved === undefined || !(part in (resolved as object))) {
+          throw new SchemaRefError(
+            `Cannot resolve $ref "${ref}" from ${this.display(baseUri)}: path not found "${part}" in ${this.display(documentUri)}`,
+            ref
+          );
+        }
+        resolved = (resolved as Record<string, unknown>)[part];
+      }
+      if (!isObject(resolved)) {
+        throw new SchemaRefError(
+          `Cannot resolve $ref "${ref}" from ${this.display(baseUri)}: target is not a schema object`,
+          ref
+        );
+      }
+      return { schema: resolved as Schema, uri: document.uri };
+    }
+
+    const anchored = this.anchors.get(`${documentUri}#${fragment}`);
+    if (!anchored) {
+      throw new SchemaRefError(
+        `Cannot resolve $ref "${ref}" from ${this.display(baseUri)}: no $anchor "${fragment}" in ${this.display(documentUri)}`,
+        ref,
+        'Declare the anchor with "$anchor" in the referenced schema, or use a JSON pointer such as "#/$defs/Name".'
+      );
+    }
+    return anchored;
+  }
+
+  /**
+   * Bundles a schema so every reference is local.
+   *
+   * External, `$id` and `$anchor` references are copied into the root `$defs`
+   * and rewritten to `#/$defs/<name>`. Local JSON pointers into the entry
+   * document are left untouched. Recursive references across files become
+   * recursive local references.
+   *
+   * @param schema - The entry schema
+   * @param baseUri - URI of the entry document (defaults to the registry root directory)
+   * @returns A new, self-contained schema
+   * @throws {SchemaRefError} When a reference cannot be resolved or forms a $ref-only cycle
+   */
+  bundle(schema: Schema, baseUri?: string): Schema {
+    const base = baseUri ?? pathToFileURL((this.rootDir ?? process.cwd()) + sep).href;
+    const root = clone(schema);
+    const entryUri = typeof root.$id === 'string' && !root.$id.startsWith('#')
+      ? stripFragment(new URL(root.$id, base).href)
+      : stripFragment(base);
+
+    this.register(root, base);
+    if (entryUri !== stripFragment(base)) {
+      this.register(root, entryUri);
+    }
+
+    const state: BundleState = {
+      entryUri,
+      defs: {},
+      keys: new Map(),
+      usedKeys: new Set(Object.keys(root.$defs ?? {}))
+    };
+
+    this.walk(root, entryUri, state, true);
+
+    if (Object.keys(state.defs).length > 0) {
+      root.$defs = { ...(root.$defs ?? {}), ...state.defs };
+    }
+
+    return root;
+  }
+
+  /**
+   * Indexes `$id` and `$anchor` declarations inside a document.
+   */
+  private index(node: unknown, base: string): void {
+    if (Array.isArray(node)) {
+      node.forEach(item => this.index(item, base));
+      return;
+    }
+    if (!isObject(node)) {
+      return;
+    }
+
+    let current = base;
+    if (typeof node.$id === 'string') {
+      if (node.$id.startsWith('#')) {
+        // Draft-07 style plain-name fragment identifier
+        this.anchors.set(`${base}${node.$id}`, { schema: node as Schema, uri: base });
+      } else {
+        current = stripFragment(new URL(node.$id, base).href);
+        this.documents.set(current, { schema: node as Schema, uri: current });
+      }
+    }
+    if (typeof node.$anchor === 'string') {
+      this.anchors.set(`${current}#${node.$anchor}`, { schema: node as Schema, uri: current });
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (!DATA_KEYWORDS.has(key)) {
+        this.index(value, current);
+      }
+    }
+  }
+
+  /**
+   * Rewrites references in place while walking a schema being bundled.
+   */
+  private walk(node: unknown, base: string, state: BundleState, isRoot: boolean = false): void {
+    if (Array.isArray(node)) {
+      node.forEach(item => this.walk(item, base, state));
+      return;
+    }
+    if (!isObject(node)) {
+      return;
+    }
+
+    let current = base;
+    if (typeof node.$id === 'string' && !node.$id.startsWith('#')) {
+      current = stripFragment(new URL(node.$id, base).href);
+      // Nested resources are flattened into the bundle, so their $id no longer applies
+      if (!isRoot) {
+        delete node.$id;
+      }
+    }
+
+    if (typeof node.$ref === 'string') {
+      node.$ref = this.rewriteRef(node.$ref, current, state);
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (key !== '$ref' && !DATA_KEYWORDS.has(key)) {
+        this.walk(value, current, state);
+      }
+    }
+  }
+
+  /**
+   * Returns the local form of a reference, copying its target into the bundle if needed.
+   */
+  private rewriteRef(ref: string, base: string, state: BundleState): string {
+    const absolute = new URL(ref, base);
+    const fragment = absolute.hash;
+
+    // Local pointers into the entry document stay as they are
+    if (stripFragment(absolute.href) === state.entryUri && (fragment === '' || fragment.startsWith('#/'))) {
+      return fragment || '#';
+    }
+
+    this.assertNoRefCycle(ref, base);
+    const target = this.resolve(ref, base);
+
+    // Key by canonical URI so a document reached by path and by $id is bundled once
+    const canonical = `${target.uri}${fragment}`;
+    const existingKey = state.keys.get(canonical);
+    if (existingKey) {
+      return `#/$defs/${existingKey}`;
+    }
+
+    const key = this.uniqueKey(absolute, state);
+    state.keys.set(canonical, key);
+
+    const copy = clone(target.schema);
+    delete copy.$schema;
+    state.defs[key] = copy;
+    this.walk(copy, target.uri, state);
+
+    return `#/$defs/${key}`;
+  }
+
+  /**
+   * Follows a chain of schemas that consist of nothing but a $ref and
+   * throws if the chain loops back on itself (such schemas can never produce data).
+   */
+  private assertNoRefCycle(ref: string, base: string): void {
+    const chain: string[] = [];
+    let currentRef = ref;
+    let currentBase = base;
+
+    for (;;) {
+      const absolute = new URL(currentRef, currentBase).href;
+      if (chain.includes(absolute)) {
+        const path = [...chain, absolute].map(uri => this.display(uri)).join(' -> ');
+        throw new SchemaRefError(
+          `Circular $ref chain detected: ${path}`,
+          ref,
+          'Every $ref chain must end at a schema with its own keywords (type, properties, ...).'
+        );
+      }
+      chain.push(absolute);
+
+      const target = this.resolve(currentRef, currentBase);
+      const isPureRef = typeof target.schema.$ref === 'string' &&
+        Object.keys(target.schema).every(key => ANNOTATION_KEYWORDS.has(key));
+      if (!isPureRef) {
+        return;
+      }
+      currentRef = target.schema.$ref as string;
+      currentBase = target.uri;
+    }
+  }
+
+  /**
+   * Picks a readable, unused $defs key for a referenced schema.
+   * "./common/address.json#/$defs/Address" → "Address", "./money.json" → "money"
+   */
+  private uniqueKey(uri: URL, state: BundleState): string {
+    const fragment = decodeURIComponent(uri.hash.substring(1));
+    const fileName = uri.pathname.split('/').pop() ?? '';
+    const hint = fragment
+      ? fragment.split('/').filter(Boolean).pop() ?? fragment
+      : fileName.replace(/(\.schema)?\.json$/, '');
+    const base = hint.replace(/[^A-Za-z0-9_.-]/g, '_') || 'Schema';
+
+    let key = base;
+    for (let i = 2; state.usedKeys.has(key); i++) {
+      key = `${base}_${i}`;
+    }
+    state.usedKeys.add(key);
+    return key;
+  }
+
+  /**
+   * Loads a file:// reference that wasn't preloaded.
+   */
+  private loadReferencedFile(documentUri: string, ref: string, baseUri: string): ResolvedSchema {
+    if (!documentUri.startsWith('file:')) {
+      throw new SchemaRefError(
+        `Cannot resolve $ref "${ref}" from ${this.display(baseUri)}: no schema with $id ${documentUri}`,
+        ref,
+        'Remote schemas are not fetched. Add a schema declaring this $id to the schema directory.'
+      );
+    }
+
+    const filePath = fileURLToPath(documentUri);
+    if (this.rootDir) {
+      const fromRoot = relative(this.rootDir, filePath);
+      if (fromRoot.startsWith('..') || isAbsolute(fromRoot)) {
+        throw new SchemaRefError(
+          `Cannot resolve $ref "${ref}" from ${this.display(baseUri)}: ${filePath} is outside the schema directory ${this.rootDir}`,
+          ref,
+          'Point the schema root directory at a folder that contains every referenced file.'
+        );
+      }
+    }
+    if (!existsSync(filePath)) {
+      throw new SchemaRefError(
+        `Cannot resolve $ref "${ref}" from ${this.display(baseUri)}: file not found ${filePath}`,
+        ref,
+        'Check the relative path of the reference; it is resolved against the referring file.'
+      );
+    }
+
+    this.loadFile(filePath);
+    return this.documents.get(documentUri) as ResolvedSchema;
+  }
+
+  /**
+   * Formats a URI for error messages, using paths relative to the root directory for files.
+   */
+  private display(uri: string): string {
+    if (!uri.startsWith('file:')) {
+      return uri;
+    }
+    const [path, fragment] = uri.split('#');
+    const filePath = fileURLToPath(path);
+    const shown = relative(this.rootDir ?? process.cwd(), filePath) || '.';
+    return fragment !== undefined ? `${shown}#${fragment}` : shown;
+  }
+}
@@ -1,16 +1,65 @@
-import { Schema, JSONValue, NonNullJSONValue, isSchema } from '../types';
-import { SchemaParseError, SchemaRefError } from '../errors';
-import { LRUCache, createCacheKey } from '../utils/cache';
-import { DEFAULT_CACHE_SIZE, CACHE_TTL } from '../utils/constants';
-import { random, randomInt, randomFloat, initRandomGenerator, resetRandomGenerator } from '../utils/random';
+import {
+  Schema,
+  JSONValue,
+  NonNullJSONValue,
+  FakerSpec,
+  CustomGenerator,
+  GeneratorContext,
+  PropertyMatcher,
+  UnknownFormatContext,
+  UnknownFormatHandler
+} from '../types';
+import { SchemockError, SchemaParseError, ValidationError } from '../errors';
+import { DEFAULT_NULL_PROBABILITY, DEFAULT_EXAMPLE_PROBABILITY, DEFAULT_LOCALE, MAX_SCHEMA_DEPTH, DEFAULT_MAX_NODES, MAX_UNIQUE_ATTEMPTS } from '../utils/constants';
+import { random, randomInt, randomFloat, randomUuid, initRandomGenerator, resetRandomGenerator, generatorRandom } from '../utils/random';
 import { safeMerge } from '../utils/config';
+import { generateFromPattern } from '../utils/regex-generator';
+import {
+  DateFormat,
+  isDateFormat,
+  setReferenceDate,
+  getReferenceTime,
+  parseDateValue,
+  defaultDateWindow,
+  boundedDateWindow,
+  randomDateBetween,
+  findDatePairAnchor
+} from '../utils/temporal';
 import { enrichField, isSemanticField } from '../generators/field-enricher';
+import { generateFake } from '../generators/faker-catalog';
+import { generateContent, isImageProperty, placeholderUrl, setPlaceholderBaseUrl } from '../generators/media';
+import { GeneratorPlan, ObjectPlan, ArrayPlan, ConditionalBranch, DerivedProperty, compileSchema, clearCompiledPlans, getPlanStats, mergeSchemas } from './schema-plan';
+import { ValueScope, renderTemplate, evaluateExpression } from '../utils/expressions';
+import { Distribution, pickWeighted, sampleNumber } from '../utils/distributions';
+import { generateFormat, isKnownFormat } from '../utils/formats';
+import { getValidator } from '../utils/schema-validator';
+import { log } from '../utils/logger';
+import {
+  getLocalePack,
+  getSupportedLocales,
+  fillFormat,
+  pickLocaleValue,
+  generateFullName,
+  generateStreetAddress,
+  enUS
+} from '../locales';
 
-// Create a singleton cache for parsed schemas
-const schemaCache = new LRUCache<JSONValue>({
-  maxSize: DEFAULT_CACHE_SIZE,
-  ttl: CACHE_TTL
-});
+/** Attempts made to generate a value that lands on the intended if/then/else branch */
+const MAX_CONDITIONAL_ATTEMPTS = 3;
+
+/** ID property names: `id`, `uuid`, `user_id`, `USER-ID` */
+const ID_WORD = /(?:^|[_-])(?:id|uuid|guid)$/i;
+
+/** Camel-case ID property names: `userId`, `orderUUID` */
+const ID_SUFFIX = /[a-z0-9](?:Id|ID|Uuid|UUID|Guid|GUID)$/;
+
+interface PropertyHeuristic {
+  matcher: PropertyMatcher;
+  generator: CustomGenerator;
+}
+
+/** Strategies whose value is generated from the schema `type`, after custom generators had a chance */
+const TYPED_STRATEGIES = new Set<GeneratorPlan['strategy']>(['enum', 'string', 'number', 'boolean', 'null', 'union', 'array', 'object', 'untyped']);
 
 /**
  * A parser for JSON Schema that generates mock data based on schema definitions.
@@ -19,25 +68,60 @@ const schemaCache = new LRUCache<JSONValue>({
  * constraints, references (oneOf, anyOf, allOf, $ref), and property heuristics
  * for generating realistic mock data.
  *
- * Uses an LRU cache to improve performance for repeated schema parsing.
+ * Each schema node is compiled once into a generator plan (see schema-plan.ts)
+ * and every call generates fresh data from it.
  */
 export class SchemaParser {
+  /** Probability of generating null for a nullable schema */
+  private static nullProbability = DEFAULT_NULL_PROBABILITY;
+
+  /** Probability of using a schema's `examples`, `example` or `default` value instead of generating one */
+  private static exampleProbability = DEFAULT_EXAMPLE_PROBABILITY;
+
+  /** Locale pack used for name, address and phone heuristics */
+  private static locale = DEFAULT_LOCALE;
+
+  /** Generators registered with registerFormat(), keyed by format name */
+  private static customFormats: Map<string, CustomGenerator> = new Map();
+
+  /** Called for string formats without a generator */
+  private static unknownFormatHandler: UnknownFormatHandler = warnUnknownFormat;
+
+  /** Generators registered with registerPropertyHeuristic(), in registration order */
+  private static propertyHeuristics: PropertyHeuristic[] = [];
+
+  /** Objects currently being generated, innermost last (the `parent` given to custom generators) */
+  private static parentStack: Record<string, JSONValue>[] = [];
+
+  /** Object/array nesting depth at which optional properties and array items run out */
+  private static maxDepth = MAX_SCHEMA_DEPTH;
+
+  /** Property values and array items generated at most for one top-level value */
+  private static maxNodes = DEFAULT_MAX_NODES;
+
+  /** Object/array nesting depth of the value currently being generated */
+  private static depth = 0;
+
+  /** Property values and array items generated so far for the current top-level value */
+  private static nodeCount = 0;
+
   /**
-   * Clears the schema cache
+   * Clears the compiled generator plans
    *
-   * Removes all cached parsed schemas from the LRU cache.
+   * Plans are keyed by schema object, so call this after mutating a schema
+   * that has already been generated from.
    */
   static clearCache(): void {
-    schemaCache.clear();
+    clearCompiledPlans();
   }
 
   /**
-   * Gets cache statistics
+   * Gets generator plan statistics
    *
-   * @returns Statistics about the cache including hits, misses, and size
+   * @returns The number of plans compiled and of calls that reused a compiled plan
    */
   static getCacheStats() {
-    return schemaCache.getStats();
+    return getPlanStats();
   }
 
   /**
@@ -58,72 +142,285 @@ export class SchemaParser {
     resetRandomGenerator();
   }
 
+  /**
+   * Sets the probability of generating null for nullable schemas
+   *
+   * A schema is nullable when its `type` array includes "null" or it sets
+   * the OpenAPI `nullable: true` flag. Schemas whose only type is "null"
+   * always generate null.
+   *
+   * @param probability - A value between 0 (never null) and 1 (always null)
+   * @throws {ValidationError} When the probability is outside [0, 1]
+   */
+  static setNullProbability(probability: number): void {
+    this.assertProbability(probability, 'nullProbability', 'Null probability',
+      'Use 0 to never generate null for nullable fields and 1 to always generate null.');
+    this.nullProbability = probability;
+  }
+
+  /**
+   * Gets the probability of generating null for nullable schemas
+   *
+   * @returns The current null probability
+   */
+  static getNullProbability(): number {
+    return this.nullProbability;
+  }
+
+  /**
+   * Sets the probability of using curated example data
+   *
+   * When a schema has `examples`, an OpenAPI `example` or a `default`, one of
+   * those values is returned with this probability instead of a generated
+   * value. `const` always wins regardless of this setting.
+   *
+   * @param probability - A value between 0 (always generate, the default) and 1 (always use examples)
+   * @throws {ValidationError} When the probability is outside [0, 1]
+   */
+  static setExampleProbability(probability: number): void {
+    this.assertProbability(probability, 'exampleProbability', 'Example probability',
+      'Use 1 to always prefer curated examples and 0 to always generate data.');
+    this.exampleProbability = probability;
+  }
+
+  /**
+   * Gets the probability of using curated example data
+   *
+   * @returns The current example probability
+   */
+  static getExampleProbability(): number {
+    return this.exampleProbability;
+  }
+
+  /**
+   * Sets the depth and size budget for nested data
+   *
+   * Optional properties and array sizes shrink linearly as objects and arrays
+   * nest deeper, reaching required properties and `minItems` at `maxDepth`.
+   * Recursive `$ref`s (e.g. a comment tree with `replies: { $ref: '#' }`)
+   * expand until the budget runs out. Once `maxNodes` property values and
+   * array items have been generated for a top-level value, the rest of it
+   * gets only required properties and `minItems` items.
+   *
+   * @param limits - The nesting depth and node count limits to change
+   * @throws {ValidationError} When a limit is not a positive integer
+   */
+  static setDepthLimits(limits: { maxDepth?: number; maxNodes?: number }): void {
+    for (const [field, value] of Object.entries(limits)) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new ValidationError(`${field} must be a positive integer`, field, value,
+          'Lower limits produce smaller nested data; raise them for deeper trees.');
+      }
+    }
+    this.maxDepth = limits.maxDepth ?? this.maxDepth;
+    this.maxNodes = limits.maxNodes ?? this.maxNodes;
+  }
+
+  /**
+   * Gets the depth and size budget for nested data
+   *
+   * @returns The current nesting depth and node count limits
+   */
+  static getDepthLimits(): { maxDepth: number; maxNodes: number } {
+    return { maxDepth: this.maxDepth, maxNodes: this.maxNodes };
+  }
+
+  /**
+   * Sets the time that generated dates are based on
+   *
+   * Default date windows (the past year, birthdays 18-80 years ago) and
+   * relative bounds such as `formatMinimum: "now-90d"` count from this time.
+   * Set it together with a seed for fully reproducible dates.
+   *
+   * @param date - A date, ISO string or timestamp; undefined to use the current time
+   * @throws {ValidationError} When the date is invalid
+   */
+  static setReferenceDate(date?: Date | string | number): void {
+    setReferenceDate(date);
+  }
+
+  /**
+   * Gets the time that generated dates are based on
+   *
+   * @returns The reference date
+   */
+  static getReferenceDate(): Date {
+    return new Date(getReferenceTime());
+  }
+
+  /**
+   * Sets the server URL that generated image URLs such as `avatarUrl` point at
+   *
+   * The mock server sets it to its own address, so the URLs load its
+   * placeholder images.
+   *
+   * @param baseUrl - The server URL, e.g. http://localhost:3000
+   */
+  static setPlaceholderBaseUrl(baseUrl: string): void {
+    setPlaceholderBaseUrl(baseUrl);
+  }
+
+  /**
+   * Sets the locale used for generated names, addresses and phone numbers
+   *
+   * @param locale - A bundled locale such as 'de-DE', or a language such as 'de'
+   * @throws {ValidationError} When no bundled locale pack matches
+   */
+  static setLocale(locale: string): void {
+    this.locale = this.resolveLocale(locale);
+  }
+
+  /**
+   * Gets the locale used for generated names, addresses and phone numbers
+   *
+   * @returns The current locale code
+   */
+  static getLocale(): string {
+    return this.locale;
+  }
+
+  /**
+   * Runs a generation callback with a temporary locale
+   *
+   * Used to switch locale per request (e.g. from Accept-Language) without
+   * changing the default for other requests.
+   *
+   * @param locale - The locale to use, or undefined to keep the current one
+   * @param callback - Synchronous callback that generates data
+   * @returns The callback's result
+   * @throws {ValidationError} When no bundled locale pack matches
+   */
+  static withLocale<T>(locale: string | undefined, callback: () => T): T {
+    if (!locale) {
+      return callback();
+    }
+    const previous = this.locale;
+    this.locale = this.resolveLocale(locale);
+    try {
+      return callback();
+    } finally {
+      this.locale = previous;
+    }
+  }
+
+  /**
+   * Registers a generator for a custom string `format`
+   *
+   * Registered formats take precedence over the built-in formats, so they can
+   * also override them. The generator may return undefined to fall back to
+   * built-in generation.
+   *
+   * Usage:
+   *   SchemaParser.registerFormat('tenant-id', ({ random }) => `tn_${random.int(1000, 9999)}`);
+   *
+   * @param name - The format name, as used in `"format": "tenant-id"`
+   * @param generator - Receives the schema, property name, parent object, seeded RNG and locale
+   * @throws {ValidationError} When the name or generator is invalid
+   */
+  static registerFormat(name: string, generator: CustomGenerator): void {
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new ValidationError('Format name must be a non-empty string', 'format', name);
+    }
+    if (typeof generator !== 'function') {
+      throw new ValidationError(`Generator for format "${name}" must be a function`, 'generator', typeof generator);
+    }
+    this.customFormats.set(name, generator);
+  }
+
+  /**
+   * Removes a generator registered with registerFormat()
+   *
+   * @param name - The format name
+   * @returns True if a generator was registered for the format
+   */
+  static unregisterFormat(name: string): boolean {
+    return this.customFormats.delete(name);
+  }
+
+  /**
+   * Registers a generator for properties whose name matches
+   *
+   * Heuristics run before the built-in property-name heuristics, in
+   * registration order, and are skipped for schemas with a `pattern` or `enum`.
+   * The generator may return undefined to let the next heuristic run.
+   *
+   * Usage:
+   *   SchemaParser.registerPropertyHeuristic(/isin$/i, () => 'US0378331005');
+   *
+   * @param matcher - Exact property name (case-insensitive), RegExp, or predicate
+   * @param generator - Receives the schema, property name, parent object, seeded RNG and locale
+   * @throws {ValidationError} When the matcher or generator is invalid
+   */
+  static registerPropertyHeuristic(matcher: PropertyMatcher, generator: CustomGenerator): void {
+    if (typeof matcher !== 'string' && typeof matcher !== 'function' && !(matcher instanceof RegExp)) {
+      throw new ValidationError('Property matcher must be a string, RegExp or function', 'matcher', typeof matcher);
+    }
+    if (typeof generator !== 'function') {
+      throw new ValidationError('Property heuristic generator must be a function', 'generator', typeof generator);
+    }
+    this.propertyHeuristics.push({ matcher, generator });
+  }
+
+  /**
+   * Sets the hook called when a string schema has a format that neither a
+   * built-in nor a custom generator knows; such values fall back to random
+   * strings. By default a warning is logged once per format.
+   *
+   * @param handler - The hook, or undefined to restore the default warning
+   */
+  static setUnknownFormatHandler(handler?: UnknownFormatHandler): void {
+    this.unknownFormatHandler = handler ?? warnUnknownFormat;
+  }
+
+  /**
+   * Removes all custom formats and property heuristics
+   */
+  static clearCustomGenerators(): void {
+    this.customFormats.clear();
+    this.propertyHeuristics = [];
+  }
+
   /**
    * Parses a JSON schema and generates mock data based on the schema definition
    *
-   * Handles schema references, composition keywords (oneOf, anyOf, allOf),
-   * and various schema types. Uses caching for improved performance.
+   * Handles `const`, curated examples, `x-schemock-faker` generators, schema references, conditionals (if/then/else), composition
+   * keywords (oneOf, anyOf, allOf), and various schema types. The schema is
+   * compiled into a generator plan on first use; every call returns fresh data.
    *
    * @param schema - The schema to parse
    * @param rootSchema - Root schema for $ref resolution (defaults to schema)
    * @param visited - Set of visited references to prevent circular loops
    * @param strict - Whether to enforce strict validation
    * @param propertyName - Optional property name for heuristics-based generation
-   * @param useCache - Whether to use caching (default: true)
    * @returns Generated mock data matching the schema
    * @throws {SchemaParseError} When the schema is invalid or cannot be parsed
    * @throws {SchemaRefError} When a $ref cannot be resolved
    */
-  static parse(schema: Schema, rootSchema?: Schema, visited: Set<string> = new Set(), strict: boolean = false, propertyName?: string, useCache: boolean = true): NonNullJSONValue {
+  static parse(schema: Schema, rootSchema?: Schema, visited: Set<string> = new Set(), strict: boolean = false, propertyName?: string): JSONValue {
     if (!schema) {
       throw new SchemaParseError('Schema is required');
     }
 
-    // Check cache if enabled and no visited references (avoid caching circular refs)
-    const cacheKey = useCache && visited.size === 0
-      ? createCacheKey(schema, { strict, propertyName })
-      : null;
+    const root = rootSchema || schema;
+    const plan = compileSchema(schema, root);
 
-    if (cacheKey && schemaCache.has(cacheKey)) {
-      const cached = schemaCache.get(cacheKey);
-      if (cached !== undefined && cached !== null) {
-        return cached as NonNullJSONValue;
-      }
+    // x-schemock-locale switches locale for this schema and its subschemas
+    if (plan.locale && plan.locale !== this.locale) {
+      return this.withLocale(plan.locale, () => this.parse(schema, root, visited, strict, propertyName));
     }
 
-    const root = rootSchema || schema;
-    let result: NonNullJSONValue;
-
-    // Handle references
-    if (schema.$ref) {
-      result = this.resolveRef(schema.$ref, root, visited, strict, propertyName);
-    } else {
-      // Handle oneOf/anyOf/allOf
-      if (schema.oneOf && schema.oneOf.length > 0) {
-        const randomIndex = randomInt(0, schema.oneOf.length - 1);
-        result = this.parse(schema.oneOf[randomIndex], root, visited, strict, propertyName, false);
-      } else if (schema.anyOf && schema.anyOf.length > 0) {
-        const randomIndex = randomInt(0, schema.anyOf.length - 1);
-        result = this.parse(schema.anyOf[randomIndex], root, visited, strict, propertyName, false);
-      } else if (schema.allOf && schema.allOf.length > 0) {
-        result = schema.allOf.reduce<Record<string, JSONValue>>((acc, subSchema) => {
-          const parsed = this.parse(subSchema, root, visited, strict, propertyName, false);
-          return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
-            ? safeMerge(acc, parsed)
-            : acc;
-        }, {});
-      } else {
-        // Handle different schema types
-        result = this.parseByType(schema, root, visited, strict, propertyName);
+    // const always wins over null and curated examples
+    if (plan.strategy !== 'const') {
+      if (this.shouldGenerateNull(plan)) {
+        return null;
+      }
+      const example = this.pickExample(plan);
+      if (example !== undefined) {
+        return example;
       }
     }
 
-    // Cache result if enabled
-    if (cacheKey && useCache) {
-      schemaCache.set(cacheKey, result);
-    }
-
-    return result;
+    return this.generate(plan, root, visited, strict, propertyName);
   }
 
   /**
@@ -142,7 +439,7 @@ export class SchemaParser {
     schema: Schema,
     rootSchema?: Schema,
     strict: boolean = false
-  ): Promise<NonNullJSONValue> {
+  ): Promise<JSONValue> {
     const result = this.parse(schema, rootSchema, new Set(), strict);
     await this.enrichSemanticFields(result);
     return result;
@@ -183,116 +480,325 @@ export class SchemaParser {
   }
 
   /**
-   * Parses a schema based on its type
+   * Generates data by running a compiled plan's strategy
    *
-   * Delegates to the appropriate generator method based on the schema type.
+   * Typed strategies first give registered custom formats and property
+   * heuristics a chance.
    *
-   * @param schema - The schema to parse
+   * @param plan - The compiled plan of the schema
    * @param rootSchema - Root schema for $ref resolution
    * @param visited - Set of visited references to prevent circular loops
    * @param strict - Whether to enforce strict validation
    * @param propertyName - Optional property name for heuristics-based generation
-   * @returns Generated mock data matching the schema type
+   * @returns Generated mock data matching the schema
    */
-  private static parseByType(schema: Schema, rootSchema: Schema, visited: Set<string>, strict: boolean, propertyName?: string): NonNullJSONValue {
-    switch (schema.type) {
+  private static generate(plan: GeneratorPlan, rootSchema: Schema, visited: Set<string>, strict: boolean, propertyName?: string): JSONValue {
+    const { schema } = plan;
+
+    if (TYPED_STRATEGIES.has(plan.strategy)) {
+      const custom = this.generateCustom(schema, propertyName);
+      if (custom !== undefined) {
+        return custom;
+      }
+    }
+
+    switch (plan.strategy) {
+      case 'const':
+        return JSON.parse(JSON.stringify(schema.const)) as JSONValue;
+      case 'faker':
+        return this.generateFromFaker(schema);
+      case 'ref':
+        return this.resolveRef(plan.pointer, plan.target, rootSchema, visited, strict, propertyName);
+      case 'conditional':
+        return this.generateConditional(plan.condition, plan.branches, rootSchema, visited, strict, propertyName);
+      case 'oneOf':
+      case 'anyOf': {
+        const randomIndex = randomInt(0, plan.subschemas.length - 1);
+        return this.parse(plan.subschemas[randomIndex], rootSchema, visited, strict, propertyName);
+      }
+      case 'allOf':
+        return plan.subschemas.reduce<Record<string, JSONValue>>((acc, subSchema) => {
+          const parsed = this.parse(subSchema, rootSchema, visited, strict, propertyName);
+          return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+            ? safeMerge(acc, parsed)
+            : acc;
+        }, {});
       case 'string':
         return this.generateString(schema, strict, propertyName);
+      case 'enum':
+        return this.generateEnum(schema, plan.values, plan.weights);
       case 'number':
-      case 'integer':
-        return this.generateNumber(schema, strict, propertyName);
+        return this.generateNumber(schema, plan.distribution, strict, propertyName);
       case 'boolean':
         return this.generateBoolean();
-      case 'array':
-        return this.generateArray(schema, rootSchema, visited, strict);
-      case 'object':
-        return this.generateObject(schema, rootSchema, visited, strict);
       case 'null':
-        return {} as NonNullJSONValue; // Return empty object instead of null for type safety
-      default:
-        if (Array.isArray(schema.type)) {
-          // If multiple types are allowed, pick one randomly
-          const randomType = schema.type[randomInt(0, schema.type.length - 1)];
-          return this.parseByType({ ...schema, type: randomType }, rootSchema, visited, strict, propertyName);
+        return null;
+      case 'union': {
+        // Null was already decided in parse(), so pick one of the non-null types
+        if (plan.variants.length === 0) {
+          return null;
         }
-
+        const variant = plan.variants[randomInt(0, plan.variants.length - 1)];
+        return this.generate(compileSchema(variant, rootSchema), rootSchema, visited, strict, propertyName);
+      }
+      case 'array':
+        return this.nested(() => this.generateArray(schema, plan, rootSchema, visited, strict));
+      case 'object':
+        return this.nested(() => this.generateObject(schema, plan, rootSchema, visited, strict));
+      case 'untyped':
         // Loose mode fallback for unknown type
         if (!strict && schema.properties) {
-          return this.generateObject(schema, rootSchema, visited, strict);
+          return this.nested(() => this.generateObject(schema, plan, rootSchema, visited, strict));
         }
-
         return 'UNKNOWN_TYPE';
     }
   }
 
   /**
-   * Resolves a JSON Schema $ref reference
+   * Generates data for a schema with if/then/else
    *
-   * Navigates through the schema to find the referenced definition and parses it.
-   * Handles circular references by tracking visited references.
+   * Picks one of the compiled branches (the base schema merged with `then`
+   * and `if`, or with `else`) and keeps the value only if evaluating `if`
+   * against it leads to the same branch and it satisfies that branch.
+   * Properties the branch forbids are removed first. When no attempt
+   * succeeds, the last value is returned with a warning.
    *
-   * @param ref - The reference string (e.g., "#/definitions/User")
-   * @param rootSchema - The root schema containing definitions
+   * @param condition - The `if` subschema
+   * @param compiledBranches - The merged then- and else-branches
+   * @param rootSchema - Root schema for $ref resolution
    * @param visited - Set of visited references to prevent circular loops
    * @param strict - Whether to enforce strict validation
-   * @param propertyName - Optional property name for heuristics
-   * @returns Generated mock data from the resolved schema
-   * @throws {SchemaRefError} When the reference cannot be resolved
+   * @param propertyName - Optional property name for heuristics-based generation
+   * @returns Generated mock data satisfying the conditional
    */
-  private static resolveRef(ref: string, rootSchema: Schema, visited: Set<string>, strict: boolean = false, propertyName?: string): NonNullJSONValue {
-    // Check for circular references
-    if (visited.has(ref)) {
-      console.warn(`Circular reference detected: ${ref}`);
-      return {} as NonNullJSONValue; // Return empty object for circular refs instead of null
+  private static generateConditional(condition: Schema, compiledBranches: ConditionalBranch[], rootSchema: Schema, visited: Set<string>, strict: boolean, propertyName?: string): JSONValue {
+    // Visit the branches in random order so both shapes show up
+    const branches = compiledBranches.length > 1 && random() < 0.5
+      ? [...compiledBranches].reverse()
+      : compiledBranches;
+
+    const matches = (value: JSONValue, schema: Schema): boolean => getValidator(schema, rootSchema).validate(value).length === 0;
+    const lands = (value: JSONValue, branch: ConditionalBranch): boolean =>
+      matches(value, condition) === branch.matches && matches(value, branch.schema);
+
+    let result: JSONValue = {};
+    for (let attempt = 0; attempt < MAX_CONDITIONAL_ATTEMPTS; attempt++) {
+      for (const branch of branches) {
+        result = withoutForbiddenProperties(this.parse(branch.schema, rootSchema, visited, strict, propertyName), branch.schema);
+        if (lands(result, branch)) {
+          return result;
+        }
+      }
     }
 
-    // Only handle internal references for now (starting with #/)
-    if (!ref.startsWith('#/')) {
-      console.warn(`External references not supported yet: ${ref}`);
-      return 'EXTERNAL_REF_NOT_SUPPORTED' as NonNullJSONValue;
+    log.warn('Could not generate a value that satisfies the if/then/else branch it lands on', {
+      module: 'schema',
+      property: propertyName,
+      hint: 'Check that each branch can be satisfied, e.g. that then/else do not contradict the base schema.'
+    });
+    return result;
+  }
+
+  /**
+   * Generates a value with a registered custom format or property heuristic
+   *
+   * @param schema - The schema being parsed
+   * @param propertyName - Optional property name the schema belongs to
+   * @returns The generated value, or undefined when no custom generator applies
+   * @throws {SchemaParseError} When a custom generator throws
+   */
+  private static generateCustom(schema: Schema, propertyName?: string): JSONValue | undefined {
+    const context: GeneratorContext = {
+      schema,
+      propertyName,
+      parent: this.parentStack[this.parentStack.length - 1],
+      random: generatorRandom,
+      locale: this.locale
+    };
+
+    const formatGenerator = schema.format ? this.customFormats.get(schema.format) : undefined;
+    if (formatGenerator) {
+      const value = this.runCustomGenerator(formatGenerator, context, `format "${schema.format}"`);
+      if (value !== undefined) {
+        return value;
+      }
     }
 
-    // Parse the reference path
-    const path = ref.substring(2).split('/'); // Remove '#/' and split
-    let resolved: unknown = rootSchema;
+    // An explicit pattern or enum beats name-based guessing
+    if (!propertyName || schema.pattern || schema.enum) {
+      return undefined;
+    }
+    for (const { matcher, generator } of this.propertyHeuristics) {
+      const matches = typeof matcher === 'string'
+        ? matcher.toLowerCase() === propertyName.toLowerCase()
+        : matcher instanceof RegExp
+          ? propertyName.search(matcher) !== -1
+          : matcher(propertyName, schema);
+      if (matches) {
+        const value = this.runCustomGenerator(generator, context, `heuristic for property "${propertyName}"`);
+        if (value !== undefined) {
+          return value;
+        }
+      }
+    }
+    return undefined;
+  }
 
-    // Navigate through the schema
-    for (const part of path) {
-      if (resolved && typeof resolved === 'object' && part in resolved) {
-        resolved = (resolved as Record<string, unknown>)[part];
-      } else {
-        throw new SchemaRefError(
-          `Cannot resolve $ref: ${ref}. Path not found: ${part}`,
-          ref
-        );
+  /**
+   * Runs a custom generator, wrapping unexpected errors in a SchemaParseError
+   *
+   * @param generator - The custom generator
+   * @param context - The generator context
+   * @param label - Description of the generator for error messages
+   * @returns The generated value, or undefined to fall back
+   * @throws {SchemaParseError} When the generator throws
+   */
+  private static runCustomGenerator(generator: CustomGenerator, context: GeneratorContext, label: string): JSONValue | undefined {
+    try {
+      return generator(context);
+    } catch (error) {
+      if (error instanceof SchemockError) {
+        throw error;
       }
+      throw new SchemaParseError(
+        `Custom ${label} generator failed: ${error instanceof Error ? error.message : String(error)}`,
+        { propertyName: context.propertyName, format: context.schema.format },
+        'Check the generator registered with SchemaParser.registerFormat() or registerPropertyHeuristic().'
+      );
     }
+  }
 
-    // Type guard to ensure resolved is a Schema
-    if (!isSchema(resolved)) {
-      throw new SchemaRefError(
-        `Cannot resolve $ref: ${ref}. Resolved value is not a valid Schema`,
-        ref
+  /**
+   * Resolves a locale to the code of a bundled locale pack
+   *
+   * @param locale - A locale or language code
+   * @returns The pack's locale code
+   * @throws {ValidationError} When no bundled locale pack matches
+   */
+  private static resolveLocale(locale: string): string {
+    const pack = typeof locale === 'string' ? getLocalePack(locale) : undefined;
+    if (!pack) {
+      throw new ValidationError(
+        `Unsupported locale: ${String(locale)}`,
+        'locale',
+        locale,
+        `Use one of the bundled locales: ${getSupportedLocales().join(', ')}.`
       );
     }
+    return pack.code;
+  }
+
+  /**
+   * Validates a probability setting
+   *
+   * @throws {ValidationError} When the value is not a number in [0, 1]
+   */
+  private static assertProbability(value: number, field: string, label: string, hint: string): void {
+    if (typeof value !== 'number' || Number.isNaN(value) || value < 0 || value > 1) {
+      throw new ValidationError(`${label} must be a number between 0 and 1`, field, value, hint);
+    }
+  }
+
+  /**
+   * Picks a curated value from `examples`, `example` or `default`
+   *
+   * No random number is drawn unless the schema has curated values and the
+   * example probability is above 0, so seeded output is unchanged by default.
+   *
+   * @param plan - The compiled plan of the schema being parsed
+   * @returns A copy of a curated value, or undefined to generate one instead
+   */
+  private static pickExample(plan: GeneratorPlan): JSONValue | undefined {
+    const candidates = plan.examples;
+    if (this.exampleProbability <= 0 || candidates.length === 0) {
+      return undefined;
+    }
+    if (this.exampleProbability < 1 && random() >= this.exampleProbability) {
+      return undefined;
+    }
+
+    const value = candidates[randomInt(0, candidates.length - 1)];
+    return JSON.parse(JSON.stringify(value)) as JSONValue;
+  }
+
+  /**
+   * Decides whether a schema should generate null
+   *
+   * @param plan - The compiled plan of the schema being parsed
+   * @returns True when the schema only allows null, or is nullable and the
+   *          configured null probability was hit
+   */
+  private static shouldGenerateNull(plan: GeneratorPlan): boolean {
+    return plan.alwaysNull || (plan.nullable && random() < this.nullProbability);
+  }
+
+  /**
+   * Generates data for a JSON Schema $ref reference
+   *
+   * The reference was resolved when the plan was compiled. Handles circular
+   * references by tracking visited references.
+   *
+   * @param ref - The reference string (e.g., "#/definitions/User" or "#/$defs/User")
+   * @param target - The resolved schema
+   * @param rootSchema - The root schema containing definitions
+   * @param visited - Set of visited references to prevent circular loops
+   * @param strict - Whether to enforce strict validation
+   * @param propertyName - Optional property name for heuristics
+   * @returns Generated mock data from the resolved schema
+   */
+  private static resolveRef(ref: string, target: Schema, rootSchema: Schema, visited: Set<string>, strict: boolean = false, propertyName?: string): JSONValue {
+    // References may recurse through objects and arrays until the depth budget
+    // runs out; meeting one again at the same depth is a cycle of bare $refs
+    const visitKey = `${ref}@${this.depth}`;
+    const active = [...visited].some(key => key.startsWith(`${ref}@`));
+    if (visited.has(visitKey) || (active && this.depth > this.maxDepth)) {
+      console.warn(`Circular reference detected: ${ref}`);
+      return {} as NonNullJSONValue; // Return empty object for circular refs instead of null
+    }
 
     // Mark as visited before parsing to catch circular refs
-    visited.add(ref);
+    visited.add(visitKey);
 
     // Parse the resolved schema
-    const result = this.parse(resolved, rootSchema, visited, strict, propertyName);
+    const result = this.parse(target, rootSchema, visited, strict, propertyName);
 
     // Remove from visited so it can be used in other branches
-    visited.delete(ref);
+    visited.delete(visitKey);
 
     return result;
   }
 
+  /**
+   * Picks an enum value, weighted by `x-schemock-weights` when set
+   *
+   * Values of string schemas are returned as strings.
+   *
+   * @param schema - The schema with the enum
+   * @param values - The enum values
+   * @param weights - Cumulative weights from the compiled plan, if any
+   * @returns A copy of the picked value
+   */
+  private static generateEnum(schema: Schema, values: JSONValue[], weights?: number[]): JSONValue {
+    const value = pickWeighted(values, weights);
+    if (schema.type === 'string') {
+      // Handle null in enum - return empty string or a default value
+      if (value === null) {
+        return '';
+      }
+      // Convert non-string enum values to string
+      if (typeof value !== 'string') {
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      }
+    }
+    return JSON.parse(JSON.stringify(value)) as JSONValue;
+  }
+
   /**
    * Generates a random string value based on the schema
    *
-   * Uses heuristics based on property name and schema format to generate
-   * realistic mock data (e.g., emails, dates, phone numbers).
+   * Strings matching the schema `pattern` are generated from the regex itself;
+   * otherwise uses heuristics based on property name and schema format to
+   * generate realistic mock data (e.g., emails, dates, phone numbers).
    *
    * @param schema - The string schema to generate from
    * @param strict - Whether to enforce strict validation
@@ -300,66 +806,58 @@ export class SchemaParser {
    * @returns A generated string value
    */
   private static generateString(schema: Schema, strict: boolean = false, propertyName?: string): string {
-    if (schema.enum && schema.enum.length > 0) {
-      const enumValue = schema.enum[randomInt(0, schema.enum.length - 1)];
-      // Handle null in enum - return empty string or a default value
-      if (enumValue === null) {
-        return '';
-      }
-      // Convert non-string enum values to string
-      if (typeof enumValue !== 'string') {
-        return String(enumValue);
+    // An explicit pattern always wins over name heuristics, which would not match it
+    if (schema.pattern) {
+      try {
+        return generateFromPattern(schema.pattern, {
+          minLength: schema.minLength,
+          maxLength: schema.maxLength
+        });
+      } catch (error) {
+        console.warn(`${error instanceof Error ? error.message : String(error)}. Falling back to a random string.`);
       }
-      return enumValue;
+    }
+
+    // Image URLs point at the mock server's placeholder route
+    const isUri = schema.format === 'uri' || schema.format === 'url';
+    const isImageName = propertyName !== undefined && isImageProperty(propertyName);
+    if (isUri ? isImageName || schema.contentMediaType?.startsWith('image/') : isImageName && !schema.format && !schema.contentMediaType && !schema.contentEncoding) {
+      return placeholderUrl(propertyName, schema.contentMediaType);
+    }
+
+    // Files for encoded or typed content, e.g. a base64 PNG or a CSV
+    if (schema.contentEncoding || schema.contentMediaType) {
+      return generateContent(schema.contentMediaType, schema.contentEncoding);
+    }
+
+    // Dates use the property name only to pick their window
+    if (isDateFormat(schema.format)) {
+      return this.generateDate(schema, schema.format, propertyName);
     }
 
     // Heuristics based on property name
     if (propertyName) {
       const name = propertyName.toLowerCase();
       if (name.includes('email')) return `user${randomInt(0, 999)}@example.com`;
-      if (name.includes('firstname')) return ['Alice', 'Bob', 'Charlie', 'Diana', 'Edward'][randomInt(0, 4)];
-      if (name.includes('lastname')) return ['Smith', 'Jones', 'Williams', 'Brown', 'Taylor'][randomInt(0, 4)];
-      if (name.includes('fullname') || name === 'name') return ['John Doe', 'Jane Smith', 'Michael Johnson', 'Emily Brown'][randomInt(0, 3)];
       if (name.includes('password')) return '********';
-      if (name.includes('phone')) return `+1-555-${randomInt(100, 999)}-${randomInt(1000, 9999)}`;
-      if (name.includes('city')) return ['New York', 'London', 'Paris', 'Tokyo', 'Berlin'][randomInt(0, 4)];
-      if (name.includes('country')) return ['USA', 'UK', 'France', 'Japan', 'Germany'][randomInt(0, 4)];
-      if (name.includes('company')) return ['Acme Corp', 'Globex', 'Soylent Corp', 'Initech'][randomInt(0, 3)];
+      const localized = this.generateLocalizedString(name);
+      if (localized !== undefined) {
+        return localized;
+      }
       if (name.includes('title')) return ['Project Alpha', 'Awesome Feature', 'New Release', 'Bug Fix'][randomInt(0, 3)];
       if (name.includes('description') || name.includes('summary')) return 'A comprehensive description of the resource with all necessary details.';
-      if (name.includes('id') || name.includes('uuid')) return '123e4567-e89b-12d3-a456-426614174000';
+      // Whole words only, so `valid` or `paid` are not taken for IDs
+      if (!schema.format && (ID_WORD.test(propertyName) || ID_SUFFIX.test(propertyName))) return randomUuid();
     }
 
     if (schema.format) {
-      switch (schema.format) {
-        case 'date-time':
-          return new Date().toISOString();
-        case 'date':
-          return new Date().toISOString().split('T')[0];
-        case 'time':
-          return new Date().toISOString().split('T')[1].split('.')[0];
-        case 'email':
-          return `test${randomInt(0, 999)}@example.com`;
-        case 'hostname':
-          return 'example.com';
-        case 'ipv4':
-          return `${randomInt(0, 255)}.${randomInt(0, 255)}.${randomInt(0, 255)}.${randomInt(0, 255)}`;
-        case 'ipv6':
-          return '2001:0db8:85a3:0000:0000:8a2e:0370:7334';
-        case 'uri':
-        case 'url':
-          return 'https://example.com';
-        case 'uuid':
-          return '123e4567-e89b-12d3-a456-426614174000';
+      const formatted = generateFormat(schema.format);
+      if (formatted !== undefined) {
+        return formatted;
       }
-    }
-
-    if (schema.pattern) {
-      // Simple patterns - in a real implementation, you'd use a library to generate from regex
-      if (schema.pattern === '^[0-9]{3}-[0-9]{2}-[0-9]{4}$') {
-        return '123-45-6789';
+      if (!isKnownFormat(schema.format)) {
+        this.unknownFormatHandler({ format: schema.format, schema, propertyName });
       }
-      // For other patterns, return a generic string
     }
 
     const minLength = schema.minLength || 0;
@@ -376,20 +874,313 @@ export class SchemaParser {
     return result;
   }
 
+  /**
+   * Generates a date, date-time or time within the schema's window
+   *
+   * The window comes from `formatMinimum`/`formatMaximum` (ISO values or
+   * relative bounds such as "now-90d"), narrowed by the dates the value must
+   * follow or precede; without bounds it depends on the property name (see
+   * defaultDateWindow).
+   *
+   * @param schema - The string schema to generate from
+   * @param format - The schema's date format
+   * @param propertyName - Optional property name used to pick the default window
+   * @param after - Time the value must not precede
+   * @param before - Time the value must not exceed
+   * @returns The formatted date
+   * @throws {SchemaParseError} When `formatMinimum` or `formatMaximum` is not a valid date
+   */
+  private static generateDate(schema: Schema, format: DateFormat, propertyName?: string, after?: number, before?: number): string {
+    const formatMinimum = this.dateBound(schema, 'formatMinimum', format);
+    const formatMaximum = this.dateBound(schema, 'formatMaximum', format);
+
+    let min = formatMinimum;
+    if (after !== undefined) {
+      min = min === undefined ? after : Math.max(min, after);
+    }
+    let max = formatMaximum;
+    if (before !== undefined) {
+      max = max === undefined ? before : Math.min(max, before);
+    }
+
+    // Times of day stay within the day
+    if (format === 'time') {
+      const [dayStart, dayEnd] = defaultDateWindow(format);
+      min = min ?? dayStart;
+      max = max ?? dayEnd;
+    }
+
+    const [from, to] = min === undefined && max === undefined
+      ? defaultDateWindow(format, propertyName)
+      : boundedDateWindow(min, max);
+    return randomDateBetween(from, to, format);
+  }
+
+  /**
+   * Reads a `formatMinimum` or `formatMaximum` bound
+   *
+   * @throws {SchemaParseError} When the bound is not a valid date or relative bound
+   */
+  private static dateBound(schema: Schema, keyword: 'formatMinimum' | 'formatMaximum', format: DateFormat): number | undefined {
+    const value = schema[keyword];
+    if (value === undefined) {
+      return undefined;
+    }
+    const time = parseDateValue(value, format);
+    if (time === undefined) {
+      throw new SchemaParseError(
+        `Invalid ${keyword}: ${JSON.stringify(value)}`,
+        { keyword, value, format },
+        'Use an ISO date or time, or a bound relative to now such as "now-90d" (units: s, min, h, d, w, mo, y).'
+      );
+    }
+    return time;
+  }
+
+  /**
+   * Orders the date properties of a generated object
+   *
+   * A date with `x-schemock-after` or `x-schemock-before` naming a sibling
+   * property, or the later field of a known pair such as `createdAt` and
+   * `updatedAt` or `startDate` and `endDate`, is regenerated when it falls on
+   * the wrong side of its sibling.
+   *
+   * @param result - The generated object, updated in place
+   * @param plan - The object's compiled properties
+   */
+  private static orderDates(result: Record<string, JSONValue>, plan: ObjectPlan): void {
+    const dates = new Map<string, { schema: Schema; format: DateFormat }>();
+    for (const [key, propSchema] of plan.properties) {
+      if (typeof result[key] === 'string' && isDateFormat(propSchema.format) &&
+          propSchema.const === undefined && !propSchema.enum) {
+        dates.set(key, { schema: propSchema, format: propSchema.format });
+      }
+    }
+    if (dates.size === 0) {
+      return;
+    }
+
+    const names = Array.from(dates.keys());
+    const settled = new Set<string>();
+    // Settles a date after the dates it depends on; `pending` breaks cycles
+    const settle = (key: string, pending: Set<string>): number | undefined => {
+      const date = dates.get(key);
+      if (!date) {
+        return undefined;
+      }
+      if (!settled.has(key) && !pending.has(key)) {
+        pending.add(key);
+        const { schema, format } = date;
+        const afterKey = schema['x-schemock-after'] ??
+          (schema['x-schemock-before'] === undefined ? findDatePairAnchor(key, names) : undefined);
+        const after = afterKey !== undefined && afterKey !== key ? settle(afterKey, pending) : undefined;
+        const beforeKey = schema['x-schemock-before'];
+        const before = beforeKey !== undefined && beforeKey !== key ? settle(beforeKey, pending) : undefined;
+
+        const current = parseDateValue(result[key], format);
+        if (current === undefined || (after !== undefined && current < after) || (before !== undefined && current > before)) {
+          result[key] = this.generateDate(schema, format, key, after, before);
+        }
+        settled.add(key);
+      }
+      return parseDateValue(result[key], date.format);
+    };
+
+    for (const key of names) {
+      settle(key, new Set());
+    }
+  }
+
+  /**
+   * Adds the sibling properties that included derived properties read
+   *
+   * @param result - The generated object, updated in place
+   * @param plan - The object's compiled properties
+   * @param rootSchema - Root schema for $ref resolution
+   * @param visited - Set of visited references to prevent circular loops
+   * @param strict - Whether to enforce strict validation
+   */
+  private static addDerivedSources(result: Record<string, JSONValue>, plan: ObjectPlan, rootSchema: Schema, visited: Set<string>, strict: boolean): void {
+    // Dependents come last in plan.derived, so walking it backwards reaches every source
+    for (const derived of Array.from(plan.derived.values()).reverse()) {
+      if (!(derived.name in result)) {
+        continue;
+      }
+      for (const dependency of derived.dependencies) {
+        if (dependency in result) {
+          continue;
+        }
+        const dependencySchema = plan.properties.find(([key]) => key === dependency)?.[1] ?? {};
+        result[dependency] = plan.derived.has(dependency)
+          ? null
+          : this.parseProperty(dependencySchema, result, rootSchema, visited, strict, dependency);
+      }
+    }
+  }
+
+  /**
+   * Generates a derived property from its `x-schemock-template` or `x-schemock-compute`
+   *
+   * Template output is a string, or a number for number schemas; computed
+   * values are rounded for integer schemas and stringified for string
+   * schemas. Numbers are clamped to the schema's minimum and maximum. When a
+   * computed value can't be evaluated, e.g. because it divides by zero, the
+   * property is generated from its schema instead.
+   *
+   * @param derived - The compiled derived property
+   * @param result - The object being generated
+   * @param rootSchema - Root schema for $ref resolution
+   * @param visited - Set of visited references to prevent circular loops
+   * @param strict - Whether to enforce strict validation
+   * @returns The derived value
+   */
+  private static generateDerived(derived: DerivedProperty, result: Record<string, JSONValue>, rootSchema: Schema, visited: Set<string>, strict: boolean): JSONValue {
+    const scope: ValueScope = { self: result, parent: this.parentStack[this.parentStack.length - 1] };
+    const types = Array.isArray(derived.schema.type) ? derived.schema.type : derived.schema.type ? [derived.schema.type] : [];
+    const wantsNumber = (types.includes('number') || types.includes('integer')) && !types.includes('string');
+
+    const integer = types.includes('integer') && !types.includes('number');
+
+    if (derived.template) {
+      const text = renderTemplate(derived.template, scope);
+      return wantsNumber && text.trim() !== '' && !Number.isNaN(Number(text)) ? this.clampNumber(Number(text), derived.schema, integer) : text;
+    }
+
+    const value = evaluateExpression(derived.expression as NonNullable<DerivedProperty['expression']>, scope);
+    if (value === undefined) {
+      return this.parseProperty(derived.schema, result, rootSchema, visited, strict, derived.name);
+    }
+    if (types.includes('string') && !wantsNumber && !types.includes('number')) {
+      return String(value);
+    }
+    return this.clampNumber(integer ? Math.round(value) : value, derived.schema, integer);
+  }
+
+  /**
+   * Clamps a number to the schema's minimum, maximum and exclusive bounds
+   *
+   * @param value - The number to clamp
+   * @param schema - The number schema
+   * @param integer - Whether the value must stay a whole number
+   * @returns The clamped number
+   */
+  private static clampNumber(value: number, schema: Schema, integer: boolean): number {
+    const step = this.numberStep(schema.multipleOf, integer) ?? 0.01;
+    let min = typeof schema.minimum === 'number' ? schema.minimum : -Infinity;
+    let max = typeof schema.maximum === 'number' ? schema.maximum : Infinity;
+    if (typeof schema.exclusiveMinimum === 'number') {
+      min = Math.max(min, schema.exclusiveMinimum + step);
+    } else if (schema.exclusiveMinimum === true) {
+      min += step;
+    }
+    if (typeof schema.exclusiveMaximum === 'number') {
+      max = Math.min(max, schema.exclusiveMaximum - step);
+    } else if (schema.exclusiveMaximum === true) {
+      max -= step;
+    }
+    if (integer) {
+      min = Math.ceil(min);
+      max = Math.floor(max);
+    }
+    return min > max ? value : Math.min(Math.max(value, min), max);
+  }
+
+  /**
+   * Generates a value with the schema's `x-schemock-faker` generator
+   *
+   * The generated value is coerced to the schema's type where that is lossless
+   * enough to be useful (numbers to strings, numeric strings to numbers, and
+   * date-times to dates for `format: date`).
+   *
+   * @param schema - The schema with an `x-schemock-faker` keyword
+   * @returns The generated value
+   * @throws {SchemaParseError} When the generator is unknown or its arguments are invalid
+   */
+  private static generateFromFaker(schema: Schema): JSONValue {
+    const value = generateFake(schema['x-schemock-faker'] as FakerSpec, getLocalePack(this.locale) ?? enUS);
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const wantsNumber = types.includes('number') || types.includes('integer');
+    const wantsIntegerOnly = types.includes('integer') && !types.includes('number');
+
+    if (typeof value === 'string') {
+      if (wantsNumber && !types.includes('string') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+        return wantsIntegerOnly ? Math.round(Number(value)) : Number(value);
+      }
+      return schema.format === 'date' && /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.substring(0, 10) : value;
+    }
+    if (typeof value === 'number') {
+      if (wantsIntegerOnly) {
+        return Math.round(value);
+      }
+      if (!wantsNumber && types.includes('string')) {
+        return String(value);
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Generates a name, address or phone value from the current locale pack
+   *
+   * @param name - The lowercased property name
+   * @returns A localized value, or undefined when the name matches no locale heuristic
+   */
+  private static generateLocalizedString(name: string): string | undefined {
+    const pack = getLocalePack(this.locale) ?? enUS;
+
+    if (name.includes('firstname') || name.includes('givenname')) {
+      return pickLocaleValue(pack.firstNames);
+    }
+    if (name.includes('lastname') || name.includes('surname') || name.includes('familyname')) {
+      return pickLocaleValue(pack.lastNames);
+    }
+    if (name.includes('fullname') || name === 'name') {
+      return generateFullName(pack);
+    }
+    if (name.includes('phone') || name.includes('mobile')) {
+      return fillFormat(pickLocaleValue(pack.phoneFormats));
+    }
+    if (name.includes('zip') || name.includes('postal') || name.includes('postcode')) {
+      return fillFormat(pack.postalCodeFormat);
+    }
+    if (name.includes('street') || (name.includes('address') && !name.includes('ip'))) {
+      return generateStreetAddress(pack);
+    }
+    if (name.includes('city')) {
+      return pickLocaleValue(pack.cities);
+    }
+    if (name === 'state' || name.includes('province') || name.includes('prefecture') || name === 'region') {
+      return pickLocaleValue(pack.states);
+    }
+    if (name.includes('country')) {
+      return pickLocaleValue(pack.countries);
+    }
+    if (name.includes('company')) {
+      return pickLocaleValue(pack.companies);
+    }
+    return undefined;
+  }
+
   /**
    * Generates a random number value based on the schema
    *
-   * Respects minimum, maximum, multipleOf, and exclusive bounds constraints.
-   * Uses heuristics based on property name for realistic values.
+   * Respects minimum, maximum, multipleOf, and exclusive bounds constraints;
+   * integers are always whole numbers. Values follow the schema's
+   * `x-schemock-distribution`, or are uniform. Without bounds or a
+   * distribution, heuristics based on property name give realistic values.
    *
    * @param schema - The number schema to generate from
+   * @param distribution - The compiled `x-schemock-distribution`, if any
    * @param strict - Whether to enforce strict validation
    * @param propertyName - Optional property name for heuristics-based generation
    * @returns A generated number value
    */
-  private static generateNumber(schema: Schema, strict: boolean = false, propertyName?: string): number {
+  private static generateNumber(schema: Schema, distribution: Distribution | undefined, strict: boolean = false, propertyName?: string): number {
+    const bounded = schema.minimum !== undefined || schema.maximum !== undefined ||
+      schema.exclusiveMinimum !== undefined || schema.exclusiveMaximum !== undefined;
+
     // Heuristics based on property name
-    if (propertyName) {
+    if (propertyName && !bounded && !distribution) {
       const name = propertyName.toLowerCase();
       if (name.includes('age')) return 18 + randomInt(0, 60);
       if (name.includes('price') || name.includes('amount')) return parseFloat(randomFloat(0, 100).toFixed(2));
@@ -400,11 +1191,6 @@ export class SchemaParser {
     let min = typeof schema.minimum === 'number' ? schema.minimum : (strict ? 0 : -100);
     let max = typeof schema.maximum === 'number' ? schema.maximum : (strict ? 100 : 1000);
 
-    // In strict mode, if multipleOf is present, ensures values are strictly compliant
-    if (strict && schema.multipleOf && min % schema.multipleOf !== 0) {
-      min = Math.ceil(min / schema.multipleOf) * schema.multipleOf;
-    }
-
     // Handle exclusive minimum/maximum
     if (schema.exclusiveMinimum !== undefined) {
       if (typeof schema.exclusiveMinimum === 'boolean' && schema.exclusiveMinimum) {
@@ -422,16 +1208,36 @@ export class SchemaParser {
       }
     }
 
-    if (max < min) max = min + (schema.multipleOf || 1);
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const step = this.numberStep(schema.multipleOf, types.includes('integer') && !types.includes('number'));
 
-    // Handle multipleOf if specified
-    if (schema.multipleOf) {
-      const range = max - min;
-      const steps = Math.floor(range / schema.multipleOf);
-      return min + (randomInt(0, steps) * schema.multipleOf);
-    }
+    if (max < min) max = min + (step || 1);
+
+    return sampleNumber(distribution, min, max, step);
+  }
 
-    return randomFloat(min, max);
+  /**
+   * Gets the grid that generated numbers snap to
+   *
+   * @param multipleOf - The schema's `multipleOf`, if any
+   * @param integer - Whether values must be whole numbers
+   * @returns The grid step, or undefined for any number
+   */
+  private static numberStep(multipleOf: number | undefined, integer: boolean): number | undefined {
+    if (!multipleOf || multipleOf <= 0) {
+      return integer ? 1 : undefined;
+    }
+    if (!integer || Number.isInteger(multipleOf)) {
+      return multipleOf;
+    }
+    // The smallest whole multiple, e.g. 3 for multipleOf 1.5
+    for (let factor = 2; factor <= 1000; factor++) {
+      const candidate = multipleOf * factor;
+      if (Math.abs(candidate - Math.round(candidate)) < 1e-9) {
+        return Math.round(candidate);
+      }
+    }
+    return Math.max(1, Math.round(multipleOf));
   }
 
   /**
@@ -446,71 +1252,191 @@ export class SchemaParser {
   /**
    * Generates a random array based on the schema
    *
-   * Supports both tuple types (array of specific schemas) and homogeneous arrays
-   * (all items follow the same schema).
+   * Supports tuples (`prefixItems`, or draft-07 array-form `items` with
+   * `additionalItems`), homogeneous arrays, `contains`/`minContains` and
+   * `uniqueItems`.
    *
    * @param schema - The array schema to generate from
+   * @param plan - The schema's compiled tuple and item schemas
    * @param rootSchema - Root schema for $ref resolution
    * @param visited - Set of visited references to prevent circular loops
    * @param strict - Whether to enforce strict validation
    * @returns A generated array of values
    */
-  private static generateArray(schema: Schema, rootSchema?: Schema, visited: Set<string> = new Set(), strict: boolean = false): NonNullJSONValue[] {
+  private static generateArray(schema: Schema, plan: ArrayPlan, rootSchema: Schema, visited: Set<string>, strict: boolean): JSONValue[] {
     const minItems = schema.minItems || (strict ? 1 : 0);
     const maxItems = schema.maxItems || Math.max(minItems + (strict ? 2 : 5), 10);
-    const count = minItems + randomInt(0, maxItems - minItems);
+    // Deeper arrays get fewer optional items
+    const budgetMaxItems = minItems + Math.floor((maxItems - minItems) * this.budgetFactor());
+    const count = minItems + sampleNumber(plan.lengthDistribution, 0, budgetMaxItems - minItems, 1);
+    const { prefixItems, restItems: restSchema } = plan;
 
-    if (!schema.items) {
+    if (prefixItems.length === 0 && !restSchema && !schema.contains) {
       return [];
     }
 
-    const result: NonNullJSONValue[] = [];
-    const root = rootSchema || schema;
+    const result: JSONValue[] = [];
+    const seen = new Set<string>();
 
-    if (Array.isArray(schema.items)) {
-      // Tuple type
-      for (let i = 0; i < Math.min(count, schema.items.length); i++) {
-        result.push(this.parse(schema.items[i], root, visited, strict));
+    // Generates a value, retrying while uniqueItems rejects duplicates
+    const generateUnique = (itemSchema: Schema): JSONValue | undefined => {
+      for (let attempt = 0; attempt < (schema.uniqueItems ? MAX_UNIQUE_ATTEMPTS : 1); attempt++) {
+        this.nodeCount++;
+        const value = this.parse(itemSchema, rootSchema, visited, strict);
+        const key = JSON.stringify(value);
+        if (!schema.uniqueItems || !seen.has(key)) {
+          seen.add(key);
+          return value;
+        }
       }
-    } else {
-      // Array of items with the same schema
-      for (let i = 0; i < count; i++) {
-        result.push(this.parse(schema.items, root, visited, strict));
+      return undefined;
+    };
+
+    // Tuple positions are filled in order, up to maxItems
+    const tupleLength = Math.min(prefixItems.length, schema.maxItems ?? prefixItems.length);
+    for (let i = 0; i < tupleLength; i++) {
+      const value = generateUnique(prefixItems[i]);
+      if (value === undefined) {
+        return result;
       }
+      result.push(value);
     }
 
-    return result;
+    // Items that satisfy `contains`, placed among the remaining items, so
+    // they must satisfy the rest-items schema too
+    const containsValues: JSONValue[] = [];
+    if (schema.contains && !plan.closed) {
+      const { contains } = schema;
+      const containsSchema = restSchema ? mergeSchemas(restSchema, contains) : contains;
+      const minContains = schema.minContains ?? 1;
+      for (let i = 0; i < minContains; i++) {
+        let value: JSONValue | undefined;
+        for (let attempt = 0; attempt < MAX_UNIQUE_ATTEMPTS; attempt++) {
+          const candidate = generateUnique(containsSchema);
+          if (candidate !== undefined && getValidator(contains, rootSchema).validate(candidate).length === 0 &&
+            (!restSchema || getValidator(restSchema, rootSchema).validate(candidate).length === 0)) {
+            value = candidate;
+            break;
+          }
+        }
+        if (value === undefined) {
+          log.warn('Could not generate an array item that satisfies both contains and items', {
+            module: 'schema',
+            hint: 'Check that the contains and items schemas of the array can both hold for one value.'
+          });
+          break;
+        }
+        containsValues.push(value);
+      }
+    }
+
+    const tail: JSONValue[] = [];
+    if (restSchema) {
+      const restCount = Math.max(0, count - result.length - containsValues.length);
+      for (let i = 0; i < restCount; i++) {
+        const value = generateUnique(restSchema);
+        if (value === undefined) {
+          break;
+        }
+        tail.push(value);
+      }
+    }
+    for (const value of containsValues) {
+      tail.splice(randomInt(0, tail.length), 0, value);
+    }
+
+    return result.concat(tail);
   }
 
   /**
    * Generates a random object based on the schema
    *
    * Includes required properties and optionally includes non-required properties.
-   * Supports additionalProperties for generating extra fields.
+   * Honors `dependentRequired` and `dependentSchemas` for included properties,
+   * and generates extra fields for `patternProperties` and `additionalProperties`
+   * with names that satisfy `propertyNames`.
    *
    * @param schema - The object schema to generate from
+   * @param plan - The schema's compiled properties
    * @param rootSchema - Root schema for $ref resolution
    * @param visited - Set of visited references to prevent circular loops
    * @param strict - Whether to enforce strict validation
    * @returns A generated object with properties matching the schema
    */
-  private static generateObject(schema: Schema, rootSchema?: Schema, visited: Set<string> = new Set(), strict: boolean = false): Record<string, NonNullJSONValue> {
-    if (!schema.properties) {
-      return {};
-    }
-
-    const result: Record<string, NonNullJSONValue> = {};
-    const required = new Set(schema.required || []);
-    const root = rootSchema || schema;
+  private static generateObject(schema: Schema, plan: ObjectPlan, rootSchema: Schema, visited: Set<string>, strict: boolean): Record<string, JSONValue> {
+    const properties = schema.properties || {};
+    const result: Record<string, JSONValue> = {};
 
     // Process all properties
-    for (const [key, propSchema] of Object.entries(schema.properties)) {
+    for (const [key, propSchema] of plan.properties) {
       // In strict mode, always include required properties
       // In loose mode, or for non-required, have a high chance to include (90%)
-      const isRequired = required.has(key);
+      const isRequired = plan.required.has(key);
+
+      // Deeper objects keep fewer optional properties
+      const factor = this.budgetFactor();
+      if (isRequired || ((!strict || random() > 0.1) && (factor >= 1 || random() < factor))) {
+        // Derived values are filled in once the values they read exist; null keeps their place
+        result[key] = plan.derived.has(key) ? null : this.parseProperty(propSchema, result, rootSchema, visited, strict, key);
+      }
+    }
+
+    // Derived properties always get the values they read, even optional ones
+    this.addDerivedSources(result, plan, rootSchema, visited, strict);
 
-      if (isRequired || !strict || random() > 0.1) {
-        result[key] = this.parse(propSchema as Schema, root, visited, strict, key);
+    // Keep related dates in order, e.g. updatedAt after createdAt
+    this.orderDates(result, plan);
+
+    for (const derived of plan.derived.values()) {
+      if (derived.name in result) {
+        result[derived.name] = this.generateDerived(derived, result, rootSchema, visited, strict);
+      }
+    }
+
+    // Properties required by the presence of others
+    if (schema.dependentRequired) {
+      for (const [trigger, dependencies] of Object.entries(schema.dependentRequired)) {
+        if (!(trigger in result)) {
+          continue;
+        }
+        for (const dependency of dependencies) {
+          if (!(dependency in result)) {
+            result[dependency] = this.parseProperty(properties[dependency] || { type: 'string' }, result, rootSchema, visited, strict, dependency);
+          }
+        }
+      }
+    }
+
+    // Subschemas applied when a property is present
+    for (const [trigger, dependentSchema] of plan.dependentSchemas) {
+      if (!(trigger in result)) {
+        continue;
+      }
+      const extra = this.parse(dependentSchema, rootSchema, visited, strict);
+      if (typeof extra === 'object' && extra !== null && !Array.isArray(extra)) {
+        for (const [key, value] of Object.entries(extra)) {
+          if (!(key in result)) {
+            result[key] = value;
+          }
+        }
+      }
+    }
+
+    // Properties whose names match a regex
+    if (schema.patternProperties) {
+      for (const [pattern, propSchema] of Object.entries(schema.patternProperties)) {
+        const extraCount = randomInt(1, 2);
+        for (let i = 0; i < extraCount; i++) {
+          try {
+            const propName = generateFromPattern(pattern, { minLength: 1 });
+            if (!(propName in result)) {
+              result[propName] = this.parseProperty(propSchema, result, rootSchema, visited, strict, propName);
+            }
+          } catch (error) {
+            console.warn(`Skipping patternProperties entry: ${error instanceof Error ? error.message : String(error)}`);
+            break;
+          }
+        }
       }
     }
 
@@ -521,15 +1447,127 @@ export class SchemaParser {
         : Math.min(3, randomInt(0, 4));
 
       for (let i = 0; i < additionalProps; i++) {
-        const propName = `extra_${i}`;
+        const propName = this.generatePropertyName(schema, rootSchema, i);
         if (!(propName in result)) {
           result[propName] = typeof schema.additionalProperties === 'boolean'
             ? 'additional_value'
-            : this.parse(schema.additionalProperties, root, visited, strict);
+            : this.parse(schema.additionalProperties, rootSchema, visited, strict);
         }
       }
     }
 
     return result;
   }
+
+  /**
+   * Runs an object or array generator one nesting level deeper
+   *
+   * The node count starts over whenever a new top-level value is generated.
+   *
+   * @param callback - Generates the object or array
+   * @returns The callback's result
+   */
+  private static nested<T>(callback: () => T): T {
+    if (this.depth === 0) {
+      this.nodeCount = 0;
+    }
+    this.depth++;
+    try {
+      return callback();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /**
+   * Gets the share of optional properties and array items kept at the current depth
+   *
+   * @returns 1 at the top level, falling linearly to 0 at maxDepth or once the node budget is spent
+   */
+  private static budgetFactor(): number {
+    if (this.nodeCount >= this.maxNodes) {
+      return 0;
+    }
+    return Math.max(0, 1 - (this.depth - 1) / this.maxDepth);
+  }
+
+  /**
+   * Parses a property schema with its containing object as the current parent
+   *
+   * @param schema - The property schema
+   * @param parent - The object being generated, passed to custom generators
+   * @param rootSchema - Root schema for $ref resolution
+   * @param visited - Set of visited references to prevent circular loops
+   * @param strict - Whether to enforce strict validation
+   * @param propertyName - The property name
+   * @returns Generated mock data for the property
+   */
+  private static parseProperty(schema: Schema, parent: Record<string, JSONValue>, rootSchema: Schema, visited: Set<string>, strict: boolean, propertyName: string): JSONValue {
+    this.nodeCount++;
+    this.parentStack.push(parent);
+    try {
+      return this.parse(schema, rootSchema, visited, strict, propertyName);
+    } finally {
+      this.parentStack.pop();
+    }
+  }
+
+  /**
+   * Generates a name for an additional property
+   *
+   * Uses `propertyNames` when present so generated keys stay valid,
+   * otherwise falls back to `extra_<index>`.
+   *
+   * @param schema - The object schema
+   * @param rootSchema - Root schema for $ref resolution
+   * @param index - Index of the additional property being generated
+   * @returns A property name
+   */
+  private static generatePropertyName(schema: Schema, rootSchema: Schema, index: number): string {
+    if (schema.propertyNames) {
+      const name = this.parse({ type: 'string', ...schema.propertyNames }, rootSchema, new Set(), false);
+      if (typeof name === 'string' && name.length > 0) {
+        return name;
+      }
+    }
+    return `extra_${index}`;
+  }
+}
+
+/**
+ * Removes the properties a schema forbids, with a `false` subschema or
+ * `not: { required: [...] }`, from a generated object
+ */
+function withoutForbiddenProperties(value: JSONValue, schema: Schema): JSONValue {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+  const required = new Set(schema.required ?? []);
+  const forbidden = [
+    ...Object.entries(schema.properties ?? {}).filter(([, propSchema]) => (propSchema as unknown) === false).map(([name]) => name),
+    ...(schema.not?.required ?? []).filter(name => !required.has(name))
+  ];
+  const result = { ...value };
+  for (const name of forbidden) {
+    delete result[name];
+  }
+  return result;
+}
+
+const warnedFormats = new Set<string>();
+
+/**
+ * Default unknown-format hook: logs a warning once per format
+ */
+function warnUnknownFormat({ format, propertyName }: UnknownFormatContext): void {
+  if (warnedFormats.has(format)) {
+    return;
+  }
+  warnedFormats.add(format);
+  log.warn(`Unknown string format "${format}", generating random strings`, {
+    module: 'schema',
+    format,
+    property: propertyName,
+    hint: 'Register a generator with SchemaParser.registerFormat() or a schemock.config.js "formats" entry.'
+  });
 }
@@ -1,3 +1,6 @@
+import type { GeneratorRandom } from '../utils/random';
+export type { GeneratorRandom };
+
 export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
 
 export type JSONValue = string | number | boolean | null | JSONObject | JSONArray;
@@ -11,16 +14,33 @@ export type SchemaEnumValue = string | number | boolean | null;
 
 export interface Schema {
   $schema?: string;
+  $id?: string;
   $ref?: string;
+  $anchor?: string;
+  $defs?: Record<string, Schema>;
+  definitions?: Record<string, Schema>;
   title?: string;
   description?: string;
   type?: JSONSchemaType | JSONSchemaType[];
+  nullable?: boolean; // OpenAPI 3.0 style nullable flag
   properties?: Record<string, Schema>;
-  items?: Schema | Schema[];
+  patternProperties?: Record<string, Schema>;
+  propertyNames?: Schema;
+  items?: Schema | Schema[] | boolean;
+  prefixItems?: Schema[];
+  additionalItems?: boolean | Schema;
+  contains?: Schema;
+  minContains?: number;
+  maxContains?: number;
+  uniqueItems?: boolean;
   required?: string[];
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, Schema>;
   enum?: SchemaEnumValue[];
   default?: JSONValue;
   format?: string;
+  formatMinimum?: string;
+  formatMaximum?: string;
   minLength?: number;
   maxLength?: number;
   minimum?: number;
@@ -31,27 +51,228 @@ export interface Schema {
   minItems?: number;
   maxItems?: number;
   pattern?: string;
+  contentEncoding?: string;
+  contentMediaType?: string;
   additionalProperties?: boolean | Schema;
   oneOf?: Schema[];
   anyOf?: Schema[];
   allOf?: Schema[];
   not?: Schema;
+  if?: Schema;
+  then?: Schema;
+  else?: Schema;
   const?: JSONValue;
+  examples?: JSONValue[];
+  example?: JSONValue; // OpenAPI 3.0 single example
   'x-schemock-routes'?: RouteDefinition[];
+  'x-schemock-locale'?: string;
+  'x-schemock-faker'?: FakerSpec;
+  'x-schemock-unique'?: boolean;
+  'x-schemock-after'?: string;
+  'x-schemock-before'?: string;
+  'x-schemock-template'?: string;
+  'x-schemock-compute'?: string;
+  'x-schemock-weights'?: number[] | Record<string, number>;
+  'x-schemock-distribution'?: DistributionSpec;
+  'x-schemock-nested'?: boolean | NestedRouteSpec; // On a foreign key property, or false on the root to disable all
+  'x-schemock-resources'?: Record<string, Schema>; // One CRUD resource per entry, keyed by resource name
   [key: string]: unknown; // Allow for additional properties (extension points)
 }
 
+/**
+ * Nested routes for a foreign key property, e.g. `postId` on a comment
+ * gives GET and POST /api/posts/:postId/comments
+ */
+export interface NestedRouteSpec {
+  parent?: string; // Parent resource, when the property name doesn't tell, e.g. "teams" for ownerId
+  path?: string; // Full route path, e.g. /api/articles/:postId/comments
+  methods?: Array<'get' | 'post'>;
+}
+
+/** The parent of a nested route: its path parameter and the foreign key it fills */
+export interface NestedParent {
+  param: string;
+  field: string;
+}
+
+/** What a generated route handler serves */
+export interface HandlerRouteDefinition {
+  response?: JSONValue | Schema;
+  resource?: string; // Stored resource, when it isn't the first path segment
+  parent?: NestedParent;
+}
+
 export interface RouteDefinition {
   path: string;
   method: 'get' | 'post' | 'put' | 'delete' | 'patch';
   response: JSONValue | Schema; // Can be a fixed JSON value or a Schema to be parsed
   statusCode?: number;
   delay?: number;
-  headers?: Record<string, string>;
+  headers?: Record<string, string>; // Response headers
+  params?: Schema; // Path parameters, e.g. { "properties": { "id": { "type": "integer" } } }
+  query?: Schema; // Query string; values are coerced to the declared types
+  requestHeaders?: Schema; // Request headers, matched case-insensitively
+  requestBody?: Schema;
+}
+
+/** Where a request value comes from */
+export type RequestLocation = 'params' | 'query' | 'headers' | 'body';
+
+/** Schemas for the parts of a request, checked before the route responds */
+export type RouteRequestSchemas = Partial<Record<RequestLocation, Schema>>;
+
+/**
+ * Offline data pack used for locale-aware name, address and phone heuristics.
+ *
+ * Format strings use `#` for any digit and `%` for a non-zero digit.
+ */
+export interface LocalePack {
+  code: string; // BCP 47 tag, e.g. 'de-DE'
+  firstNames: string[];
+  lastNames: string[];
+  nameFormat: string; // Uses {first} and {last}
+  companies: string[];
+  cities: string[];
+  states: string[]; // States, provinces, regions or prefectures
+  streets: string[];
+  buildingNumberFormats: string[];
+  addressFormat: string; // Street line; uses {street} and {buildingNumber}
+  postalCodeFormat: string;
+  phoneFormats: string[];
+  country: string; // Name of the locale's own country, in the local language
+  countries: string[];
+}
+
+/** Everything a custom format or property heuristic generator receives */
+export interface GeneratorContext {
+  schema: Schema;
+  propertyName?: string;
+  parent?: Record<string, JSONValue>; // Object being generated, with the properties generated so far
+  random: GeneratorRandom; // Seeded next(), int(min, max), float(min, max) and pick(values)
+  locale: string;
+}
+
+/** A custom generator; returning undefined falls back to the built-in generation */
+export type CustomGenerator = (context: GeneratorContext) => JSONValue | undefined;
+
+/** Property name matcher: exact name (case-insensitive), RegExp, or predicate */
+export type PropertyMatcher = string | RegExp | ((...args: [propertyName: string, schema: Schema]) => boolean);
+
+/** A value's violation of a schema keyword, found by SchemaValidator */
+export interface SchemaViolation {
+  instancePath: string; // JSON pointer of the value, '' for the root
+  schemaPath: string; // JSON pointer of the keyword in the schema, e.g. '#/properties/email/format'
+  keyword: string;
+  message: string;
+  params?: Record<string, JSONValue>;
+}
+
+/** A request's violation of a route's request schemas */
+export interface RequestViolation extends SchemaViolation {
+  in: RequestLocation;
+}
+
+/** An RFC 6902 JSON Patch operation */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string; // Source pointer of move and copy
+  value?: JSONValue; // Value of add, replace and test
+}
+
+/** A group of identical response violations on a route, e.g. every missing `email` */
+export interface ContractDrift {
+  schemaPath: string;
+  keyword: string;
+  message: string; // Message of the latest occurrence
+  instancePath: string; // Pointer of the latest occurrence
+  count: number;
+}
+
+/** Response contract results for one route */
+export interface ContractRouteReport {
+  method: string;
+  path: string;
+  checked: number; // Responses validated
+  failed: number; // Responses with at least one violation
+  lastFailedAt?: string;
+  drift: ContractDrift[]; // Most frequent first
+}
+
+/** Summary served at /__schemock/contract-report */
+export interface ContractReportSummary {
+  mode: ResponseValidationMode | 'off';
+  since: string;
+  checked: number;
+  failed: number;
+  routes: ContractRouteReport[];
+}
+
+/** What the unknown-format hook is told about a schema whose format has no generator */
+export interface UnknownFormatContext {
+  format: string;
+  schema: Schema;
+  propertyName?: string;
+}
+
+/** Called when a string schema has a format that neither Schemock nor a custom generator knows */
+export type UnknownFormatHandler = (context: UnknownFormatContext) => void;
+
+/** Project config file (schemock.config.js) loaded by the CLI */
+export interface SchemockConfig {
+  formats?: Record<string, CustomGenerator>;
+  heuristics?: Array<{ match: PropertyMatcher; generate: CustomGenerator }>;
+  unknownFormat?: UnknownFormatHandler;
+  queryDialect?: Partial<QueryDialect>;
 }
 
+/**
+ * An `x-schemock-faker` generator reference: a name such as "commerce.productName",
+ * or an object with the name and named arguments.
+ */
+export type FakerSpec = string | { name: string; args?: Record<string, JSONValue> };
+
+export type DistributionName = 'uniform' | 'normal' | 'exponential' | 'zipf' | 'lognormal';
+
+/**
+ * An `x-schemock-distribution` for numbers and array lengths: a distribution
+ * name, or an object with the name and its parameters (normal: mean, stddev;
+ * exponential: mean or rate; zipf: s; lognormal: mu, sigma).
+ */
+export type DistributionSpec = DistributionName | {
+  type: DistributionName;
+  mean?: number;
+  stddev?: number;
+  rate?: number;
+  s?: number;
+  mu?: number;
+  sigma?: number;
+};
+
 export type Scenario = 'happy-path' | 'slow' | 'error-heavy' | 'sad-path';
 
+/**
+ * Query parameter conventions for GETs, so the mock can match a real backend:
+ * `?page=2&limit=10&sort=-createdAt&price[gte]=10&q=shoe&fields=id,name&include=author`
+ */
+export interface QueryDialect {
+  page: string; // Parameter names
+  limit: string;
+  offset: string;
+  cursor: string;
+  sort: string;
+  search: string;
+  fields: string;
+  include: string;
+  operators: 'brackets' | 'suffix'; // price[gte]=10 or price_gte=10
+  defaultLimit?: number; // Page size when a request sets none; without it, unpaginated requests get every item
+  maxLimit: number;
+  includeDepth: number; // Relations embedded at most per include path, e.g. 2 for comments.author
+}
+
+/** What happens when a response body doesn't match the route schema */
+export type ResponseValidationMode = 'log' | 'header' | 'fail';
+
 export interface ServerOptions {
   port: number;
   basePath?: string;
@@ -62,6 +283,14 @@ export interface ServerOptions {
   scenario?: Scenario;
   strict?: boolean;
   hideBranding?: boolean; // Disable Schemock branding (for paid users)
+  schemaDir?: string; // Root directory of schema files used to resolve external $refs
+  nullProbability?: number; // Chance (0-1) of generating null for nullable fields
+  locale?: string; // Default locale pack for generated names, addresses and phone numbers
+  exampleProbability?: number; // Chance (0-1) of using examples/default instead of generated values
+  maxDepth?: number; // Object/array nesting depth at which optional properties and array items run out
+  maxNodes?: number; // Property values and array items generated at most per top-level value
+  validateResponses?: ResponseValidationMode; // Check response bodies against the route schema
+  queryDialect?: Partial<QueryDialect>; // Parameter names and operator syntax for collection GETs
   [key: string]: unknown; // Allow for additional properties (extension points)
 }
 
@@ -73,6 +302,8 @@ export interface RouteRequest {
   method?: string;
   path?: string;
   headers?: Record<string, string>;
+  responseHeaders?: Record<string, string>; // Headers a handler adds to the response, e.g. Link
+  unshapedData?: JSONValue; // Response data before ?fields= and ?include=, checked by validateResponses
 }
 
 // Type for server state
@@ -92,11 +323,15 @@ export interface RouteConfig {
   delay?: number;
   headers?: Record<string, string>;
   schema?: Schema;
+  request?: RouteRequestSchemas;
+  resource?: string; // The stored resource a generated route serves
+  collection?: boolean; // True when the route lists items of its schema
 }
 
 export interface MockServerConfig {
   server: ServerOptions;
   routes: Record<string, RouteConfig>;
+  schema?: Schema; // Schema document the routes were generated from, for $ref resolution
 }
 
 // Type guards for runtime type checking
@@ -161,11 +396,14 @@ export function isSchema(value: unknown): value is Schema {
     '$ref' in schema ||
     'type' in schema ||
     'properties' in schema ||
+    'patternProperties' in schema ||
     'items' in schema ||
+    'prefixItems' in schema ||
     'oneOf' in schema ||
     'anyOf' in schema ||
     'allOf' in schema ||
     'not' in schema ||
+    'if' in schema ||
     'enum' in schema ||
     'const' in schema ||
     'required' in schema
@@ -5,6 +5,8 @@
 
 import { ConfigurationError } from '../errors';
 import { log } from './logger';
+import { getLocalePack, getSupportedLocales } from '../locales';
+import { validateQueryDialect } from '../generators/collection-query';
 import {
     DEFAULT_PORT,
     DEFAULT_LOG_LEVEL,
@@ -19,7 +21,8 @@ import type {
     ServerOptions,
     RouteConfig,
     MockServerConfig,
-    Scenario
+    Scenario,
+    ResponseValidationMode
 } from '../types';
 
 /**
@@ -32,10 +35,15 @@ const VALID_HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch'] as const;
  */
 const VALID_SCENARIOS: Scenario[] = ['happy-path', 'slow', 'error-heavy', 'sad-path'];
 
+/**
+ * Valid response validation modes
+ */
+const RESPONSE_VALIDATION_MODES: ResponseValidationMode[] = ['log', 'header', 'fail'];
+
 /**
  * Configuration validation error details
  */
-interface ConfigValidationError {
+export interface ConfigValidationError {
     field: string;
     message: string;
     value?: unknown;
@@ -210,6 +218,73 @@ export function validateServerOptions(options: Partial<ServerOptions>): ServerOp
         });
     }
 
+    // Validate schemaDir
+    if (options.schemaDir !== undefined && (typeof options.schemaDir !== 'string' || options.schemaDir.length === 0)) {
+        errors.push({
+            field: 'server.schemaDir',
+            message: 'schemaDir must be a non-empty string',
+            value: options.schemaDir
+        });
+    }
+
+    // Validate nullProbability
+    if (options.nullProbability !== undefined &&
+        (typeof options.nullProbability !== 'number' || Number.isNaN(options.nullProbability) ||
+         options.nullProbability < 0 || options.nullProbability > 1)) {
+        errors.push({
+            field: 'server.nullProbability',
+            message: 'nullProbability must be a number between 0 and 1',
+            value: options.nullProbability
+        });
+    }
+
+    // Validate exampleProbability
+    if (options.exampleProbability !== undefined &&
+        (typeof options.exampleProbability !== 'number' || Number.isNaN(options.exampleProbability) ||
+         options.exampleProbability < 0 || options.exampleProbability > 1)) {
+        errors.push({
+            field: 'server.exampleProbability',
+            message: 'exampleProbability must be a number between 0 and 1',
+            value: options.exampleProbability
+        });
+    }
+
+    // Validate maxDepth and maxNodes
+    for (const field of ['maxDepth', 'maxNodes'] as const) {
+        const value = options[field];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+            errors.push({
+                field: `server.${field}`,
+                message: `${field} must be a positive integer`,
+                value
+            });
+        }
+    }
+
+    // Validate validateResponses
+    if (options.validateResponses !== undefined && !RESPONSE_VALIDATION_MODES.includes(options.validateResponses)) {
+        errors.push({
+            field: 'server.validateResponses',
+            message: `validateResponses must be one of: ${RESPONSE_VALIDATION_MODES.join(', ')}`,
+            value: options.validateResponses
+        });
+    }
+
+    // Validate queryDialect
+    if (options.queryDialect !== undefined) {
+        errors.push(...validateQueryDialect(options.queryDialect, 'server.queryDialect'));
+    }
+
+    // Validate locale
+    if (options.locale !== undefined &&
+        (typeof options.locale !== 'string' || !getLocalePack(options.locale))) {
+        errors.push({
+            field: 'server.locale',
+            message: `locale must be one of: ${getSupportedLocales().join(', ')}`,
+            value: options.locale
+        });
+    }
+
     if (errors.length > 0) {
         throw new ConfigurationError(
             'Server options validation failed',
@@ -227,7 +302,15 @@ export function validateServerOptions(options: Partial<ServerOptions>): ServerOp
         logLevel: options.logLevel ?? DEFAULT_LOG_LEVEL,
         scenario: options.scenario ?? DEFAULT_SCENARIO,
         strict: options.strict ?? false,
-        hideBranding: options.hideBranding ?? false
+        hideBranding: options.hideBranding ?? false,
+        schemaDir: options.schemaDir,
+        nullProbability: options.nullProbability,
+        locale: options.locale,
+        exampleProbability: options.exampleProbability,
+        maxDepth: options.maxDepth,
+        maxNodes: options.maxNodes,
+        validateResponses: options.validateResponses,
+        queryDialect: options.queryDialect
     };
 }
 
@@ -45,8 +45,33 @@ export const MAX_PROJECT_NAME_LENGTH = 100;
 
 // Schema parsing
 export const MAX_SCHEMA_DEPTH = 10;
+export const DEFAULT_MAX_NODES = 1000;
 export const MAX_ARRAY_ITEMS = 100;
 export const MIN_ARRAY_ITEMS_STRICT = 1;
+export const DEFAULT_NULL_PROBABILITY = 0.1;
+export const DEFAULT_EXAMPLE_PROBABILITY = 0;
+export const DEFAULT_LOCALE = 'en-US';
+export const MAX_UNIQUE_ATTEMPTS = 10;
+
+// Dataset generation
+export const DEFAULT_DATASET_COUNT = 10;
+export const MAX_REFERENCE_POOL_SIZE = 10000;
+// Seeded datasets count dates from here, so reruns are identical
+export const SEEDED_REFERENCE_DATE = '2025-01-01T00:00:00Z';
+
+// Placeholder images
+export const PLACEHOLDER_ROUTE = '/__schemock/placeholder';
+export const MAX_PLACEHOLDER_SIZE = 2000;
+
+// Collection queries
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+export const DEFAULT_INCLUDE_DEPTH = 2;
+
+// Response contract checks
+export const CONTRACT_REPORT_ROUTE = '/__schemock/contract-report';
+export const CONTRACT_HEADER = 'X-Schemock-Contract';
+export const MAX_CONTRACT_DRIFT = 20;
 
 // Heuristics data
 export const MOCK_EMAIL_DOMAIN = 'example.com';
@@ -0,0 +1,255 @@
+/**
+ * Weighted picks and numeric distributions
+ *
+ * Backs the `x-schemock-weights` keyword on enums and the
+ * `x-schemock-distribution` keyword on numbers and array lengths, so
+ * generated data has realistic skew: most orders are "delivered", most
+ * carts hold one or two items and a few customers place most orders.
+ *
+ * Samples always stay within the schema's bounds and grid: values outside
+ * [min, max] are redrawn and finally clamped, and values are snapped to
+ * `multipleOf` (or whole numbers for integers).
+ */
+
+import { DistributionName, DistributionSpec, JSONValue } from '../types';
+import { SchemaParseError } from '../errors';
+import { random, randomInt, randomFloat } from './random';
+
+/** A validated distribution with all parameters set by the user */
+export type Distribution = Exclude<DistributionSpec, string>;
+
+const DISTRIBUTIONS: DistributionName[] = ['uniform', 'normal', 'exponential', 'zipf', 'lognormal'];
+
+const DISTRIBUTION_PARAMETERS: Record<DistributionName, string[]> = {
+  uniform: [],
+  normal: ['mean', 'stddev'],
+  exponential: ['mean', 'rate'],
+  zipf: ['s'],
+  lognormal: ['mu', 'sigma']
+};
+
+/** Draws made before an out-of-range sample is clamped into range */
+const MAX_SAMPLE_ATTEMPTS = 20;
+
+/** Ranks considered by zipf; later ranks have negligible probability */
+const MAX_ZIPF_RANKS = 1000;
+
+/**
+ * Validates an `x-schemock-distribution` value
+ *
+ * @param spec - A distribution name, or an object with `type` and parameters
+ * @returns The distribution, or undefined when none is set
+ * @throws {SchemaParseError} When the name or a parameter is invalid
+ */
+export function compileDistribution(spec: unknown): Distribution | undefined {
+  if (spec === undefined) {
+    return undefined;
+  }
+
+  const distribution = typeof spec === 'string' ? { type: spec } : spec;
+  if (typeof distribution !== 'object' || distribution === null || Array.isArray(distribution)) {
+    throw distributionError(spec, 'Expected a distribution name or an object with a "type"');
+  }
+
+  const { type, ...parameters } = distribution as Record<string, unknown>;
+  if (!DISTRIBUTIONS.includes(type as DistributionName)) {
+    throw distributionError(spec, `Unknown distribution "${String(type)}". Use one of: ${DISTRIBUTIONS.join(', ')}`);
+  }
+  const allowed = DISTRIBUTION_PARAMETERS[type as DistributionName];
+  for (const [name, value] of Object.entries(parameters)) {
+    if (!allowed.includes(name)) {
+      throw distributionError(spec, `Unknown parameter "${name}" for ${String(type)}` +
+        (allowed.length > 0 ? `. Use: ${allowed.join(', ')}` : ''));
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw distributionError(spec, `Parameter "${name}" must be a number`);
+    }
+    // Normal means and lognormal mu may be negative; other parameters are scales
+    if ((name !== 'mean' || type === 'exponential') && name !== 'mu' && value <= 0) {
+      throw distributionError(spec, `Parameter "${name}" must be positive`);
+    }
+  }
+
+  return distribution as Distribution;
+}
+
+/**
+ * Validates `x-schemock-weights` for an enum and turns them into cumulative weights
+ *
+ * Weights are an array aligned with the enum, or an object keyed by enum
+ * value; values missing from the object are never picked.
+ *
+ * @param values - The enum values
+ * @param weights - The weights
+ * @returns Cumulative weights, or undefined when no weights are set
+ * @throws {SchemaParseError} When the weights don't match the enum or are not non-negative numbers
+ */
+export function compileWeights(values: JSONValue[], weights: unknown): number[] | undefined {
+  if (weights === undefined) {
+    return undefined;
+  }
+
+  let list: unknown[];
+  if (Array.isArray(weights)) {
+    if (weights.length !== values.length) {
+      throw weightsError(weights, `Expected ${values.length} weights, one per enum value, but got ${weights.length}`);
+    }
+    list = weights;
+  } else if (typeof weights === 'object' && weights !== null) {
+    const keys = values.map(value => String(value));
+    const unknown = Object.keys(weights).find(key => !keys.includes(key));
+    if (unknown !== undefined) {
+      throw weightsError(weights, `"${unknown}" is not one of the enum values`);
+    }
+    list = keys.map(key => (weights as Record<string, unknown>)[key] ?? 0);
+  } else {
+    throw weightsError(weights, 'Expected an array or an object of weights');
+  }
+
+  let total = 0;
+  const cumulative = list.map(weight => {
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw weightsError(weights, 'Weights must be non-negative numbers');
+    }
+    total += weight;
+    return total;
+  });
+  if (total <= 0) {
+    throw weightsError(weights, 'At least one weight must be positive');
+  }
+  return cumulative;
+}
+
+/**
+ * Picks a value, weighted by cumulative weights from compileWeights()
+ *
+ * @param values - The values to pick from
+ * @param cumulative - Cumulative weights, or undefined to pick uniformly
+ * @returns The picked value
+ */
+export function pickWeighted<T>(values: T[], cumulative?: number[]): T {
+  if (!cumulative) {
+    return values[randomInt(0, values.length - 1)];
+  }
+  const target = random() * cumulative[cumulative.length - 1];
+  const index = cumulative.findIndex(weight => target < weight);
+  return values[index === -1 ? values.length - 1 : index];
+}
+
+/**
+ * Samples a number within [min, max]
+ *
+ * Without parameters, normal is centred in the range with a sixth of its
+ * width as standard deviation, exponential and lognormal start at `min` and
+ * decay over the range, and zipf ranks values upwards from `min`.
+ *
+ * @param distribution - The distribution, or undefined for uniform
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @param step - Grid that values snap to (1 for integers, `multipleOf`), if any
+ * @returns The sampled value
+ */
+export function sampleNumber(distribution: Distribution | undefined, min: number, max: number, step?: number): number {
+  if (step !== undefined) {
+    const first = Math.ceil(min / step - 1e-9) * step;
+    const steps = Math.floor((max - first) / step + 1e-9);
+    if (steps < 0) {
+      return snap(first, step);
+    }
+    let index: number;
+    if (!distribution || distribution.type === 'uniform') {
+      index = randomInt(0, steps);
+    } else if (distribution.type === 'zipf') {
+      index = sampleZipfRank(distribution, steps + 1);
+    } else {
+      index = Math.round((sampleContinuous(distribution, first, first + steps * step) - first) / step);
+    }
+    return snap(first + Math.min(steps, Math.max(0, index)) * step, step);
+  }
+
+  if (distribution?.type === 'zipf') {
+    return Math.min(max, min + sampleZipfRank(distribution, Math.floor(max - min) + 1));
+  }
+  return sampleContinuous(distribution, min, max);
+}
+
+function sampleContinuous(distribution: Distribution | undefined, min: number, max: number): number {
+  if (!distribution || distribution.type === 'uniform' || max <= min) {
+    return randomFloat(min, max);
+  }
+
+  const width = max - min;
+  for (let attempt = 0; attempt < MAX_SAMPLE_ATTEMPTS; attempt++) {
+    const value = drawContinuous(distribution, min, width);
+    if (value >= min && value <= max) {
+      return value;
+    }
+  }
+  return Math.min(max, Math.max(min, drawContinuous(distribution, min, width)));
+}
+
+function drawContinuous(distribution: Distribution, min: number, width: number): number {
+  switch (distribution.type) {
+    case 'normal':
+      return (distribution.mean ?? min + width / 2) + standardNormal() * (distribution.stddev ?? width / 6);
+    case 'exponential': {
+      const mean = distribution.rate !== undefined ? 1 / distribution.rate : (distribution.mean ?? width / 5);
+      return min - Math.log(1 - random()) * mean;
+    }
+    case 'lognormal':
+      return min + Math.exp((distribution.mu ?? Math.log(width / 10)) + standardNormal() * (distribution.sigma ?? 1));
+    default:
+      return randomFloat(min, min + width);
+  }
+}
+
+/**
+ * Samples a zero-based rank with probability proportional to 1 / (rank + 1)^s
+ */
+function sampleZipfRank(distribution: Distribution, ranks: number): number {
+  const count = Math.min(ranks, MAX_ZIPF_RANKS);
+  const s = distribution.s ?? 1;
+  let total = 0;
+  for (let rank = 1; rank <= count; rank++) {
+    total += 1 / rank ** s;
+  }
+  let target = random() * total;
+  for (let rank = 1; rank <= count; rank++) {
+    target -= 1 / rank ** s;
+    if (target < 0) {
+      return rank - 1;
+    }
+  }
+  return count - 1;
+}
+
+/** Box-Muller transform */
+function standardNormal(): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Rounds away floating point noise, e.g. 0.30000000000000004 for a 0.1 grid
+ */
+function snap(value: number, step: number): number {
+  const decimals = Math.max(0, 2 - Math.floor(Math.log10(step)));
+  return Number(value.toFixed(Math.min(20, decimals)));
+}
+
+function distributionError(spec: unknown, reason: string): SchemaParseError {
+  return new SchemaParseError(
+    `Invalid x-schemock-distribution ${JSON.stringify(spec)}: ${reason}`,
+    { distribution: spec },
+    'Use e.g. "exponential" or { "type": "normal", "mean": 50, "stddev": 10 }.'
+  );
+}
+
+function weightsError(weights: unknown, reason: string): SchemaParseError {
+  return new SchemaParseError(
+    `Invalid x-schemock-weights ${JSON.stringify(weights)}: ${reason}`,
+    { weights },
+    'Use an array aligned with the enum, e.g. [70, 20, 10], or an object such as { "delivered": 70 }.'
+  );
+}
@@ -0,0 +1,518 @@
+/**
+ * Templates and arithmetic expressions over generated values
+ *
+ * Backs the `x-schemock-template` and `x-schemock-compute` keywords. Both
+ * reference values by path: `firstName`, `address.city`, `lines.price` (every
+ * item's price) or `$parent.id` (a property of the enclosing object, as far
+ * as it was generated before the nested object; its own derived values are
+ * computed last).
+ *
+ *   "{firstName} {lastName}"                 template, with filters:
+ *   "{firstName|slug}.{lastName|slug}@example.com"
+ *   "quantity * unitPrice"                    expression, with functions:
+ *   "round(sum(lines.total) * 1.2, 2)"
+ *
+ * Expressions are parsed into a tree and evaluated by this module; they are
+ * never run as JavaScript.
+ */
+
+import { JSONValue } from '../types';
+import { SchemaParseError } from '../errors';
+
+/** A value path such as ['address', 'city'] or ['$parent', 'id'] */
+export type ValuePath = string[];
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'path'; path: ValuePath }
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '%'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+export interface TemplatePlaceholder {
+  path: ValuePath;
+  filters: string[];
+}
+
+/** A template as literal text and placeholders, in order */
+export type CompiledTemplate = Array<string | TemplatePlaceholder>;
+
+/** The objects that paths are resolved against */
+export interface ValueScope {
+  /** The object being generated */
+  self: Record<string, JSONValue>;
+  /** The enclosing object, referenced as `$parent` */
+  parent?: Record<string, JSONValue>;
+}
+
+/** The first path segment that refers to the enclosing object */
+export const PARENT_SEGMENT = '$parent';
+
+const TEMPLATE_FILTERS = ['lower', 'upper', 'capitalize', 'trim', 'initial', 'slug'];
+
+/** Functions available in expressions, with their allowed argument counts */
+const EXPRESSION_FUNCTIONS: Record<string, { minArgs: number; maxArgs: number }> = {
+  round: { minArgs: 1, maxArgs: 2 },
+  floor: { minArgs: 1, maxArgs: 1 },
+  ceil: { minArgs: 1, maxArgs: 1 },
+  abs: { minArgs: 1, maxArgs: 1 },
+  min: { minArgs: 1, maxArgs: Infinity },
+  max: { minArgs: 1, maxArgs: Infinity },
+  sum: { minArgs: 1, maxArgs: Infinity },
+  avg: { minArgs: 1, maxArgs: Infinity },
+  count: { minArgs: 1, maxArgs: 1 }
+};
+
+const PATH_PATTERN = /^[A-Za-z_$][\w$]*(?:\.(?:[A-Za-z_$][\w$]*|\d+))*$/;
+
+/**
+ * Compiles an `x-schemock-template` string
+ *
+ * Placeholders are `{path}` or `{path|filter|...}` with the filters lower,
+ * upper, capitalize, trim, initial and slug; `{{` and `}}` are literal braces.
+ *
+ * @param source - The template
+ * @returns The compiled template
+ * @throws {SchemaParseError} When a placeholder is malformed or uses an unknown filter
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  const parts: CompiledTemplate = [];
+  let text = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if ((char === '{' || char === '}') && source[index + 1] === char) {
+      text += char;
+      index += 2;
+      continue;
+    }
+    if (char === '}') {
+      throw templateError(source, 'Unmatched "}"; write "}}" for a literal brace');
+    }
+    if (char !== '{') {
+      text += char;
+      index++;
+      continue;
+    }
+
+    const end = source.indexOf('}', index);
+    if (end === -1) {
+      throw templateError(source, 'Unclosed "{"; write "{{" for a literal brace');
+    }
+    const [pathSource, ...filters] = source.slice(index + 1, end).split('|').map(part => part.trim());
+    if (!PATH_PATTERN.test(pathSource)) {
+      throw templateError(source, `Invalid placeholder path "${pathSource}"`);
+    }
+    const unknown = filters.find(filter => !TEMPLATE_FILTERS.includes(filter));
+    if (unknown !== undefined) {
+      throw templateError(source, `Unknown filter "${unknown}". Use one of: ${TEMPLATE_FILTERS.join(', ')}`);
+    }
+
+    if (text) {
+      parts.push(text);
+      text = '';
+    }
+    parts.push({ path: pathSource.split('.'), filters });
+    index = end + 1;
+  }
+
+  if (text) {
+    parts.push(text);
+  }
+  return parts;
+}
+
+/**
+ * Renders a compiled template
+ *
+ * Missing and null values render as empty strings and arrays as
+ * comma-separated lists.
+ *
+ * @param template - The compiled template
+ * @param scope - The objects that paths are resolved against
+ * @returns The rendered string
+ */
+export function renderTemplate(template: CompiledTemplate, scope: ValueScope): string {
+  return template.map(part => {
+    if (typeof part === 'string') {
+      return part;
+    }
+    const text = toText(resolvePath(scope, part.path));
+    return part.filters.reduce(applyFilter, text);
+  }).join('');
+}
+
+/**
+ * Gets the paths a compiled template references
+ */
+export function templateReferences(template: CompiledTemplate): ValuePath[] {
+  return template.filter((part): part is TemplatePlaceholder => typeof part !== 'string').map(part => part.path);
+}
+
+/**
+ * Compiles an `x-schemock-compute` expression
+ *
+ * Supports numbers, value paths, `+ - * / %`, parentheses, unary minus and
+ * the functions round(x, digits?), floor, ceil, abs, min, max, sum, avg and
+ * count. Paths through arrays (`lines.total`) yield one value per item for
+ * the aggregate functions.
+ *
+ * @param source - The expression
+ * @returns The expression tree
+ * @throws {SchemaParseError} When the expression is malformed
+ */
+export function compileExpression(source: string): ExpressionNode {
+  return new ExpressionParser(source).parse();
+}
+
+/**
+ * Evaluates a compiled expression
+ *
+ * @param expression - The expression tree
+ * @param scope - The objects that paths are resolved against
+ * @returns The result, or undefined when a referenced value is missing or not
+ *   a number, or the result is not finite (e.g. division by zero)
+ */
+export function evaluateExpression(expression: ExpressionNode, scope: ValueScope): number | undefined {
+  try {
+    const result = evaluate(expression, scope);
+    return typeof result === 'number' && Number.isFinite(result) ? result : undefined;
+  } catch (error) {
+    if (error instanceof MissingValueError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Gets the paths a compiled expression references
+ */
+export function expressionReferences(expression: ExpressionNode): ValuePath[] {
+  switch (expression.kind) {
+    case 'path':
+      return [expression.path];
+    case 'negate':
+      return expressionReferences(expression.operand);
+    case 'binary':
+      return [...expressionReferences(expression.left), ...expressionReferences(expression.right)];
+    case 'call':
+      return expression.args.flatMap(expressionReferences);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Resolves a value path
+ *
+ * A path segment applied to an array reads it from every item, except for
+ * numeric segments, which index the array.
+ *
+ * @param scope - The objects that paths are resolved against
+ * @param path - The path to resolve
+ * @returns The value, or undefined when the path doesn't exist
+ */
+export function resolvePath(scope: ValueScope, path: ValuePath): JSONValue | undefined {
+  const [first, ...rest] = path;
+  let current: JSONValue | undefined = first === PARENT_SEGMENT ? scope.parent : scope.self[first];
+  for (const segment of rest) {
+    current = step(current, segment);
+    if (current === undefined) {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function step(value: JSONValue | undefined, segment: string): JSONValue | undefined {
+  if (Array.isArray(value)) {
+    if (/^\d+$/.test(segment)) {
+      return value[Number(segment)];
+    }
+    return value.map(item => step(item, segment)).filter((item): item is JSONValue => item !== undefined);
+  }
+  if (value && typeof value === 'object') {
+    return value[segment];
+  }
+  return undefined;
+}
+
+function applyFilter(value: string, filter: string): string {
+  switch (filter) {
+    case 'lower':
+      return value.toLowerCase();
+    case 'upper':
+      return value.toUpperCase();
+    case 'capitalize':
+      return value.charAt(0).toUpperCase() + value.slice(1);
+    case 'trim':
+      return value.trim();
+    case 'initial':
+      return value.charAt(0);
+    default:
+      // slug: ASCII letters and digits joined by dashes ("Café Olé" → "cafe-ole")
+      return value
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+  }
+}
+
+function toText(value: JSONValue | undefined): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(', ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function templateError(source: string, reason: string): SchemaParseError {
+  return new SchemaParseError(
+    `Invalid x-schemock-template "${source}": ${reason}`,
+    { template: source },
+    'Use placeholders such as "{firstName} {lastName}" or "{title|slug}".'
+  );
+}
+
+/** Thrown while evaluating when a referenced value is missing or not a number */
+class MissingValueError extends Error {}
+
+type EvaluatedValue = number | number[];
+
+function evaluate(node: ExpressionNode, scope: ValueScope): EvaluatedValue {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'path':
+      return toNumbers(resolvePath(scope, node.path));
+    case 'negate':
+      return -scalar(evaluate(node.operand, scope));
+    case 'binary': {
+      const left = scalar(evaluate(node.left, scope));
+      const right = scalar(evaluate(node.right, scope));
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        default: return left % right;
+      }
+    }
+    case 'call': {
+      // count() takes lists of any items, e.g. count(lines)
+      const [first] = node.args;
+      if (node.name === 'count' && first.kind === 'path') {
+        const value = resolvePath(scope, first.path);
+        if (Array.isArray(value)) {
+          return value.length;
+        }
+      }
+      const args = node.args.map(arg => evaluate(arg, scope));
+      return callFunction(node.name, args);
+    }
+  }
+}
+
+function callFunction(name: string, args: EvaluatedValue[]): number {
+  const values = args.flatMap(arg => (Array.isArray(arg) ? arg : [arg]));
+  switch (name) {
+    case 'round': {
+      const factor = 10 ** (args.length > 1 ? scalar(args[1]) : 0);
+      return Math.round(scalar(args[0]) * factor) / factor;
+    }
+    case 'floor': return Math.floor(scalar(args[0]));
+    case 'ceil': return Math.ceil(scalar(args[0]));
+    case 'abs': return Math.abs(scalar(args[0]));
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+    case 'sum': return values.reduce((total, value) => total + value, 0);
+    case 'avg': return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : NaN;
+    default: return values.length;
+  }
+}
+
+function scalar(value: EvaluatedValue): number {
+  if (Array.isArray(value)) {
+    throw new MissingValueError('Expected a single number; use sum(), avg(), min(), max() or count() for lists');
+  }
+  return value;
+}
+
+function toNumbers(value: JSONValue | undefined): EvaluatedValue {
+  if (Array.isArray(value)) {
+    return value.map(item => scalar(toNumbers(item)));
+  }
+  const number = typeof value === 'number' ? value
+    : typeof value === 'string' && value.trim() !== '' ? Number(value)
+      : NaN;
+  if (Number.isNaN(number)) {
+    throw new MissingValueError('Referenced value is missing or not a number');
+  }
+  return number;
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'path'; value: string }
+  | { type: 'symbol'; value: string };
+
+/**
+ * Recursive descent parser for compute expressions
+ */
+class ExpressionParser {
+  private readonly source: string;
+  private readonly tokens: Token[];
+  private position = 0;
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = this.tokenize();
+  }
+
+  parse(): ExpressionNode {
+    const expression = this.parseSum();
+    if (this.position < this.tokens.length) {
+      throw this.error(`Unexpected "${this.tokens[this.position].value}"`);
+    }
+    return expression;
+  }
+
+  private parseSum(): ExpressionNode {
+    let left = this.parseProduct();
+    while (this.peekSymbol('+') || this.peekSymbol('-')) {
+      const operator = this.next().value as '+' | '-';
+      left = { kind: 'binary', operator, left, right: this.parseProduct() };
+    }
+    return left;
+  }
+
+  private parseProduct(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.peekSymbol('*') || this.peekSymbol('/') || this.peekSymbol('%')) {
+      const operator = this.next().value as '*' | '/' | '%';
+      left = { kind: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.peekSymbol('-')) {
+      this.next();
+      return { kind: 'negate', operand: this.parseUnary() };
+    }
+    if (this.peekSymbol('+')) {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw this.error('Unexpected end of expression');
+    }
+
+    if (token.type === 'number') {
+      this.position++;
+      return { kind: 'number', value: token.value };
+    }
+
+    if (token.type === 'path') {
+      this.position++;
+      if (!this.peekSymbol('(')) {
+        return { kind: 'path', path: token.value.split('.') };
+      }
+      return this.parseCall(token.value);
+    }
+
+    if (token.value === '(') {
+      this.position++;
+      const expression = this.parseSum();
+      this.expectSymbol(')');
+      return expression;
+    }
+
+    throw this.error(`Unexpected "${token.value}"`);
+  }
+
+  private parseCall(name: string): ExpressionNode {
+    const signature = EXPRESSION_FUNCTIONS[name];
+    if (!signature) {
+      throw this.error(`Unknown function "${name}". Use one of: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')}`);
+    }
+
+    this.expectSymbol('(');
+    const args: ExpressionNode[] = [];
+    if (!this.peekSymbol(')')) {
+      args.push(this.parseSum());
+      while (this.peekSymbol(',')) {
+        this.next();
+        args.push(this.parseSum());
+      }
+    }
+    this.expectSymbol(')');
+
+    if (args.length < signature.minArgs || args.length > signature.maxArgs) {
+      throw this.error(`Wrong number of arguments for ${name}()`);
+    }
+    return { kind: 'call', name, args };
+  }
+
+  private peekSymbol(symbol: string): boolean {
+    const token = this.tokens[this.position];
+    return token?.type === 'symbol' && token.value === symbol;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.peekSymbol(symbol)) {
+      throw this.error(`Expected "${symbol}"`);
+    }
+    this.position++;
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s*(?:(\d+(?:\.\d+)?(?:e[+-]?\d+)?)|([A-Za-z_$][\w$]*(?:\.(?:[A-Za-z_$][\w$]*|\d+))*)|([-+*/%(),]))/iy;
+    let index = 0;
+
+    while (index < this.source.length) {
+      if (/^\s*$/.test(this.source.slice(index))) {
+        break;
+      }
+      pattern.lastIndex = index;
+      const match = pattern.exec(this.source);
+      if (!match) {
+        throw this.error(`Unexpected character "${this.source.slice(index).trim().charAt(0)}"`);
+      }
+      if (match[1] !== undefined) {
+        tokens.push({ type: 'number', value: Number(match[1]) });
+      } else if (match[2] !== undefined) {
+        tokens.push({ type: 'path', value: match[2] });
+      } else {
+        tokens.push({ type: 'symbol', value: match[3] });
+      }
+      index = pattern.lastIndex;
+    }
+
+    return tokens;
+  }
+
+  private error(reason: string): SchemaParseError {
+    return new SchemaParseError(
+      `Invalid x-schemock-compute "${this.source}": ${reason}`,
+      { expression: this.source },
+      'Use arithmetic over sibling values, e.g. "quantity * unitPrice" or "round(sum(lines.total), 2)".'
+    );
+  }
+}
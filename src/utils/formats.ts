@@ -0,0 +1,253 @@
+/**
+ * JSON Schema string formats
+ *
+ * Generates and checks every format defined by JSON Schema 2020-12, plus
+ * the common `url` alias of `uri` and the OpenAPI `byte`, `binary` and
+ * `password` formats. Dates and times are generated by the
+ * temporal helpers, since their values depend on the property and its
+ * siblings; they are checked here like the other formats.
+ */
+
+import { domainToASCII } from 'url';
+import { isIPv4, isIPv6 } from 'net';
+import { generateFake } from '../generators/faker-catalog';
+import { randomInt, randomPick, randomUuid } from './random';
+import { MOCK_EMAIL_DOMAIN } from './constants';
+
+/** Formats that are generated and checked */
+export const KNOWN_FORMATS = [
+  'date-time', 'date', 'time', 'duration',
+  'email', 'idn-email', 'hostname', 'idn-hostname', 'ipv4', 'ipv6',
+  'uri', 'uri-reference', 'iri', 'iri-reference', 'uri-template', 'url', 'uuid',
+  'json-pointer', 'relative-json-pointer', 'regex',
+  'byte', 'binary', 'password'
+];
+
+const IDN_LABELS = ['bücher', 'münchen', 'café', 'straße', 'façade', 'δοκιμή', 'пример', '例え', 'テスト', 'مثال'];
+const IDN_USERS = ['josé', 'zoë', 'françois', 'søren', 'müller', 'иван', '用户', 'まりこ'];
+const PATH_SEGMENTS = ['users', 'orders', 'items', 'docs', 'api', 'v1', 'products', 'reports', 'assets', 'search'];
+const POINTER_TOKENS = ['name', 'address', 'tags', 'items', 'email', 'a~1b', 'm~0n', 'settings'];
+const TEMPLATE_VARIABLES = ['id', 'userId', 'page', 'limit', 'query', 'lang'];
+const REGEXES = ['^[a-z]+$', '^\\d{3}-\\d{4}$', '^[A-Z]{2}\\d{6}$', '(foo|bar)+', '^\\w+@\\w+\\.com$', '[0-9a-f]{8}', '^v\\d+\\.\\d+\\.\\d+$'];
+
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME = /^(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:z|([+-])(\d{2}):(\d{2}))$/i;
+const DURATION = /^P(?:\d+W|(?=\d|T\d)(?:\d+Y)?(?:\d+M)?(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+(?:\.\d+)?S)?)?)$/;
+const EMAIL_LOCAL = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const HOSTNAME_LABEL = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i;
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+const URI_CHARACTERS = /^(?:[A-Za-z0-9\-._~:/?#[\]@!$&'()*+,;=]|%[0-9a-f]{2})*$/i;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const JSON_POINTER = /^(?:\/(?:[^~/]|~[01])*)*$/;
+const RELATIVE_JSON_POINTER = /^(?:0|[1-9]\d*)(?:[+-](?:0|[1-9]\d*))?(?:#|(?:\/(?:[^~/]|~[01])*)*)$/;
+const BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const URI_TEMPLATE = /^(?:[^{}\s]|\{[+#./;?&=,!@|]?[A-Za-z0-9_.%]+(?::[1-9]\d{0,3}|\*)?(?:,[A-Za-z0-9_.%]+(?::[1-9]\d{0,3}|\*)?)*\})*$/;
+
+/**
+ * Checks whether a format is generated and checked by Schemock
+ */
+export function isKnownFormat(format: string): boolean {
+  return KNOWN_FORMATS.includes(format);
+}
+
+/**
+ * Generates a value of a format
+ *
+ * Dates and times are not generated here; see the temporal helpers.
+ *
+ * @param format - The format name
+ * @returns The value, or undefined for date formats and unknown formats
+ */
+export function generateFormat(format: string): string | undefined {
+  switch (format) {
+    case 'duration':
+      return randomDuration();
+    case 'email':
+      return String(generateFake('internet.email'));
+    case 'idn-email':
+      return `${randomPick(IDN_USERS)}${randomInt(1, 99)}@${randomPick(IDN_LABELS)}.example`;
+    case 'hostname':
+      return `${randomPick(['www', 'api', 'mail', 'cdn', 'app'])}.${String(generateFake('internet.domainName'))}`;
+    case 'idn-hostname':
+      return `${randomPick(IDN_LABELS)}.${randomPick(['example', 'test', 'рф', '中国'])}`;
+    case 'ipv4':
+      return String(generateFake('internet.ipv4'));
+    case 'ipv6':
+      return randomIpv6();
+    case 'uri':
+    case 'url':
+      return `https://${String(generateFake('internet.domainName'))}/${randomPath()}`;
+    case 'uri-reference':
+      return randomPick([
+        () => `/${randomPath()}`,
+        () => `../${randomPath()}`,
+        () => `${randomPath()}?page=${randomInt(1, 20)}`,
+        () => `#${randomPick(PATH_SEGMENTS)}`,
+        () => `https://${MOCK_EMAIL_DOMAIN}/${randomPath()}`
+      ])();
+    case 'iri':
+      return `https://${randomPick(IDN_LABELS)}.example/${randomPick(IDN_LABELS)}/${randomInt(1, 999)}`;
+    case 'iri-reference':
+      return `/${randomPick(IDN_LABELS)}/${randomPick(PATH_SEGMENTS)}`;
+    case 'uri-template': {
+      const [first, second] = [randomPick(TEMPLATE_VARIABLES), randomPick(TEMPLATE_VARIABLES)];
+      return `https://api.${MOCK_EMAIL_DOMAIN}/${randomPick(PATH_SEGMENTS)}/{${first}}{?${second}}`;
+    }
+    case 'uuid':
+      return randomUuid();
+    case 'json-pointer':
+      return randomPointer();
+    case 'relative-json-pointer':
+      return `${randomInt(0, 3)}${randomPick(['#', randomPointer()])}`;
+    case 'regex':
+      return randomPick(REGEXES);
+    case 'byte':
+    case 'binary':
+      return Buffer.from(Array.from({ length: randomInt(8, 32) }, () => randomInt(0, 255))).toString('base64');
+    case 'password':
+      return String(generateFake('internet.password'));
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks a string against a format
+ *
+ * Unknown formats always pass, as JSON Schema treats them as annotations.
+ *
+ * @param value - The string to check
+ * @param format - The format name
+ * @returns True if the value is valid for the format
+ */
+export function checkFormat(value: string, format: string): boolean {
+  switch (format) {
+    case 'date-time': {
+      const separator = value.search(/[Tt ]/);
+      return separator === 10 && isDate(value.slice(0, 10)) && isTime(value.slice(11));
+    }
+    case 'date':
+      return isDate(value);
+    case 'time':
+      return isTime(value);
+    case 'duration':
+      return DURATION.test(value);
+    case 'email':
+      return isEmail(value, false);
+    case 'idn-email':
+      return isEmail(value, true);
+    case 'hostname':
+      return isHostname(value);
+    case 'idn-hostname':
+      return isIdnHostname(value);
+    case 'ipv4':
+      return isIPv4(value);
+    case 'ipv6':
+      return isIPv6(value);
+    case 'uri':
+    case 'url':
+      return URI_SCHEME.test(value) && URI_CHARACTERS.test(value);
+    case 'uri-reference':
+      return URI_CHARACTERS.test(value);
+    case 'iri':
+      return URI_SCHEME.test(value) && !/[\s<>"{}|\\^`]/.test(value);
+    case 'iri-reference':
+      return !/[\s<>"{}|\\^`]/.test(value);
+    case 'uri-template':
+      return URI_TEMPLATE.test(value);
+    case 'uuid':
+      return UUID.test(value);
+    case 'json-pointer':
+      return JSON_POINTER.test(value);
+    case 'relative-json-pointer':
+      return RELATIVE_JSON_POINTER.test(value);
+    case 'byte':
+      return BASE64.test(value);
+    case 'regex':
+      try {
+        new RegExp(value);
+        return true;
+      } catch {
+        return false;
+      }
+    default:
+      return true;
+  }
+}
+
+function isDate(value: string): boolean {
+  const match = DATE.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+  const days = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+  return month >= 1 && month <= 12 && day >= 1 && day <= days[month - 1];
+}
+
+function isTime(value: string): boolean {
+  const match = TIME.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [hour, minute, second] = match.slice(1, 4).map(Number);
+  const offsetValid = match[4] === undefined || (Number(match[5]) <= 23 && Number(match[6]) <= 59);
+  // Leap seconds are allowed at the end of any minute
+  return hour <= 23 && minute <= 59 && second <= 60 && offsetValid;
+}
+
+function isEmail(value: string, international: boolean): boolean {
+  const at = value.lastIndexOf('@');
+  if (at <= 0 || at === value.length - 1) {
+    return false;
+  }
+  const local = value.slice(0, at);
+  const domain = value.slice(at + 1);
+  if (international) {
+    return !/[\s@<>()[\]\\,;:"]/.test(local) && isIdnHostname(domain);
+  }
+  return EMAIL_LOCAL.test(local) && (isHostname(domain) || /^\[(?:IPv6:)?[0-9a-f.:]+\]$/i.test(domain));
+}
+
+function isHostname(value: string): boolean {
+  const name = value.endsWith('.') ? value.slice(0, -1) : value;
+  return name.length > 0 && name.length <= 253 && name.split('.').every(label => HOSTNAME_LABEL.test(label));
+}
+
+function isIdnHostname(value: string): boolean {
+  const ascii = domainToASCII(value);
+  return ascii !== '' && isHostname(ascii);
+}
+
+function randomDuration(): string {
+  return randomPick([
+    () => `PT${randomInt(1, 59)}M`,
+    () => `PT${randomInt(1, 23)}H${randomInt(1, 59)}M`,
+    () => `P${randomInt(1, 30)}D`,
+    () => `P${randomInt(1, 6)}DT${randomInt(1, 12)}H`,
+    () => `P${randomInt(1, 52)}W`,
+    () => `P${randomInt(1, 5)}Y${randomInt(1, 11)}M`,
+    () => `PT${randomInt(1, 3600)}S`
+  ])();
+}
+
+function randomIpv6(): string {
+  const groups = Array.from({ length: 8 }, () => randomInt(0, 0xffff).toString(16));
+  // Sometimes compress a run of zero groups with "::"
+  if (randomInt(0, 1) === 1) {
+    const start = randomInt(1, 5);
+    return `${groups.slice(0, start).join(':')}::${groups.slice(start + randomInt(1, 2)).join(':')}`;
+  }
+  return groups.join(':');
+}
+
+function randomPath(): string {
+  return Array.from({ length: randomInt(1, 3) }, () => randomPick(PATH_SEGMENTS)).join('/');
+}
+
+function randomPointer(): string {
+  const tokens = Array.from({ length: randomInt(1, 3) }, () =>
+    randomInt(0, 2) === 0 ? String(randomInt(0, 9)) : randomPick(POINTER_TOKENS));
+  return `/${tokens.join('/')}`;
+}
@@ -0,0 +1,214 @@
+/**
+ * JSON Merge Patch (RFC 7396) and JSON Patch (RFC 6902)
+ *
+ * Both return a patched copy and leave the input untouched. A JSON Patch
+ * is applied atomically: when any operation fails, the whole patch fails
+ * and nothing is changed.
+ */
+
+import { JSONValue, JsonPatchOperation } from '../types';
+import { PatchError, ValidationError } from '../errors';
+import { isDeepEqual } from './schema-validator';
+
+/** Media type of JSON Merge Patch documents */
+export const MERGE_PATCH_MEDIA_TYPE = 'application/merge-patch+json';
+
+/** Media type of JSON Patch documents */
+export const JSON_PATCH_MEDIA_TYPE = 'application/json-patch+json';
+
+const OPERATIONS: JsonPatchOperation['op'][] = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+const ARRAY_INDEX = /^(?:0|[1-9]\d*)$/;
+
+type Container = Record<string, JSONValue> | JSONValue[];
+
+/**
+ * Applies a JSON Merge Patch
+ *
+ * Members set to null are removed, objects are merged recursively and any
+ * other value, including arrays, replaces the target.
+ *
+ * @param target - The document to patch
+ * @param patch - The merge patch
+ * @returns The patched document
+ */
+export function applyMergePatch(target: JSONValue, patch: JSONValue): JSONValue {
+  if (!isObject(patch)) {
+    return clone(patch);
+  }
+  const result: Record<string, JSONValue> = isObject(target) ? { ...target } : {};
+  for (const [name, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[name];
+    } else {
+      result[name] = applyMergePatch(result[name] ?? null, value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies a JSON Patch
+ *
+ * @param document - The document to patch
+ * @param patch - The operations, as received
+ * @returns The patched document
+ * @throws {ValidationError} When the patch is not an array of well-formed operations
+ * @throws {PatchError} When an operation can't be applied or a `test` fails
+ */
+export function applyJsonPatch(document: JSONValue, patch: unknown): JSONValue {
+  const operations = parseJsonPatch(patch);
+  let result = clone(document);
+
+  operations.forEach((operation, index) => {
+    const { path } = operation;
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, path, clone(operation.value as JSONValue), index);
+        break;
+      case 'remove':
+        result = removeValue(result, path, index);
+        break;
+      case 'replace':
+        result = replaceValue(result, path, clone(operation.value as JSONValue), index);
+        break;
+      case 'move': {
+        const from = operation.from as string;
+        if (path !== from && path.startsWith(`${from}/`)) {
+          throw new PatchError(`Cannot move ${from} into its own child ${path}`, path, index);
+        }
+        const value = getValue(result, from, index);
+        result = removeValue(result, from, index);
+        result = addValue(result, path, value, index);
+        break;
+      }
+      case 'copy':
+        result = addValue(result, path, clone(getValue(result, operation.from as string, index)), index);
+        break;
+      case 'test':
+        if (!isDeepEqual(getValue(result, path, index), operation.value)) {
+          throw new PatchError(`Test failed: ${path || '(root)'} is not ${JSON.stringify(operation.value)}`, path, index);
+        }
+        break;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Checks that a patch is an array of well-formed operations
+ */
+function parseJsonPatch(patch: unknown): JsonPatchOperation[] {
+  if (!Array.isArray(patch)) {
+    throw new ValidationError('A JSON Patch must be an array of operations', 'patch', patch,
+      'Send e.g. [{ "op": "replace", "path": "/name", "value": "Ann" }].');
+  }
+
+  return patch.map((operation, index) => {
+    const field = `patch[${index}]`;
+    if (!isObject(operation) || !OPERATIONS.includes(operation.op as JsonPatchOperation['op'])) {
+      throw new ValidationError(`Operation ${index} must have an "op" of: ${OPERATIONS.join(', ')}`, `${field}.op`,
+        isObject(operation) ? operation.op : operation);
+    }
+    for (const member of ['path', ...(operation.op === 'move' || operation.op === 'copy' ? ['from'] : [])]) {
+      const pointer = operation[member];
+      if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+        throw new ValidationError(`Operation ${index} needs a JSON pointer "${member}", such as "/name"`, `${field}.${member}`, pointer);
+      }
+    }
+    if (['add', 'replace', 'test'].includes(operation.op as string) && !('value' in operation)) {
+      throw new ValidationError(`Operation ${index} (${String(operation.op)}) needs a "value"`, `${field}.value`);
+    }
+    return operation as unknown as JsonPatchOperation;
+  });
+}
+
+function getValue(document: JSONValue, path: string, index: number): JSONValue {
+  let current = document;
+  for (const token of parsePointer(path)) {
+    if (Array.isArray(current) && ARRAY_INDEX.test(token) && Number(token) < current.length) {
+      current = current[Number(token)];
+    } else if (isObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw new PatchError(`${path} does not exist`, path, index);
+    }
+  }
+  return current;
+}
+
+function addValue(document: JSONValue, path: string, value: JSONValue, index: number): JSONValue {
+  if (path === '') {
+    return value;
+  }
+  const [parent, token] = resolveParent(document, path, index);
+  if (Array.isArray(parent)) {
+    const position = token === '-' ? parent.length : Number(token);
+    if (!(token === '-' || ARRAY_INDEX.test(token)) || position > parent.length) {
+      throw new PatchError(`Cannot add at ${path}: the array has ${parent.length} items`, path, index);
+    }
+    parent.splice(position, 0, value);
+  } else {
+    parent[token] = value;
+  }
+  return document;
+}
+
+function replaceValue(document: JSONValue, path: string, value: JSONValue, index: number): JSONValue {
+  getValue(document, path, index);
+  if (path === '') {
+    return value;
+  }
+  // Assigned in place, so the member keeps its position
+  const [parent, token] = resolveParent(document, path, index);
+  if (Array.isArray(parent)) {
+    parent[Number(token)] = value;
+  } else {
+    parent[token] = value;
+  }
+  return document;
+}
+
+function removeValue(document: JSONValue, path: string, index: number): JSONValue {
+  if (path === '') {
+    throw new PatchError('Cannot remove the whole record', path, index);
+  }
+  const [parent, token] = resolveParent(document, path, index);
+  if (Array.isArray(parent)) {
+    if (!ARRAY_INDEX.test(token) || Number(token) >= parent.length) {
+      throw new PatchError(`Cannot remove ${path}: the array has ${parent.length} items`, path, index);
+    }
+    parent.splice(Number(token), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, token)) {
+      throw new PatchError(`Cannot remove ${path}: it does not exist`, path, index);
+    }
+    delete parent[token];
+  }
+  return document;
+}
+
+/**
+ * Finds the object or array holding the last token of a pointer
+ */
+function resolveParent(document: JSONValue, path: string, index: number): [Container, string] {
+  const tokens = parsePointer(path);
+  const parentPath = path.slice(0, path.lastIndexOf('/'));
+  const parent = getValue(document, parentPath, index);
+  if (!isObject(parent) && !Array.isArray(parent)) {
+    throw new PatchError(`${parentPath || '(root)'} is not an object or array`, path, index);
+  }
+  return [parent, tokens[tokens.length - 1]];
+}
+
+function parsePointer(path: string): string[] {
+  return path === '' ? [] : path.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isObject(value: unknown): value is Record<string, JSONValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone(value: JSONValue): JSONValue {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,157 @@
+/**
+ * Project config file loading
+ *
+ * A project can register custom formats and property heuristics in a
+ * `schemock.config.js` (or `.cjs`) file, which `schemocker start` picks up
+ * from the working directory or from `--config <file>`:
+ *
+ *   module.exports = {
+ *     formats: {
+ *       'tenant-id': ({ random }) => `tn_${random.int(1000, 9999)}`
+ *     },
+ *     heuristics: [
+ *       { match: /isin$/i, generate: () => 'US0378331005' }
+ *     ],
+ *     unknownFormat: ({ format }) => { throw new Error(`No generator for ${format}`); },
+ *     queryDialect: { page: 'p', limit: 'per_page', operators: 'suffix' }
+ *   };
+ */
+
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { SchemockConfig } from '../types';
+import { ConfigurationError, FileError } from '../errors';
+import { SchemaParser } from '../parsers/schema';
+import { setDefaultQueryDialect, validateQueryDialect } from '../generators/collection-query';
+import type { ConfigValidationError } from './config';
+
+/** Config file names looked up in the project directory, in order */
+export const PROJECT_CONFIG_FILES = ['schemock.config.js', 'schemock.config.cjs'];
+
+/**
+ * Finds the project config file in a directory
+ *
+ * @param dir - The directory to search (defaults to the working directory)
+ * @returns The absolute path of the config file, or undefined when there is none
+ */
+export function findProjectConfig(dir: string = process.cwd()): string | undefined {
+  return PROJECT_CONFIG_FILES
+    .map(name => join(resolve(dir), name))
+    .find(filePath => existsSync(filePath));
+}
+
+/**
+ * Loads and validates a project config file
+ *
+ * @param filePath - Path to a CommonJS config file
+ * @returns The validated config
+ * @throws {FileError} When the file does not exist or cannot be evaluated
+ * @throws {ConfigurationError} When the exported config has an invalid shape
+ */
+export function loadProjectConfig(filePath: string): SchemockConfig {
+  const absolutePath = resolve(filePath);
+  if (!existsSync(absolutePath)) {
+    throw new FileError(`Config file not found: ${absolutePath}`, absolutePath, 'read');
+  }
+
+  let exported: unknown;
+  try {
+    // Drop any cached copy so edits are picked up when the config is loaded again
+    delete require.cache[require.resolve(absolutePath)];
+    exported = require(absolutePath);
+  } catch (error) {
+    throw new FileError(
+      `Cannot load config file ${absolutePath}: ${error instanceof Error ? error.message : String(error)}`,
+      absolutePath,
+      'read',
+      'Config files must be CommonJS modules that assign the config to module.exports.'
+    );
+  }
+
+  const config = (exported as { default?: unknown })?.default ?? exported;
+  return validateProjectConfig(config);
+}
+
+/**
+ * Validates the shape of a project config
+ *
+ * @param config - The exported config value
+ * @returns The config, typed
+ * @throws {ConfigurationError} When the config has an invalid shape
+ */
+export function validateProjectConfig(config: unknown): SchemockConfig {
+  const errors: ConfigValidationError[] = [];
+
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new ConfigurationError(
+      'Project config must export an object',
+      [{ field: 'config', message: 'Expected an object', value: config }],
+      'Use module.exports = { formats: { ... }, heuristics: [ ... ] }.'
+    );
+  }
+
+  const { formats, heuristics, unknownFormat, queryDialect } = config as Record<string, unknown>;
+
+  if (formats !== undefined) {
+    if (typeof formats !== 'object' || formats === null || Array.isArray(formats)) {
+      errors.push({ field: 'formats', message: 'formats must be an object of generator functions', value: formats });
+    } else {
+      for (const [name, generator] of Object.entries(formats)) {
+        if (typeof generator !== 'function') {
+          errors.push({ field: `formats.${name}`, message: 'Format generator must be a function', value: typeof generator });
+        }
+      }
+    }
+  }
+
+  if (heuristics !== undefined) {
+    if (!Array.isArray(heuristics)) {
+      errors.push({ field: 'heuristics', message: 'heuristics must be an array', value: heuristics });
+    } else {
+      heuristics.forEach((heuristic, index) => {
+        const match = heuristic?.match;
+        if (typeof match !== 'string' && typeof match !== 'function' && !(match instanceof RegExp)) {
+          errors.push({ field: `heuristics[${index}].match`, message: 'match must be a string, RegExp or function', value: match });
+        }
+        if (typeof heuristic?.generate !== 'function') {
+          errors.push({ field: `heuristics[${index}].generate`, message: 'generate must be a function', value: typeof heuristic?.generate });
+        }
+      });
+    }
+  }
+
+  if (unknownFormat !== undefined && typeof unknownFormat !== 'function') {
+    errors.push({ field: 'unknownFormat', message: 'unknownFormat must be a function', value: typeof unknownFormat });
+  }
+
+  if (queryDialect !== undefined) {
+    errors.push(...validateQueryDialect(queryDialect, 'queryDialect'));
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError('Project config validation failed', errors);
+  }
+
+  return config as SchemockConfig;
+}
+
+/**
+ * Registers a project config's formats, property heuristics and unknown-format hook with the SchemaParser,
+ * and makes its query dialect the default for collection GETs
+ *
+ * @param config - A validated project config
+ */
+export function applyProjectConfig(config: SchemockConfig): void {
+  for (const [name, generator] of Object.entries(config.formats ?? {})) {
+    SchemaParser.registerFormat(name, generator);
+  }
+  for (const { match, generate } of config.heuristics ?? []) {
+    SchemaParser.registerPropertyHeuristic(match, generate);
+  }
+  if (config.unknownFormat) {
+    SchemaParser.setUnknownFormatHandler(config.unknownFormat);
+  }
+  if (config.queryDialect) {
+    setDefaultQueryDialect(config.queryDialect);
+  }
+}
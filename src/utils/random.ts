@@ -119,3 +119,32 @@ export function randomFloat(min: number, max: number): number {
     }
     return Math.random() * (max - min) + min;
 }
+
+/**
+ * Pick a random element from an array
+ */
+export function randomPick<T>(values: T[]): T {
+    return values[randomInt(0, values.length - 1)];
+}
+
+/**
+ * Generate a random version 4 UUID
+ */
+export function randomUuid(): string {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, placeholder => {
+        const nibble = randomInt(0, 15);
+        return (placeholder === 'x' ? nibble : (nibble & 0x3) | 0x8).toString(16);
+    });
+}
+
+/**
+ * Seeded random helpers handed to custom generators
+ */
+export const generatorRandom = {
+    next: random,
+    int: randomInt,
+    float: randomFloat,
+    pick: randomPick
+};
+
+export type GeneratorRandom = typeof generatorRandom;
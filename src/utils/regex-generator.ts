@@ -0,0 +1,509 @@
+/**
+ * Regex-driven string generation
+ * Produces strings that match a JSON Schema `pattern` (ECMA-262 regex subset)
+ * using the seeded random generator so output stays reproducible
+ */
+
+import { SchemaParseError } from '../errors';
+import { randomInt } from './random';
+
+type RegexNode =
+  | { type: 'set'; chars: string[] }
+  | { type: 'literal'; value: string }
+  | { type: 'group'; alternatives: RegexNode[][]; capture?: number }
+  | { type: 'repeat'; node: RegexNode; min: number; max: number }
+  | { type: 'backref'; index: number }
+  | { type: 'empty' };
+
+interface ParsedPattern {
+  alternatives: RegexNode[][];
+  anchoredStart: boolean;
+  anchoredEnd: boolean;
+  regex: RegExp;
+}
+
+/** Extra repetitions, beyond the minimum, that unbounded quantifiers pick from */
+interface RepeatBudget {
+  least: number;
+  most: number;
+}
+
+export interface PatternGenerationOptions {
+  minLength?: number;
+  maxLength?: number;
+}
+
+/** Extra repetitions first allowed for unbounded quantifiers (*, +, {n,}) */
+const UNBOUNDED_REPEAT_EXTRA = 8;
+
+/** Number of candidates generated before giving up on length constraints */
+const MAX_PATTERN_ATTEMPTS = 20;
+
+/** Parsed patterns kept for reuse; the oldest is dropped beyond this */
+const MAX_CACHED_PATTERNS = 500;
+
+function charRange(from: number, to: number): string[] {
+  const chars: string[] = [];
+  for (let code = from; code <= to; code++) {
+    chars.push(String.fromCharCode(code));
+  }
+  return chars;
+}
+
+const DIGITS = charRange(0x30, 0x39);
+const LOWER = charRange(0x61, 0x7a);
+const UPPER = charRange(0x41, 0x5a);
+const WORD = [...UPPER, ...LOWER, ...DIGITS, '_'];
+const WHITESPACE = [' ', '\t'];
+const PRINTABLE = charRange(0x20, 0x7e);
+const ALPHANUMERIC = [...UPPER, ...LOWER, ...DIGITS];
+
+const parsedCache = new Map<string, ParsedPattern>();
+
+function complement(chars: string[]): string[] {
+  const excluded = new Set(chars);
+  return PRINTABLE.filter(c => !excluded.has(c));
+}
+
+/**
+ * Recursive-descent parser for the regex subset used in JSON Schemas:
+ * literals, escapes, character classes, `.`, groups (capturing, non-capturing,
+ * named), alternation, quantifiers, backreferences and zero-width assertions.
+ */
+class PatternParser {
+  private readonly source: string;
+  private pos = 0;
+  private groupCount = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  parse(): RegexNode[][] {
+    const alternatives = this.parseAlternatives();
+    if (this.pos < this.source.length) {
+      throw this.error(`Unexpected '${this.source[this.pos]}'`);
+    }
+    return alternatives;
+  }
+
+  private error(message: string): SchemaParseError {
+    return new SchemaParseError(
+      `Cannot generate from pattern /${this.source}/: ${message} at position ${this.pos}`,
+      { pattern: this.source, position: this.pos },
+      'Simplify the pattern or provide explicit examples for this property.'
+    );
+  }
+
+  private parseAlternatives(): RegexNode[][] {
+    const alternatives: RegexNode[][] = [this.parseSequence()];
+    while (this.source[this.pos] === '|') {
+      this.pos++;
+      alternatives.push(this.parseSequence());
+    }
+    return alternatives;
+  }
+
+  private parseSequence(): RegexNode[] {
+    const nodes: RegexNode[] = [];
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      if (ch === '|' || ch === ')') {
+        break;
+      }
+      const atom = this.parseAtom();
+      nodes.push(this.parseQuantifier(atom));
+    }
+    return nodes;
+  }
+
+  private parseQuantifier(node: RegexNode): RegexNode {
+    const ch = this.source[this.pos];
+    let min: number;
+    let max: number;
+
+    if (ch === '*') {
+      min = 0;
+      max = Infinity;
+      this.pos++;
+    } else if (ch === '+') {
+      min = 1;
+      max = Infinity;
+      this.pos++;
+    } else if (ch === '?') {
+      min = 0;
+      max = 1;
+      this.pos++;
+    } else if (ch === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.pos));
+      if (!match) {
+        // Not a quantifier - treated as a literal brace by parseAtom
+        return node;
+      }
+      min = parseInt(match[1], 10);
+      max = match[2] === undefined ? min : (match[3] === '' ? Infinity : parseInt(match[3], 10));
+      if (max < min) {
+        throw this.error('Quantifier range is out of order');
+      }
+      this.pos += match[0].length;
+    } else {
+      return node;
+    }
+
+    // Lazy and possessive modifiers don't change what can be generated
+    if (this.source[this.pos] === '?' || this.source[this.pos] === '+') {
+      this.pos++;
+    }
+
+    if (node.type === 'empty') {
+      return node;
+    }
+    return { type: 'repeat', node, min, max };
+  }
+
+  private parseAtom(): RegexNode {
+    const ch = this.source[this.pos];
+
+    switch (ch) {
+      case '(':
+        return this.parseGroup();
+      case '[':
+        return this.parseClass();
+      case '.':
+        this.pos++;
+        return { type: 'set', chars: PRINTABLE };
+      case '^':
+      case '$':
+        this.pos++;
+        return { type: 'empty' };
+      case '\\':
+        return this.parseEscape();
+      case '*':
+      case '+':
+      case '?':
+        throw this.error('Nothing to repeat');
+      default:
+        this.pos++;
+        return { type: 'literal', value: ch };
+    }
+  }
+
+  private parseGroup(): RegexNode {
+    this.pos++; // consume '('
+    let capture: number | undefined;
+    let zeroWidth = false;
+
+    if (this.source[this.pos] === '?') {
+      const rest = this.source.slice(this.pos);
+      if (rest.startsWith('?:')) {
+        this.pos += 2;
+      } else if (rest.startsWith('?=') || rest.startsWith('?!')) {
+        this.pos += 2;
+        zeroWidth = true;
+      } else if (rest.startsWith('?<=') || rest.startsWith('?<!')) {
+        this.pos += 3;
+        zeroWidth = true;
+      } else {
+        const named = /^\?<([A-Za-z_$][\w$]*)>/.exec(rest);
+        if (!named) {
+          throw this.error('Unsupported group syntax');
+        }
+        this.pos += named[0].length;
+        capture = ++this.groupCount;
+      }
+    } else {
+      capture = ++this.groupCount;
+    }
+
+    const alternatives = this.parseAlternatives();
+    if (this.source[this.pos] !== ')') {
+      throw this.error('Unterminated group');
+    }
+    this.pos++;
+
+    // Lookarounds are checked by the final RegExp test instead of being generated
+    if (zeroWidth) {
+      return { type: 'empty' };
+    }
+    return { type: 'group', alternatives, capture };
+  }
+
+  private parseClass(): RegexNode {
+    this.pos++; // consume '['
+    let negated = false;
+    if (this.source[this.pos] === '^') {
+      negated = true;
+      this.pos++;
+    }
+
+    const chars = new Set<string>();
+
+    while (this.pos < this.source.length && this.source[this.pos] !== ']') {
+      const start = this.parseClassChar();
+
+      if (
+        start.length === 1 &&
+        this.source[this.pos] === '-' &&
+        this.source[this.pos + 1] !== undefined &&
+        this.source[this.pos + 1] !== ']'
+      ) {
+        this.pos++; // consume '-'
+        const end = this.parseClassChar();
+        if (end.length !== 1) {
+          throw this.error('Invalid character class range');
+        }
+        const from = start[0].charCodeAt(0);
+        const to = end[0].charCodeAt(0);
+        if (to < from) {
+          throw this.error('Character class range is out of order');
+        }
+        charRange(from, to).forEach(c => chars.add(c));
+      } else {
+        start.forEach(c => chars.add(c));
+      }
+    }
+
+    if (this.source[this.pos] !== ']') {
+      throw this.error('Unterminated character class');
+    }
+    this.pos++;
+
+    const members = Array.from(chars);
+    const result = negated ? complement(members) : members;
+    if (result.length === 0) {
+      throw this.error('Character class matches nothing');
+    }
+    return { type: 'set', chars: result };
+  }
+
+  /**
+   * Parses a single class member. Returns one character for plain members
+   * and several for shorthand classes like \d.
+   */
+  private parseClassChar(): string[] {
+    const ch = this.source[this.pos];
+    if (ch !== '\\') {
+      this.pos++;
+      return [ch];
+    }
+
+    this.pos++; // consume '\'
+    const next = this.source[this.pos];
+    if (next === 'b') {
+      this.pos++;
+      return ['\b'];
+    }
+    const shorthand = this.parseShorthand(next);
+    if (shorthand) {
+      this.pos++;
+      return shorthand;
+    }
+    return [this.parseEscapedChar()];
+  }
+
+  private parseEscape(): RegexNode {
+    this.pos++; // consume '\'
+    const next = this.source[this.pos];
+
+    if (next === undefined) {
+      throw this.error('Trailing backslash');
+    }
+    if (next === 'b' || next === 'B') {
+      this.pos++;
+      return { type: 'empty' };
+    }
+    const shorthand = this.parseShorthand(next);
+    if (shorthand) {
+      this.pos++;
+      return { type: 'set', chars: shorthand };
+    }
+    if (/[1-9]/.test(next)) {
+      const match = /^\d+/.exec(this.source.slice(this.pos));
+      const index = parseInt(match![0], 10);
+      this.pos += match![0].length;
+      return { type: 'backref', index };
+    }
+    if (next === 'k') {
+      throw this.error('Named backreferences are not supported');
+    }
+    return { type: 'literal', value: this.parseEscapedChar() };
+  }
+
+  private parseShorthand(ch: string): string[] | null {
+    switch (ch) {
+      case 'd':
+        return DIGITS;
+      case 'D':
+        return complement(DIGITS);
+      case 'w':
+        return WORD;
+      case 'W':
+        return complement(WORD);
+      case 's':
+        return WHITESPACE;
+      case 'S':
+        return complement(WHITESPACE);
+      case 'p':
+      case 'P':
+        throw this.error('Unicode property escapes are not supported');
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Parses an escaped literal character (position is just after the backslash)
+   */
+  private parseEscapedChar(): string {
+    const ch = this.source[this.pos];
+    const rest = this.source.slice(this.pos);
+
+    const controls: Record<string, string> = { n: '\n', r: '\r', t: '\t', f: '\f', v: '\v', '0': '\0' };
+    if (ch in controls) {
+      this.pos++;
+      return controls[ch];
+    }
+
+    const hex = /^x([0-9a-fA-F]{2})/.exec(rest);
+    if (hex) {
+      this.pos += hex[0].length;
+      return String.fromCharCode(parseInt(hex[1], 16));
+    }
+
+    const unicode = /^u(?:([0-9a-fA-F]{4})|\{([0-9a-fA-F]+)\})/.exec(rest);
+    if (unicode) {
+      this.pos += unicode[0].length;
+      return String.fromCodePoint(parseInt(unicode[1] || unicode[2], 16));
+    }
+
+    this.pos++;
+    return ch;
+  }
+}
+
+function parsePattern(pattern: string): ParsedPattern {
+  const cached = parsedCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (error) {
+    throw new SchemaParseError(
+      `Invalid pattern /${pattern}/: ${error instanceof Error ? error.message : String(error)}`,
+      { pattern },
+      'Patterns must be valid ECMA-262 regular expressions.'
+    );
+  }
+
+  const parsed: ParsedPattern = {
+    alternatives: new PatternParser(pattern).parse(),
+    anchoredStart: pattern.startsWith('^'),
+    anchoredEnd: /(^|[^\\])\$$/.test(pattern),
+    regex
+  };
+  if (parsedCache.size >= MAX_CACHED_PATTERNS) {
+    parsedCache.delete(parsedCache.keys().next().value as string);
+  }
+  parsedCache.set(pattern, parsed);
+  return parsed;
+}
+
+function pick<T>(items: T[]): T {
+  return items[randomInt(0, items.length - 1)];
+}
+
+function generateNode(node: RegexNode, groups: string[], extra: RepeatBudget): string {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'set':
+      return pick(node.chars);
+    case 'empty':
+      return '';
+    case 'backref':
+      return groups[node.index] ?? '';
+    case 'group': {
+      const value = generateSequence(pick(node.alternatives), groups, extra);
+      if (node.capture !== undefined) {
+        groups[node.capture] = value;
+      }
+      return value;
+    }
+    case 'repeat': {
+      const count = node.max === Infinity
+        ? randomInt(node.min + extra.least, node.min + extra.most)
+        : randomInt(node.min, node.max);
+      let value = '';
+      for (let i = 0; i < count; i++) {
+        value += generateNode(node.node, groups, extra);
+      }
+      return value;
+    }
+  }
+}
+
+function generateSequence(nodes: RegexNode[], groups: string[], extra: RepeatBudget): string {
+  return nodes.map(node => generateNode(node, groups, extra)).join('');
+}
+
+function padding(length: number): string {
+  let value = '';
+  for (let i = 0; i < length; i++) {
+    value += pick(ALPHANUMERIC);
+  }
+  return value;
+}
+
+/**
+ * Generates a string matching a regular expression pattern
+ *
+ * Unbounded quantifiers are capped to keep values short; later attempts
+ * repeat more after a candidate falls short of `minLength` and less after
+ * one exceeds `maxLength`. Because JSON Schema patterns are not implicitly anchored,
+ * values shorter than `minLength` are padded on an unanchored side. Every
+ * candidate is checked against the real RegExp, so lookarounds are
+ * honoured by rejection.
+ *
+ * @param pattern - The ECMA-262 regex source from the schema
+ * @param options - Optional minLength/maxLength constraints
+ * @returns A string matching the pattern and length constraints
+ * @throws {SchemaParseError} When the pattern is invalid or uses unsupported syntax, or no candidate meets the constraints
+ */
+export function generateFromPattern(pattern: string, options: PatternGenerationOptions = {}): string {
+  const parsed = parsePattern(pattern);
+  const minLength = options.minLength ?? 0;
+  const maxLength = options.maxLength ?? Infinity;
+  const extra: RepeatBudget = { least: 0, most: UNBOUNDED_REPEAT_EXTRA };
+
+  for (let attempt = 0; attempt < MAX_PATTERN_ATTEMPTS; attempt++) {
+    let candidate = generateSequence(pick(parsed.alternatives), [], extra);
+
+    if (candidate.length < minLength) {
+      const missing = minLength - candidate.length;
+      if (!parsed.anchoredEnd) {
+        candidate += padding(missing);
+      } else if (!parsed.anchoredStart) {
+        candidate = padding(missing) + candidate;
+      } else {
+        extra.least += missing;
+        extra.most = Math.max(extra.most, extra.least);
+      }
+    } else if (candidate.length > maxLength) {
+      extra.most = Math.max(0, extra.most - (candidate.length - maxLength));
+      extra.least = Math.min(extra.least, extra.most);
+    }
+
+    if (candidate.length >= minLength && candidate.length <= maxLength && parsed.regex.test(candidate)) {
+      return candidate;
+    }
+  }
+
+  throw new SchemaParseError(
+    `Could not generate a string matching /${pattern}/ with minLength ${minLength}${maxLength < Infinity ? ` and maxLength ${maxLength}` : ''}`,
+    { pattern, minLength: options.minLength, maxLength: options.maxLength },
+    'Check that the pattern can match strings within minLength and maxLength.'
+  );
+}
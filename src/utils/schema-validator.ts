@@ -0,0 +1,528 @@
+/**
+ * JSON Schema validation
+ *
+ * A SchemaValidator compiles a schema once (resolving local `$ref`s,
+ * building regexes and lookup sets) and then checks any number of values
+ * against it, collecting every violation instead of stopping at the first:
+ *
+ *   const validator = new SchemaValidator(schema);
+ *   validator.validate({ email: 'nope' });
+ *   // [{ instancePath: '/email', schemaPath: '#/properties/email/format',
+ *   //    keyword: 'format', message: 'must be a valid email', params: { format: 'email' } }]
+ *
+ * Supports draft-07 and 2020-12 keywords, OpenAPI `nullable` and boolean
+ * schemas. Formats are checked with checkFormat(); `$ref`s must point into
+ * the schema itself, which SchemaRegistry arranges for multi-file schemas.
+ */
+
+import { JSONValue, Schema, SchemaViolation } from '../types';
+import { checkFormat } from './formats';
+
+/** A schema node prepared for validation */
+interface CompiledSchema {
+  /** JSON pointer of the node in the root schema, e.g. '#/properties/email' */
+  path: string;
+  /** The node, or a boolean schema */
+  schema: Schema | boolean;
+  types?: string[];
+  pattern?: RegExp;
+  patternProperties: Array<[RegExp, string]>;
+  /** The `$ref` target, null when it can't be resolved */
+  ref?: Schema | boolean | null;
+  enumKeys?: Set<string>;
+}
+
+/** Where a check is running: the schema node, the value's JSON pointer and the collected violations */
+interface CheckContext {
+  node: CompiledSchema;
+  instancePath: string;
+  violations: SchemaViolation[];
+}
+
+/**
+ * Validates values against a compiled JSON Schema
+ */
+export class SchemaValidator {
+  private readonly rootSchema: Schema;
+  private readonly entry: Schema | boolean;
+  private readonly compiled = new Map<Schema | boolean, CompiledSchema>();
+
+  /**
+   * @param schema - The schema to validate against
+   * @param rootSchema - Root schema for $ref resolution (defaults to schema)
+   */
+  constructor(schema: Schema | boolean, rootSchema?: Schema) {
+    this.entry = schema;
+    this.rootSchema = rootSchema ?? (typeof schema === 'object' ? schema : {});
+    this.compile(schema, '#');
+  }
+
+  /**
+   * Collects every violation of the schema
+   *
+   * @param data - The value to validate
+   * @returns The violations, empty when the value is valid
+   */
+  validate(data: unknown): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    this.check(data, this.entry, '', '#', violations);
+    return violations;
+  }
+
+  /**
+   * Checks whether a value satisfies the schema
+   */
+  isValid(data: unknown): boolean {
+    return this.validate(data).length === 0;
+  }
+
+  private compile(schema: Schema | boolean, path: string): CompiledSchema {
+    const existing = this.compiled.get(schema);
+    if (existing) {
+      return existing;
+    }
+
+    const node: CompiledSchema = { path, schema, patternProperties: [] };
+    this.compiled.set(schema, node);
+    if (typeof schema !== 'object' || schema === null) {
+      return node;
+    }
+
+    if (schema.type !== undefined) {
+      node.types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    }
+    if (typeof schema.pattern === 'string') {
+      node.pattern = compilePattern(schema.pattern);
+    }
+    for (const pattern of Object.keys(schema.patternProperties ?? {})) {
+      node.patternProperties.push([compilePattern(pattern), pattern]);
+    }
+    if (Array.isArray(schema.enum)) {
+      node.enumKeys = new Set(schema.enum.map(value => canonicalKey(value)));
+    }
+    if (typeof schema.$ref === 'string') {
+      node.ref = resolvePointer(schema.$ref, this.rootSchema) ?? null;
+    }
+    return node;
+  }
+
+  /**
+   * Checks a value against a schema node, appending violations
+   *
+   * @param data - The value
+   * @param schema - The schema node
+   * @param instancePath - JSON pointer of the value
+   * @param fallbackPath - Schema path used when the node is first seen here
+   * @param violations - Collected violations
+   */
+  private check(data: unknown, schema: Schema | boolean | undefined, instancePath: string, fallbackPath: string, violations: SchemaViolation[]): void {
+    if (schema === undefined || schema === true) {
+      return;
+    }
+    const node = this.compile(schema, fallbackPath);
+    const context: CheckContext = { node, instancePath, violations };
+
+    if (schema === false || typeof schema !== 'object' || schema === null) {
+      violations.push({ instancePath, schemaPath: node.path, keyword: 'false schema', message: 'boolean schema is false' });
+      return;
+    }
+
+    if (node.ref !== undefined) {
+      if (node.ref === null) {
+        this.report(context, '$ref', `can't resolve reference ${schema.$ref}`, { ref: String(schema.$ref) });
+      } else {
+        this.check(data, node.ref, instancePath, String(schema.$ref), violations);
+      }
+    }
+
+    // OpenAPI 3.0 "nullable: true" admits null on top of the declared type, enum and const
+    const nullable = data === null && schema.nullable === true;
+    if (node.types && !nullable) {
+      if (!node.types.some(type => matchesType(data, type))) {
+        this.report(context, 'type', `must be ${node.types.join(' or ')}`, { type: node.types.join(',') });
+        // The other keywords of a mismatched type don't apply
+        return;
+      }
+    }
+
+    if (schema.const !== undefined && !nullable && canonicalKey(data) !== canonicalKey(schema.const)) {
+      this.report(context, 'const', `must be equal to ${JSON.stringify(schema.const)}`, { allowedValue: schema.const });
+    }
+    if (node.enumKeys && !nullable && !node.enumKeys.has(canonicalKey(data))) {
+      this.report(context, 'enum', 'must be equal to one of the allowed values', { allowedValues: schema.enum ?? [] });
+    }
+
+    if (typeof data === 'string') {
+      this.checkString(data, schema, context);
+    } else if (typeof data === 'number') {
+      this.checkNumber(data, schema, context);
+    } else if (Array.isArray(data)) {
+      this.checkArray(data, schema, context);
+    } else if (data !== null && typeof data === 'object') {
+      this.checkObject(data as Record<string, unknown>, schema, context);
+    }
+
+    this.checkComposition(data, schema, context);
+  }
+
+  private report(context: CheckContext, keyword: string, message: string, params?: Record<string, JSONValue>, instancePath: string = context.instancePath): void {
+    context.violations.push({
+      instancePath,
+      schemaPath: `${context.node.path}/${keyword}`,
+      keyword,
+      message,
+      ...(params ? { params } : {})
+    });
+  }
+
+  private checkString(data: string, schema: Schema, context: CheckContext): void {
+    // Lengths count code points, so an emoji is one character
+    const length = Array.from(data).length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      this.report(context, 'minLength', `must NOT have fewer than ${schema.minLength} characters`, { limit: schema.minLength });
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      this.report(context, 'maxLength', `must NOT have more than ${schema.maxLength} characters`, { limit: schema.maxLength });
+    }
+    if (context.node.pattern && !context.node.pattern.test(data)) {
+      this.report(context, 'pattern', `must match pattern "${schema.pattern}"`, { pattern: String(schema.pattern) });
+    }
+    if (typeof schema.format === 'string' && !checkFormat(data, schema.format)) {
+      this.report(context, 'format', `must be a valid ${schema.format}`, { format: schema.format });
+    }
+  }
+
+  private checkNumber(data: number, schema: Schema, context: CheckContext): void {
+    if (typeof schema.minimum === 'number') {
+      // Draft-04 boolean exclusiveMinimum makes minimum exclusive
+      if (schema.exclusiveMinimum === true ? data <= schema.minimum : data < schema.minimum) {
+        this.report(context, 'minimum', `must be ${schema.exclusiveMinimum === true ? '>' : '>='} ${schema.minimum}`, { limit: schema.minimum });
+      }
+    }
+    if (typeof schema.maximum === 'number') {
+      if (schema.exclusiveMaximum === true ? data >= schema.maximum : data > schema.maximum) {
+        this.report(context, 'maximum', `must be ${schema.exclusiveMaximum === true ? '<' : '<='} ${schema.maximum}`, { limit: schema.maximum });
+      }
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && data <= schema.exclusiveMinimum) {
+      this.report(context, 'exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`, { limit: schema.exclusiveMinimum });
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && data >= schema.exclusiveMaximum) {
+      this.report(context, 'exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`, { limit: schema.exclusiveMaximum });
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const quotient = data / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9 * Math.max(1, Math.abs(quotient))) {
+        this.report(context, 'multipleOf', `must be multiple of ${schema.multipleOf}`, { multipleOf: schema.multipleOf });
+      }
+    }
+  }
+
+  private checkArray(data: unknown[], schema: Schema, context: CheckContext): void {
+    const { node, instancePath, violations } = context;
+    if (schema.minItems !== undefined && data.length < schema.minItems) {
+      this.report(context, 'minItems', `must NOT have fewer than ${schema.minItems} items`, { limit: schema.minItems });
+    }
+    if (schema.maxItems !== undefined && data.length > schema.maxItems) {
+      this.report(context, 'maxItems', `must NOT have more than ${schema.maxItems} items`, { limit: schema.maxItems });
+    }
+
+    // Tuple positions: 2020-12 prefixItems + items, or draft-07 array-form items + additionalItems
+    const tuple = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : [];
+    const tupleKeyword = Array.isArray(schema.prefixItems) ? 'prefixItems' : 'items';
+    const rest = Array.isArray(schema.prefixItems) || !Array.isArray(schema.items) ? schema.items as Schema | boolean | undefined : schema.additionalItems;
+    const restKeyword = Array.isArray(schema.items) && !Array.isArray(schema.prefixItems) ? 'additionalItems' : 'items';
+
+    data.forEach((item, index) => {
+      const itemPath = `${instancePath}/${index}`;
+      if (index < tuple.length) {
+        this.check(item, tuple[index], itemPath, `${node.path}/${tupleKeyword}/${index}`, violations);
+      } else if (rest === false) {
+        this.report(context, restKeyword, `must NOT have more than ${tuple.length} items`, { limit: tuple.length });
+      } else if (rest !== undefined && !Array.isArray(rest)) {
+        this.check(item, rest, itemPath, `${node.path}/${restKeyword}`, violations);
+      }
+    });
+
+    if (schema.contains !== undefined) {
+      const matches = data.filter(item => this.matches(item, schema.contains as Schema, `${node.path}/contains`)).length;
+      const minContains = schema.minContains ?? 1;
+      if (matches < minContains) {
+        this.report(context, 'contains', `must contain at least ${minContains} valid item(s)`, { minContains });
+      }
+      if (schema.maxContains !== undefined && matches > schema.maxContains) {
+        this.report(context, 'maxContains', `must contain at most ${schema.maxContains} valid item(s)`, { maxContains: schema.maxContains });
+      }
+    }
+
+    if (schema.uniqueItems === true) {
+      const seen = new Map<string, number>();
+      data.forEach((item, index) => {
+        const key = canonicalKey(item);
+        const first = seen.get(key);
+        if (first !== undefined) {
+          this.report(context, 'uniqueItems', `must NOT have duplicate items (items ${first} and ${index} are identical)`, { i: first, j: index });
+        } else {
+          seen.set(key, index);
+        }
+      });
+    }
+  }
+
+  private checkObject(data: Record<string, unknown>, schema: Schema, context: CheckContext): void {
+    const { node, instancePath, violations } = context;
+    const keys = Object.keys(data);
+
+    for (const field of schema.required ?? []) {
+      if (data[field] === undefined) {
+        this.report(context, 'required', `must have required property '${field}'`, { missingProperty: field });
+      }
+    }
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+      this.report(context, 'minProperties', `must NOT have fewer than ${schema.minProperties} properties`, { limit: schema.minProperties });
+    }
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+      this.report(context, 'maxProperties', `must NOT have more than ${schema.maxProperties} properties`, { limit: schema.maxProperties });
+    }
+
+    // dependentRequired (2019-09) and array-form draft-07 dependencies
+    const dependencies = { ...(schema.dependencies as Record<string, unknown> | undefined), ...schema.dependentRequired };
+    for (const [trigger, dependency] of Object.entries(dependencies)) {
+      if (data[trigger] === undefined) {
+        continue;
+      }
+      if (Array.isArray(dependency)) {
+        const keyword = schema.dependentRequired?.[trigger] ? 'dependentRequired' : 'dependencies';
+        for (const field of dependency) {
+          if (data[field] === undefined) {
+            this.report(context, keyword, `must have property '${field}' when property '${trigger}' is present`, { property: trigger, missingProperty: field });
+          }
+        }
+      } else if (typeof dependency === 'object' || typeof dependency === 'boolean') {
+        this.check(data, dependency as Schema | boolean, instancePath, `${node.path}/dependencies/${escapePointer(trigger)}`, violations);
+      }
+    }
+    for (const [trigger, dependency] of Object.entries(schema.dependentSchemas ?? {})) {
+      if (data[trigger] !== undefined) {
+        this.check(data, dependency, instancePath, `${node.path}/dependentSchemas/${escapePointer(trigger)}`, violations);
+      }
+    }
+
+    for (const key of keys) {
+      const value = data[key];
+      const valuePath = `${instancePath}/${escapePointer(key)}`;
+      let evaluated = false;
+
+      const propSchema = schema.properties?.[key];
+      if (propSchema !== undefined && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+        evaluated = true;
+        if (value !== undefined) {
+          this.check(value, propSchema, valuePath, `${node.path}/properties/${escapePointer(key)}`, violations);
+        }
+      }
+      for (const [regex, pattern] of node.patternProperties) {
+        if (regex.test(key)) {
+          evaluated = true;
+          this.check(value, schema.patternProperties?.[pattern], valuePath, `${node.path}/patternProperties/${escapePointer(pattern)}`, violations);
+        }
+      }
+      if (!evaluated && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          this.report(context, 'additionalProperties', `must NOT have additional property '${key}'`, { additionalProperty: key }, valuePath);
+        } else {
+          this.check(value, schema.additionalProperties, valuePath, `${node.path}/additionalProperties`, violations);
+        }
+      }
+
+      if (schema.propertyNames !== undefined && !this.matches(key, schema.propertyNames, `${node.path}/propertyNames`)) {
+        this.report(context, 'propertyNames', `property name '${key}' is invalid`, { propertyName: key }, valuePath);
+      }
+    }
+  }
+
+  private checkComposition(data: unknown, schema: Schema, context: CheckContext): void {
+    const { node, instancePath, violations } = context;
+    (schema.allOf ?? []).forEach((subschema, index) => {
+      this.check(data, subschema, instancePath, `${node.path}/allOf/${index}`, violations);
+    });
+
+    if (Array.isArray(schema.anyOf) &&
+        !schema.anyOf.some((subschema, index) => this.matches(data, subschema, `${node.path}/anyOf/${index}`))) {
+      this.report(context, 'anyOf', 'must match a schema in anyOf');
+    }
+
+    if (Array.isArray(schema.oneOf)) {
+      const passing = schema.oneOf
+        .map((subschema, index) => this.matches(data, subschema, `${node.path}/oneOf/${index}`) ? index : -1)
+        .filter(index => index !== -1);
+      if (passing.length !== 1) {
+        this.report(context, 'oneOf', passing.length === 0 ? 'must match exactly one schema in oneOf' : `must match exactly one schema in oneOf, but matches ${passing.join(' and ')}`,
+          { passingSchemas: passing });
+      }
+    }
+
+    if (schema.not !== undefined && this.matches(data, schema.not, `${node.path}/not`)) {
+      this.report(context, 'not', 'must NOT be valid');
+    }
+
+    if (schema.if !== undefined) {
+      const branch = this.matches(data, schema.if, `${node.path}/if`) ? 'then' : 'else';
+      const subschema = schema[branch];
+      if (subschema !== undefined) {
+        const branchViolations: SchemaViolation[] = [];
+        this.check(data, subschema, instancePath, `${node.path}/${branch}`, branchViolations);
+        if (branchViolations.length > 0) {
+          violations.push(...branchViolations);
+          this.report(context, 'if', `must match "${branch}" schema`, { failingKeyword: branch });
+        }
+      }
+    }
+  }
+
+  private matches(data: unknown, schema: Schema | boolean, path: string): boolean {
+    const violations: SchemaViolation[] = [];
+    this.check(data, schema, '', path, violations);
+    return violations.length === 0;
+  }
+}
+
+/** Validators by root schema, then by the schema they validate against */
+const validators = new WeakMap<Schema, WeakMap<Schema, SchemaValidator>>();
+
+/**
+ * Gets a validator for a schema, compiling it on first use
+ *
+ * @param schema - The schema to validate against; it must not be modified afterwards
+ * @param rootSchema - Root schema for $ref resolution (defaults to schema)
+ * @returns The cached validator
+ */
+export function getValidator(schema: Schema, rootSchema: Schema = schema): SchemaValidator {
+  let byRoot = validators.get(rootSchema);
+  if (!byRoot) {
+    byRoot = new WeakMap();
+    validators.set(rootSchema, byRoot);
+  }
+  let validator = byRoot.get(schema);
+  if (!validator) {
+    validator = new SchemaValidator(schema, rootSchema);
+    byRoot.set(schema, validator);
+  }
+  return validator;
+}
+
+/**
+ * Describes violations in one line, e.g. for logs and error messages
+ *
+ * @param violations - The violations
+ * @returns Text such as "/email must be a valid email; /age must be >= 0"
+ */
+export function describeViolations(violations: SchemaViolation[]): string {
+  return violations.map(({ instancePath, message }) => `${instancePath || '(root)'} ${message}`).join('; ');
+}
+
+/**
+ * Compares two JSON values structurally
+ *
+ * @param a - The first value
+ * @param b - The second value
+ * @returns True if both values have the same JSON structure and content
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+  const aObj = a as Record<string, unknown>;
+  const bObj = b as Record<string, unknown>;
+  const keys = Object.keys(aObj);
+  return keys.length === Object.keys(bObj).length &&
+    keys.every(key => key in bObj && isDeepEqual(aObj[key], bObj[key]));
+}
+
+/**
+ * Checks whether data is of a JSON Schema type
+ */
+function matchesType(data: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof data === 'string';
+    case 'number':
+      return typeof data === 'number' && Number.isFinite(data);
+    case 'integer':
+      return typeof data === 'number' && Number.isInteger(data);
+    case 'boolean':
+      return typeof data === 'boolean';
+    case 'object':
+      return typeof data === 'object' && data !== null && !Array.isArray(data);
+    case 'array':
+      return Array.isArray(data);
+    case 'null':
+      return data === null;
+    default:
+      // Unknown types are not checked
+      return true;
+  }
+}
+
+/**
+ * Serialises a value with sorted object keys, so equal values get equal keys
+ */
+function canonicalKey(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalKey).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalKey((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Compiles a schema regex, as Unicode-aware when the pattern allows it
+ */
+function compilePattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch {
+    return new RegExp(pattern);
+  }
+}
+
+function escapePointer(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Resolves a local JSON pointer reference such as "#/$defs/Address"
+ *
+ * @param ref - The reference
+ * @param rootSchema - The schema the pointer points into
+ * @returns The target, or undefined when it doesn't exist
+ */
+export function resolvePointer(ref: string, rootSchema: Schema): Schema | boolean | undefined {
+  if (ref === '#' || ref === '') {
+    return rootSchema;
+  }
+  if (!ref.startsWith('#/')) {
+    return undefined;
+  }
+  let resolved: unknown = rootSchema;
+  for (const token of ref.substring(2).split('/')) {
+    const part = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!resolved || typeof resolved !== 'object' || !(part in resolved)) {
+      return undefined;
+    }
+    resolved = (resolved as Record<string, unknown>)[part];
+  }
+  return typeof resolved === 'object' || typeof resolved === 'boolean' ? resolved as Schema | boolean : undefined;
+}
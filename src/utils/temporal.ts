@@ -0,0 +1,270 @@
+/**
+ * Date and time generation helpers
+ *
+ * Generated dates fall in a window around a reference time ("now" unless set
+ * with setReferenceDate()), so records look like believable history: past
+ * timestamps by default, birthdays decades ago and due or expiry dates ahead.
+ * Window bounds are ISO dates or times, or relative to the reference time:
+ *
+ *   "now", "now-90d", "now+2w", "now-1y"   (units: s, min, h, d, w, mo, y)
+ */
+
+import { ValidationError } from '../errors';
+import { randomFloat } from './random';
+
+export type DateFormat = 'date-time' | 'date' | 'time';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Span of a window that only has one bound, e.g. `endDate` after a future `startDate` */
+const DEFAULT_WINDOW_DAYS = 90;
+
+/**
+ * Date fields that come in pairs, earlier field first. Property names are
+ * matched word by word, so `createdAt`/`updatedAt`, `created_at`/`updated_at`
+ * and `dateCreated`/`dateModified` are all paired.
+ */
+const DATE_PAIRS: Array<[string, string]> = [
+  ['created', 'updated'],
+  ['created', 'modified'],
+  ['created', 'published'],
+  ['created', 'deleted'],
+  ['created', 'archived'],
+  ['created', 'completed'],
+  ['created', 'closed'],
+  ['created', 'resolved'],
+  ['created', 'expires'],
+  ['issued', 'expires'],
+  ['issued', 'due'],
+  ['ordered', 'shipped'],
+  ['shipped', 'delivered'],
+  ['start', 'end'],
+  ['start', 'finish'],
+  ['begin', 'end'],
+  ['from', 'to'],
+  ['from', 'until'],
+  ['opened', 'closed']
+];
+
+const BIRTH_WORDS = ['birth', 'birthday', 'birthdate', 'dob', 'born'];
+const FUTURE_WORDS = ['expires', 'expiry', 'expiration', 'due', 'deadline', 'scheduled', 'upcoming', 'next', 'renewal'];
+
+const RELATIVE_BOUND = /^now(?:\s*([+-])\s*(\d+)\s*(s|min|h|d|w|mo|y))?$/i;
+const TIME_VALUE = /^\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?$/i;
+
+let referenceTime: number | undefined;
+
+/**
+ * Checks whether a schema format is a date or time format
+ */
+export function isDateFormat(format: unknown): format is DateFormat {
+  return format === 'date-time' || format === 'date' || format === 'time';
+}
+
+/**
+ * Sets the time that generated dates and relative bounds are based on
+ *
+ * @param date - A date, ISO string or timestamp; undefined to use the current time
+ * @throws {ValidationError} When the date is invalid
+ */
+export function setReferenceDate(date?: Date | string | number): void {
+  if (date === undefined) {
+    referenceTime = undefined;
+    return;
+  }
+  const time = new Date(date).getTime();
+  if (Number.isNaN(time)) {
+    throw new ValidationError(`Invalid reference date: ${String(date)}`, 'referenceDate', date,
+      'Use an ISO date such as 2024-06-01 or 2024-06-01T12:00:00Z.');
+  }
+  referenceTime = time;
+}
+
+/**
+ * Gets the time that generated dates and relative bounds are based on
+ *
+ * @returns The reference time in milliseconds since the epoch
+ */
+export function getReferenceTime(): number {
+  return referenceTime ?? Date.now();
+}
+
+/**
+ * Parses a date value or window bound
+ *
+ * Values of `time` format are placed on 1970-01-01, so they compare by time of day.
+ *
+ * @param value - An ISO date, date-time or time, or a relative bound such as "now-90d"
+ * @param format - The format of the values being compared
+ * @returns The time in milliseconds, or undefined when the value can't be parsed
+ */
+export function parseDateValue(value: unknown, format: DateFormat): number | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const relative = RELATIVE_BOUND.exec(value.trim());
+  if (relative) {
+    const [, sign, amount, unit] = relative;
+    const time = sign ? addDuration(getReferenceTime(), Number(sign + amount), unit.toLowerCase()) : getReferenceTime();
+    return format === 'time' ? ((time % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY : time;
+  }
+
+  if (format === 'time' && TIME_VALUE.test(value)) {
+    const zoned = /(?:Z|[+-]\d{2}:\d{2})$/i.test(value);
+    const time = Date.parse(`1970-01-01T${value}${zoned ? '' : 'Z'}`);
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Gets the default window for a generated date
+ *
+ * Birthdays are 18 to 80 years ago, due and expiry dates fall within the
+ * next year and other dates within the past year. Times span the whole day.
+ *
+ * @param format - The date format
+ * @param propertyName - Property name used to pick the window
+ * @returns The earliest and latest time
+ */
+export function defaultDateWindow(format: DateFormat, propertyName?: string): [number, number] {
+  if (format === 'time') {
+    return [0, MS_PER_DAY - 1000];
+  }
+
+  const now = getReferenceTime();
+  const words = propertyName ? nameWords(propertyName).map(word => word.toLowerCase()) : [];
+  if (words.some(word => BIRTH_WORDS.includes(word))) {
+    return [addDuration(now, -80, 'y'), addDuration(now, -18, 'y')];
+  }
+  if (words.some(word => FUTURE_WORDS.includes(word))) {
+    return [now, addDuration(now, 1, 'y')];
+  }
+  return [addDuration(now, -1, 'y'), now];
+}
+
+/**
+ * Gets the window for a date that must follow or precede another date
+ *
+ * Without an upper bound, a date after a past date falls between it and the
+ * reference time, and a date after a future date within DEFAULT_WINDOW_DAYS
+ * of it. Without a lower bound, a date before another falls within the year
+ * before it.
+ *
+ * @param min - Earliest allowed time, e.g. from `formatMinimum` or the date it follows
+ * @param max - Latest allowed time, e.g. from `formatMaximum` or the date it precedes
+ * @returns The earliest and latest time
+ */
+export function boundedDateWindow(min: number | undefined, max: number | undefined): [number, number] {
+  const now = getReferenceTime();
+  if (min !== undefined && max !== undefined) {
+    return [min, Math.max(min, max)];
+  }
+  if (min !== undefined) {
+    return [min, min < now ? now : min + DEFAULT_WINDOW_DAYS * MS_PER_DAY];
+  }
+  if (max !== undefined) {
+    return [addDuration(max, -1, 'y'), max];
+  }
+  return [addDuration(now, -1, 'y'), now];
+}
+
+/**
+ * Generates a random date within a window
+ *
+ * Dates are rounded inwards to whole days so they stay within the window.
+ *
+ * @param min - Earliest time
+ * @param max - Latest time
+ * @param format - The date format to generate
+ * @returns The formatted date
+ */
+export function randomDateBetween(min: number, max: number, format: DateFormat): string {
+  if (format === 'date') {
+    const firstDay = Math.ceil(min / MS_PER_DAY);
+    const lastDay = Math.max(firstDay, Math.floor(max / MS_PER_DAY));
+    return formatDate(Math.floor(randomFloat(firstDay, lastDay + 1)) * MS_PER_DAY, format);
+  }
+  return formatDate(randomFloat(min, Math.max(min, max)), format);
+}
+
+/**
+ * Formats a time as an ISO date-time, date or UTC time of day
+ */
+export function formatDate(time: number, format: DateFormat): string {
+  const iso = new Date(time).toISOString();
+  switch (format) {
+    case 'date':
+      return iso.substring(0, 10);
+    case 'time':
+      return `${iso.substring(11, 19)}Z`;
+    default:
+      return iso;
+  }
+}
+
+/**
+ * Finds the earlier field of a known date pair, e.g. `createdAt` for `updatedAt`
+ *
+ * @param propertyName - The property that may be the later field of a pair
+ * @param siblings - Names of the other properties of the record
+ * @returns The earlier field's name, or undefined when there is none
+ */
+export function findDatePairAnchor(propertyName: string, siblings: string[]): string | undefined {
+  for (const [earlier, later] of DATE_PAIRS) {
+    const anchor = replaceWord(propertyName, later, earlier);
+    if (anchor !== undefined && siblings.includes(anchor)) {
+      return anchor;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Splits a property name into words, keeping separators
+ * ("updatedAt" → ["updated", "At"], "end_date" → ["end", "_", "date"])
+ */
+function nameWords(name: string): string[] {
+  return name.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z0-9]+|[^A-Za-z0-9]+/g) ?? [];
+}
+
+function replaceWord(name: string, from: string, to: string): string | undefined {
+  const words = nameWords(name);
+  const index = words.findIndex(word => word.toLowerCase() === from);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const word = words[index];
+  if (word.length > 1 && word === word.toUpperCase()) {
+    words[index] = to.toUpperCase();
+  } else if (word[0] === word[0].toUpperCase()) {
+    words[index] = to[0].toUpperCase() + to.substring(1);
+  } else {
+    words[index] = to;
+  }
+  return words.join('');
+}
+
+function addDuration(time: number, amount: number, unit: string): number {
+  const date = new Date(time);
+  switch (unit) {
+    case 's':
+      return time + amount * 1000;
+    case 'min':
+      return time + amount * 60 * 1000;
+    case 'h':
+      return time + amount * 60 * 60 * 1000;
+    case 'd':
+      return time + amount * MS_PER_DAY;
+    case 'w':
+      return time + amount * 7 * MS_PER_DAY;
+    case 'mo':
+      return date.setUTCMonth(date.getUTCMonth() + amount);
+    default:
+      return date.setUTCFullYear(date.getUTCFullYear() + amount);
+  }
+}
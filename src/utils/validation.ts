@@ -5,7 +5,9 @@
 import { resolve, normalize, isAbsolute } from 'path';
 import { existsSync } from 'fs';
 import { ValidationError, FileError } from '../errors';
+import { hasFakerGenerator, getFakerGenerators } from '../generators/faker-catalog';
 import { log } from './logger';
+import { SchemaValidator, getValidator, describeViolations, isDeepEqual } from './schema-validator';
 import {
   MIN_PORT,
   MAX_PORT,
@@ -211,6 +213,33 @@ export function validateSchema(schema: any, strict: boolean = false): void {
     }
   }
 
+  // Validate x-schemock-faker generator references
+  const fakerSpec = schema['x-schemock-faker'];
+  if (fakerSpec !== undefined) {
+    const generator = typeof fakerSpec === 'string' ? fakerSpec : fakerSpec?.name;
+    if (typeof generator !== 'string' || !hasFakerGenerator(generator)) {
+      throw new ValidationError(
+        `Unknown x-schemock-faker generator: ${JSON.stringify(fakerSpec)}`,
+        'x-schemock-faker',
+        fakerSpec,
+        `Use a catalog generator such as "person.jobTitle" or "commerce.productName". Available: ${getFakerGenerators().join(', ')}.`
+      );
+    }
+  }
+
+  // Validate x-schemock-nested settings
+  const nested = schema['x-schemock-nested'];
+  if (nested !== undefined && typeof nested !== 'boolean' &&
+      (typeof nested !== 'object' || nested === null || Array.isArray(nested) ||
+       (nested.methods !== undefined && (!Array.isArray(nested.methods) || nested.methods.some((method: string) => method !== 'get' && method !== 'post'))))) {
+    throw new ValidationError(
+      `Invalid x-schemock-nested setting: ${JSON.stringify(nested)}`,
+      'x-schemock-nested',
+      nested,
+      'Use false to turn nested routes off, or an object with "parent", "path" and "methods" (get, post).'
+    );
+  }
+
   // Recursively validate properties if they exist
   if (schema.properties && typeof schema.properties === 'object') {
     for (const [prop, propSchema] of Object.entries(schema.properties)) {
@@ -229,129 +258,43 @@ export function validateSchema(schema: any, strict: boolean = false): void {
 /**
  * Validates data against a JSON Schema
  *
- * Performs type checking, constraint validation, and recursive validation
- * for nested objects and arrays.
+ * Checks every keyword supported by SchemaValidator and reports all
+ * violations at once. The validator is compiled on first use and reused
+ * for the same schema object.
  *
  * @param data - The data to validate
  * @param schema - The JSON Schema to validate against
- * @throws {ValidationError} When the data does not match the schema
+ * @throws {ValidationError} When the data does not match the schema; `details.errors` lists every
+ *   violation with its instance path, schema path and keyword
  */
 export function validateData(data: any, schema: any): void {
-  if (!schema) return;
-
-  // Simple validation for required fields
-  if (schema.required && Array.isArray(schema.required)) {
-    for (const field of schema.required) {
-      if (data[field] === undefined) {
-        throw new ValidationError(
-          `${ERROR_MESSAGES.MISSING_REQUIRED_FIELD}: ${field}`,
-          field,
-          undefined,
-          `Field '${field}' is required in schema but was not provided in data.`
-        );
-      }
-    }
-  }
-
-  // Type validation
-  if (schema.type === 'string' && typeof data !== 'string') {
-    throw new ValidationError(
-      `${ERROR_MESSAGES.EXPECTED_STRING}, got ${typeof data}`,
-      'type',
-      data,
-      `Field value '${JSON.stringify(data)}' does not match expected type 'string'.`
-    );
-  }
-  if ((schema.type === 'number' || schema.type === 'integer') && typeof data !== 'number') {
-    throw new ValidationError(
-      `${ERROR_MESSAGES.EXPECTED_NUMBER}, got ${typeof data}`,
-      'type',
-      data,
-      `Field value '${JSON.stringify(data)}' does not match expected type '${schema.type}'.`
-    );
-  }
-  if (schema.type === 'boolean' && typeof data !== 'boolean') {
-    throw new ValidationError(
-      `${ERROR_MESSAGES.EXPECTED_BOOLEAN}, got ${typeof data}`,
-      'type',
-      data,
-      `Field value '${JSON.stringify(data)}' does not match expected type 'boolean'.`
-    );
-  }
-  if (schema.type === 'object' && (typeof data !== 'object' || data === null || Array.isArray(data))) {
-    throw new ValidationError(
-      `${ERROR_MESSAGES.EXPECTED_OBJECT}, got ${typeof data}`,
-      'type',
-      data,
-      `Field value '${JSON.stringify(data)}' does not match expected type 'object'.`
-    );
-  }
-  if (schema.type === 'array' && !Array.isArray(data)) {
-    throw new ValidationError(
-      `${ERROR_MESSAGES.EXPECTED_ARRAY}, got ${typeof data}`,
-      'type',
-      data,
-      `Field value '${JSON.stringify(data)}' does not match expected type 'array'.`
-    );
+  if (!schema) {
+    return;
   }
 
-  // String constraints
-  if (typeof data === 'string') {
-    if (schema.minLength && data.length < schema.minLength) {
-      throw new ValidationError(
-        `${ERROR_MESSAGES.STRING_TOO_SHORT} (min: ${schema.minLength}, actual: ${data.length})`,
-        'minLength',
-        data.length,
-        `String value '${data}' must be at least ${schema.minLength} characters long.`
-      );
-    }
-    if (schema.maxLength && data.length > schema.maxLength) {
-      throw new ValidationError(
-        `${ERROR_MESSAGES.STRING_TOO_LONG} (max: ${schema.maxLength}, actual: ${data.length})`,
-        'maxLength',
-        data.length,
-        `String value '${data}' must be at most ${schema.maxLength} characters long.`
-      );
-    }
+  const validator = typeof schema === 'object' ? getValidator(schema) : new SchemaValidator(schema);
+  const violations = validator.validate(data);
+  if (violations.length === 0) {
+    return;
   }
 
-  // Number constraints
-  if (typeof data === 'number') {
-    if (schema.minimum !== undefined && data < schema.minimum) {
-      throw new ValidationError(
-        `${ERROR_MESSAGES.NUMBER_TOO_SMALL} (min: ${schema.minimum}, actual: ${data})`,
-        'minimum',
-        data,
-        `Number value ${data} must be at least ${schema.minimum}.`
-      );
-    }
-    if (schema.maximum !== undefined && data > schema.maximum) {
-      throw new ValidationError(
-        `${ERROR_MESSAGES.NUMBER_TOO_LARGE} (max: ${schema.maximum}, actual: ${data})`,
-        'maximum',
-        data,
-        `Number value ${data} must be at most ${schema.maximum}.`
-      );
-    }
-  }
-
-  // Recursive validation for objects
-  if (schema.type === 'object' && schema.properties && data) {
-    for (const [prop, propSchema] of Object.entries(schema.properties)) {
-      if (data[prop] !== undefined) {
-        try {
-          validateData(data[prop], propSchema);
-        } catch (error: any) {
-          if (error instanceof ValidationError) {
-            throw new ValidationError(error.message, `${prop}.${error.details.field}`, error.details.value);
-          }
-          throw error;
-        }
-      }
-    }
-  }
+  const [first] = violations;
+  const tokens = first.instancePath.split('/').slice(1).map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  const missing = first.keyword === 'required' ? first.params?.missingProperty : undefined;
+  const field = [...tokens, typeof missing === 'string' ? missing : first.keyword].join('.');
+  throw new ValidationError(
+    violations.length === 1
+      ? `Data does not match the schema: ${describeViolations(violations)}`
+      : `Data does not match the schema (${violations.length} errors): ${describeViolations(violations)}`,
+    field,
+    tokens.reduce<any>((value, token) => value?.[token], data),
+    'See details.errors for every violation with its JSON pointer.',
+    violations
+  );
 }
 
+export { isDeepEqual };
+
 /**
  * Validates a log level string
  *